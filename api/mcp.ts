@@ -1,35 +1,25 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import { createServer } from "../src/server.js";
+import { ApiKeyAuth, authorizeRequest, loadApiKeys } from "../src/auth.js";
+import { RequestLogger, loadLoggerOptions } from "../src/logging.js";
+import { flushTracing, initTracing, instrumentTransport, withIncomingContext } from "../src/tracing.js";
+import { RateLimiter, admitRequest, clientId, loadRateLimitOptions, runAsClient } from "../src/ratelimit.js";
+
+// Loaded once per instance; quotas and rate limits are counted per instance
+const auth = new ApiKeyAuth(loadApiKeys());
+const limiter = new RateLimiter(loadRateLimitOptions());
+// JSON lines on stderr; an audit file must live under /tmp on Vercel
+const logger = new RequestLogger(loadLoggerOptions());
+await initTracing();
 
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
 ) {
-  const ts = new Date().toISOString();
-  const ua = req.headers["user-agent"] ?? "unknown";
-  const accept = req.headers["accept"] ?? "none";
-
-  // Log incoming request
-  if (Array.isArray(req.body)) {
-    for (const msg of req.body) {
-      console.log(`[${ts}] ${req.method} ${msg.method ?? "notification"} | id=${msg.id ?? "-"} | ua=${ua} | accept=${accept}`);
-      if (msg.params && Object.keys(msg.params).length > 0) {
-        console.log(`[${ts}]   params: ${JSON.stringify(msg.params)}`);
-      }
-    }
-  } else if (req.body?.method) {
-    console.log(`[${ts}] ${req.method} ${req.body.method} | id=${req.body.id ?? "-"} | ua=${ua} | accept=${accept}`);
-    if (req.body.params && Object.keys(req.body.params).length > 0) {
-      console.log(`[${ts}]   params: ${JSON.stringify(req.body.params)}`);
-    }
-  } else {
-    console.log(`[${ts}] ${req.method} (no body) | ua=${ua} | accept=${accept}`);
-  }
-
   res.setHeader("Access-Control-Allow-Origin", "*");
   res.setHeader("Access-Control-Allow-Methods", "POST, GET, DELETE, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Mcp-Session-Id");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, Mcp-Session-Id");
   res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
 
   if (req.method === "OPTIONS") {
@@ -37,21 +27,34 @@ export default async function handler(
     return;
   }
 
+  if (!authorizeRequest(auth, req, res)) return;
+  // Vercel sets X-Forwarded-For to the client IP
+  const client = clientId(req, true);
+  if (!admitRequest(limiter, client, res)) return;
+
+  // Serverless instances share no memory, so this handler stays stateless
+  // (stateful sessions are only offered by the Express server, see src/sessions.ts)
   try {
-    const server = createServer();
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
+    await runAsClient(limiter, client, () => withIncomingContext(req.headers, async () => {
+      const server = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
 
-    res.on("close", () => {
-      transport.close().catch(() => {});
-      server.close().catch(() => {});
-    });
+      res.on("close", () => {
+        transport.close().catch(() => {});
+        server.close().catch(() => {});
+      });
 
-    await server.connect(transport);
-    await transport.handleRequest(req, res, req.body);
+      await server.connect(transport);
+      logger.instrument(transport);
+      instrumentTransport(transport);
+      await transport.handleRequest(req, res, req.body);
+    }));
+    // The instance may be frozen once the response is sent
+    await flushTracing();
   } catch (e) {
-    console.error(`[${ts}] ERROR:`, e);
+    console.error("[poligraph-mcp] Handler error:", e);
     if (!res.headersSent) {
       res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "Internal error" }, id: null });
     }
@@ -1,7 +1,22 @@
-const BASE_URL = "https://poligraph.fr";
+import type { z } from "zod";
+import { SpanKind, trace } from "@opentelemetry/api";
+import { ResponseCache, type CacheStats } from "./cache.js";
+import { CircuitBreaker, backoffDelay, parseRetryAfter, type CircuitState } from "./resilience.js";
+import { acquireUpstream } from "./ratelimit.js";
+import { recordCacheHit, recordUpstreamCall } from "./logging.js";
+import { injectTraceHeaders, withSpan } from "./tracing.js";
+import { currentSignal, requestDeadline } from "./progress.js";
+import { readFixture, writeFixture, type FixturesMode } from "./fixtures.js";
+import { parseResponse } from "./schemas.js";
+import { getConfig } from "./config.js";
+import { locale } from "./i18n.js";
+
+const FIXTURES_MODE = (process.env.POLIGRAPH_FIXTURES_MODE || "off") as FixturesMode;
+const FIXTURES_DIR = process.env.POLIGRAPH_FIXTURES_DIR || "fixtures";
 
 /**
- * Format an ISO date string to a readable French date (ex: "21 décembre 1977").
+ * Format an ISO date string to a readable date in the output language
+ * (ex: "21 décembre 1977", "21 December 1977", see i18n.ts).
  * Returns "—" for null/undefined/empty values.
  */
 export function formatDate(isoDate: string | null | undefined): string {
@@ -9,7 +24,7 @@ export function formatDate(isoDate: string | null | undefined): string {
   try {
     const date = new Date(isoDate);
     if (isNaN(date.getTime())) return isoDate;
-    return date.toLocaleDateString("fr-FR", {
+    return date.toLocaleDateString(locale(), {
       day: "numeric",
       month: "long",
       year: "numeric",
@@ -19,7 +34,15 @@ export function formatDate(isoDate: string | null | undefined): string {
   }
 }
 
+/** Format a count with the thousands separator of the output language. */
+export function formatNumber(value: number): string {
+  return value.toLocaleString(locale());
+}
+
 export class ApiError extends Error {
+  /** Delay requested by the upstream through a Retry-After header. */
+  retryAfterMs?: number;
+
   constructor(
     public status: number,
     message: string,
@@ -29,11 +52,380 @@ export class ApiError extends Error {
   }
 }
 
-export async function fetchAPI<T>(
+/** A client went over its pages-per-minute cap (see ratelimit.ts); poligraph.fr was not called. */
+export class ClientRateLimitError extends ApiError {
+  constructor(retryAfterMs: number) {
+    super(429, "Client page limit exceeded");
+    this.name = "ClientRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** The caller cancelled the request (see progress.ts); it is neither cached, recorded nor counted as a failure. */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super("Request cancelled");
+    this.name = "RequestCancelledError";
+  }
+}
+
+function checkCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) throw new RequestCancelledError();
+}
+
+export interface FetchOptions {
+  /** Set to false to skip the response cache (the fresh response is still stored). */
+  cache?: boolean;
+  /** Absolute time (epoch ms) after which no retry is attempted. Defaults to the current request's deadline (see progress.ts). */
+  deadline?: number;
+  /** Abort the call when this signal fires. Defaults to the current request's signal. */
+  signal?: AbortSignal;
+}
+
+// ─── Response cache ────────────────────────────────────────────
+
+const MINUTE = 60_000;
+
+/**
+ * Freshness per route, first match wins. Reference data (parties, elections,
+ * departments) changes rarely; votes and per-politician activity move daily.
+ */
+const ROUTE_TTLS: Array<[RegExp, number]> = [
+  [/^\/api\/partis/, 6 * 60 * MINUTE],
+  [/^\/api\/stats\/departments/, 6 * 60 * MINUTE],
+  [/^\/api\/elections/, 60 * MINUTE],
+  [/^\/api\/deputies/, 60 * MINUTE],
+  [/^\/api\/mandats/, 60 * MINUTE],
+  [/^\/api\/politiques\/[^/]+\/(votes|factchecks)/, 5 * MINUTE],
+  [/^\/api\/politiques/, 30 * MINUTE],
+  [/^\/api\/affaires/, 30 * MINUTE],
+  [/^\/api\/factchecks/, 10 * MINUTE],
+  [/^\/api\/votes\/stats/, 10 * MINUTE],
+  [/^\/api\/votes/, 2 * MINUTE],
+];
+
+const DEFAULT_TTL = 5 * MINUTE;
+
+function ttlFor(path: string): number {
+  for (const [pattern, ttl] of ROUTE_TTLS) {
+    if (pattern.test(path)) return ttl;
+  }
+  return DEFAULT_TTL;
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+// Created on first use, once the configuration is loaded (see config.ts)
+let responseCache: ResponseCache | undefined;
+
+function cache(): ResponseCache {
+  return (responseCache ??= new ResponseCache(getConfig().cache));
+}
+
+/**
+ * A request on the wire, shared by concurrent callers of the same URL. It is
+ * aborted once every caller that can cancel has done so.
+ */
+interface PendingRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+const inFlight = new Map<string, PendingRequest>();
+
+export function getCacheStats(): CacheStats {
+  return cache().stats();
+}
+
+export function clearCache(): void {
+  cache().clear();
+}
+
+// ─── Retries & circuit breaker ─────────────────────────────────
+
+/** Per-attempt timeout. */
+const REQUEST_TIMEOUT_MS = envInt("POLIGRAPH_TIMEOUT_MS", 10_000);
+
+const MAX_RETRIES = envInt("POLIGRAPH_MAX_RETRIES", 3);
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8_000;
+
+const breaker = new CircuitBreaker({
+  failureThreshold: envInt("POLIGRAPH_CIRCUIT_THRESHOLD", 5),
+  cooldownMs: envInt("POLIGRAPH_CIRCUIT_COOLDOWN_MS", 30_000),
+});
+
+export function getCircuitState(): CircuitState {
+  return breaker.state;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ─── Client ────────────────────────────────────────────────────
+
+/**
+ * Single HTTP attempt, bounded by `timeoutMs` (body included).
+ * Network failures surface as 502, timeouts as 504 and cancellation as
+ * `RequestCancelledError`.
+ */
+async function attempt(
+  url: string,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+): Promise<{ value: unknown; size: number }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      headers: injectTraceHeaders({
+        Accept: "application/json",
+        "User-Agent": "poligraph-mcp/1.0",
+      }),
+      signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+    });
+    trace.getActiveSpan()?.setAttribute("http.response.status_code", response.status);
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => "Unknown error");
+      const error = new ApiError(response.status, `API ${response.status}: ${text}`);
+      error.retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      throw error;
+    }
+
+    const body = await response.text();
+    return { value: JSON.parse(body), size: body.length };
+  } catch (e) {
+    if (e instanceof ApiError || e instanceof SyntaxError) throw e;
+    if (signal?.aborted) throw new RequestCancelledError();
+    if (controller.signal.aborted) {
+      throw new ApiError(504, `API timeout: no response within ${timeoutMs} ms`);
+    }
+    throw new ApiError(502, `API unreachable: ${(e as Error).message}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function requestWithRetries(
+  url: string,
+  deadline: number,
+  signal: AbortSignal | undefined,
+): Promise<{ value: unknown; size: number }> {
+  for (let retry = 0; ; retry++) {
+    checkCancelled(signal);
+    if (!breaker.canRequest()) {
+      const seconds = Math.ceil(breaker.retryInMs() / 1000);
+      const error = new ApiError(
+        503,
+        `API indisponible : poligraph.fr ne répond pas. Nouvel essai possible dans ${seconds} s.`,
+      );
+      error.retryAfterMs = breaker.retryInMs();
+      throw error;
+    }
+
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new ApiError(504, "API timeout: request budget exhausted");
+    }
+    let error: ApiError;
+    try {
+      const result = await attempt(url, Math.max(1, Math.min(REQUEST_TIMEOUT_MS, remaining)), signal);
+      breaker.recordSuccess();
+      return result;
+    } catch (e) {
+      if (e instanceof RequestCancelledError) {
+        breaker.recordAbandoned();
+        throw e;
+      }
+      if (!(e instanceof ApiError)) {
+        // Malformed body: the upstream is up, the response is not usable
+        breaker.recordSuccess();
+        throw e;
+      }
+      error = e;
+    }
+
+    if (!isRetryable(error.status)) {
+      breaker.recordSuccess();
+      throw error;
+    }
+    if (error.status === 429) {
+      breaker.recordSuccess();
+    } else {
+      breaker.recordFailure();
+    }
+
+    const delay = Math.max(
+      error.retryAfterMs ?? 0,
+      backoffDelay(retry, BACKOFF_BASE_MS, BACKOFF_MAX_MS),
+    );
+    if (retry >= MAX_RETRIES || Date.now() + delay >= deadline) {
+      throw error;
+    }
+    trace.getActiveSpan()?.addEvent("retry", { "http.response.status_code": error.status, "poligraph.delay_ms": delay });
+    await sleep(delay, signal);
+  }
+}
+
+function fixtureKey(url: string): string {
+  const parsed = new URL(url);
+  return parsed.pathname + parsed.search;
+}
+
+async function replay(url: string): Promise<{ value: unknown; size: number }> {
+  const fixture = await readFixture(FIXTURES_DIR, fixtureKey(url));
+  if (!fixture) {
+    throw new ApiError(
+      404,
+      `Replay: no fixture for ${fixtureKey(url)} in ${FIXTURES_DIR} (record it with POLIGRAPH_FIXTURES_MODE=record)`,
+    );
+  }
+  if (fixture.error !== undefined) {
+    throw new ApiError(fixture.status, fixture.error);
+  }
+  return { value: fixture.body, size: JSON.stringify(fixture.body).length };
+}
+
+async function requestJSON(
+  url: string,
+  deadline: number,
+  signal: AbortSignal | undefined,
+): Promise<{ value: unknown; size: number }> {
+  if (FIXTURES_MODE === "replay") {
+    checkCancelled(signal);
+    return replay(url);
+  }
+  if (FIXTURES_MODE !== "record") {
+    return requestWithRetries(url, deadline, signal);
+  }
+
+  try {
+    const result = await requestWithRetries(url, deadline, signal);
+    await writeFixture(FIXTURES_DIR, { url: fixtureKey(url), status: 200, body: result.value });
+    return result;
+  } catch (e) {
+    // Client errors are part of the API contract (e.g. unknown slug); transient failures are not
+    if (e instanceof ApiError && e.status >= 400 && e.status < 500 && e.status !== 429) {
+      await writeFixture(FIXTURES_DIR, { url: fixtureKey(url), status: e.status, error: e.message });
+    }
+    throw e;
+  }
+}
+
+/** List routes are paged: any request carrying `page` or `limit` counts against the client's page cap. */
+function isPageRequest(url: string): boolean {
+  const { searchParams } = new URL(url);
+  return searchParams.has("page") || searchParams.has("limit");
+}
+
+/** Upstream requests on the wire, retries included (exported as a metric). */
+let upstreamInFlight = 0;
+
+export function getUpstreamInFlight(): number {
+  return upstreamInFlight;
+}
+
+async function throttledRequest(
+  key: string,
+  deadline: number,
+  signal: AbortSignal | undefined,
+): Promise<{ value: unknown; size: number }> {
+  const slot = await acquireUpstream(isPageRequest(key), signal).catch((e: unknown) => {
+    // Cancelled while waiting for a slot
+    checkCancelled(signal);
+    throw e;
+  });
+  if ("retryAfterMs" in slot) {
+    throw new ClientRateLimitError(slot.retryAfterMs);
+  }
+  upstreamInFlight++;
+  try {
+    // The call may have been cancelled just as it got its slot
+    checkCancelled(signal);
+    recordUpstreamCall();
+    const result = await requestJSON(key, deadline, signal);
+    trace.getActiveSpan()?.setAttribute("http.response.body.size", result.size);
+    return result;
+  } finally {
+    upstreamInFlight--;
+    slot.release();
+  }
+}
+
+async function fetchAndStore(
+  key: string,
   path: string,
-  params?: Record<string, string | number | boolean | undefined>,
-): Promise<T> {
-  const url = new URL(path, BASE_URL);
+  deadline: number,
+  signal: AbortSignal | undefined,
+): Promise<unknown> {
+  const { value, size } = await throttledRequest(key, deadline, signal);
+  if (getConfig().cache.enabled) {
+    // Stale copies stay servable for one extra TTL while being revalidated
+    const ttl = ttlFor(path);
+    cache().set(key, value, size, ttl, ttl);
+  }
+  return value;
+}
+
+/**
+ * Join the shared request for `key`, starting it if needed. A caller without
+ * a signal keeps the request alive; one with a signal stops waiting when it
+ * fires, and the last such caller aborts the request.
+ */
+function load(key: string, path: string, deadline: number, signal?: AbortSignal): Promise<unknown> {
+  let pending = inFlight.get(key);
+  // An aborted request is on its way out: start afresh rather than join it
+  if (!pending || pending.controller.signal.aborted) {
+    const controller = new AbortController();
+    const entry: PendingRequest = { promise: Promise.resolve(), controller, waiters: 0 };
+    entry.promise = fetchAndStore(key, path, deadline, controller.signal).finally(() => {
+      if (inFlight.get(key) === entry) inFlight.delete(key);
+    });
+    inFlight.set(key, entry);
+    pending = entry;
+  }
+
+  pending.waiters++;
+  if (!signal) return pending.promise;
+
+  const shared = pending;
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      reject(new RequestCancelledError());
+      if (--shared.waiters === 0) shared.controller.abort();
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    shared.promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+async function fetchRaw(
+  path: string,
+  params: Record<string, string | number | boolean | undefined> | undefined,
+  options: FetchOptions,
+): Promise<unknown> {
+  const url = new URL(path, getConfig().baseUrl);
 
   if (params) {
     for (const [key, value] of Object.entries(params)) {
@@ -43,17 +435,65 @@ export async function fetchAPI<T>(
     }
   }
 
-  const response = await fetch(url.toString(), {
-    headers: {
-      Accept: "application/json",
-      "User-Agent": "poligraph-mcp/1.0",
-    },
-  });
+  const key = url.toString();
+  const deadline = options.deadline ?? requestDeadline();
+  const signal = options.signal ?? currentSignal();
+  checkCancelled(signal);
+
+  const span = trace.getActiveSpan();
+  span?.setAttribute("url.full", key);
+  if (!getConfig().cache.enabled || options.cache === false) {
+    span?.setAttribute("poligraph.cache", "bypass");
+    return fetchAndStore(key, path, deadline, signal);
+  }
 
-  if (!response.ok) {
-    const text = await response.text().catch(() => "Unknown error");
-    throw new ApiError(response.status, `API ${response.status}: ${text}`);
+  const cached = cache().get(key);
+  span?.setAttribute("poligraph.cache", cached.state);
+  if (cached.state === "fresh") {
+    recordCacheHit();
+    return cached.value;
+  }
+  if (cached.state === "stale") {
+    recordCacheHit();
+    // Serve the stale copy now, refresh it for the next caller
+    load(key, path, deadline).catch(() => {});
+    return cached.value;
   }
 
-  return response.json() as Promise<T>;
+  return load(key, path, deadline, signal);
+}
+
+/**
+ * Fetch an API route and validate the response against `schema`.
+ * Missing or mistyped fields are replaced by neutral fallbacks and logged;
+ * a payload without the expected top-level shape is rejected (502).
+ */
+export async function fetchAPI<S extends z.ZodTypeAny>(
+  path: string,
+  schema: S,
+  params?: Record<string, string | number | boolean | undefined>,
+  options: FetchOptions = {},
+): Promise<z.infer<S>> {
+  const attributes = { "http.request.method": "GET", "url.path": path, "server.address": new URL(getConfig().baseUrl).host };
+  return withSpan(`GET ${path}`, SpanKind.CLIENT, attributes, async (span) => {
+    let value: unknown;
+    try {
+      value = await fetchRaw(path, params, options);
+    } catch (e) {
+      if (e instanceof ApiError) span.setAttribute("http.response.status_code", e.status);
+      throw e;
+    }
+    const { data, issues, rootMismatch } = parseResponse(schema, value);
+
+    if (rootMismatch) {
+      throw new ApiError(502, `API ${path}: unexpected response shape`);
+    }
+    if (issues.length > 0) {
+      const summary = issues.map((i) => `${i.path} (${i.message})`).join(", ");
+      console.error(`[poligraph-mcp] Schema drift on ${path}: ${summary}`);
+      span.setAttribute("poligraph.schema_drift", issues.length);
+    }
+
+    return data;
+  });
 }
@@ -0,0 +1,207 @@
+/**
+ * Optional API-key authentication for the HTTP transport.
+ *
+ * Keys come from a JSON file (`POLIGRAPH_API_KEYS_FILE`) and/or the
+ * `POLIGRAPH_API_KEYS` variable (`id:token` pairs, comma-separated). When no
+ * key is configured, authentication is off. Each key has a daily quota (UTC
+ * days) and a per-minute rate limit; rejected requests get a JSON-RPC error
+ * with HTTP 401 or 429. The key identity is attached to the request as
+ * `req.auth`, which the SDK hands to tool handlers as `extra.authInfo`.
+ *
+ * Counters live in process memory: on serverless platforms they are kept per
+ * instance and only approximate.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { z } from "zod";
+
+const DEFAULT_DAILY_QUOTA = 10_000;
+const DEFAULT_PER_MINUTE = 60;
+
+/** JSON-RPC error codes for rejected requests (implementation-defined range). */
+export const UNAUTHORIZED_CODE = -32011;
+export const QUOTA_EXCEEDED_CODE = -32029;
+
+const ApiKeySchema = z.object({
+  id: z.string().min(1),
+  token: z.string().min(16),
+  dailyQuota: z.number().int().positive().optional(),
+  perMinute: z.number().int().positive().optional(),
+});
+
+const ApiKeysFileSchema = z.object({
+  keys: z.array(ApiKeySchema),
+});
+
+export interface ApiKey {
+  id: string;
+  token: string;
+  dailyQuota: number;
+  perMinute: number;
+}
+
+export interface KeyUsage {
+  id: string;
+  /** UTC day (YYYY-MM-DD) the `today` counter refers to. */
+  day: string;
+  today: number;
+  total: number;
+  rejected: number;
+}
+
+export type AuthResult =
+  | { ok: true; key: ApiKey }
+  | { ok: false; status: 401 | 429; message: string; retryAfterMs?: number };
+
+interface KeyState {
+  key: ApiKey;
+  usage: KeyUsage;
+  minute: number;
+  minuteCount: number;
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function utcDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function envInt(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = parseInt(env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/** Read keys from `POLIGRAPH_API_KEYS_FILE` and `POLIGRAPH_API_KEYS`. Throws on malformed configuration. */
+export function loadApiKeys(env: NodeJS.ProcessEnv = process.env): ApiKey[] {
+  const dailyQuota = envInt(env, "POLIGRAPH_API_KEY_DAILY_QUOTA", DEFAULT_DAILY_QUOTA);
+  const perMinute = envInt(env, "POLIGRAPH_API_KEY_PER_MINUTE", DEFAULT_PER_MINUTE);
+  const entries: z.infer<typeof ApiKeySchema>[] = [];
+
+  if (env.POLIGRAPH_API_KEYS_FILE) {
+    const file = JSON.parse(readFileSync(env.POLIGRAPH_API_KEYS_FILE, "utf8"));
+    entries.push(...ApiKeysFileSchema.parse(file).keys);
+  }
+  if (env.POLIGRAPH_API_KEYS) {
+    const pairs = env.POLIGRAPH_API_KEYS.split(",").map((p) => p.trim()).filter(Boolean);
+    for (const [index, pair] of pairs.entries()) {
+      const separator = pair.indexOf(":");
+      // The entry is not echoed: without its id, it is (mostly) the secret token
+      if (separator <= 0) {
+        throw new Error(`POLIGRAPH_API_KEYS: entry ${index + 1} is not an id:token pair (missing id)`);
+      }
+      entries.push(ApiKeySchema.parse({ id: pair.slice(0, separator), token: pair.slice(separator + 1) }));
+    }
+  }
+
+  return entries.map((e) => ({
+    id: e.id,
+    token: e.token,
+    dailyQuota: e.dailyQuota ?? dailyQuota,
+    perMinute: e.perMinute ?? perMinute,
+  }));
+}
+
+export class ApiKeyAuth {
+  private byHash = new Map<string, KeyState>();
+
+  constructor(keys: ApiKey[]) {
+    for (const key of keys) {
+      this.byHash.set(hashToken(key.token), {
+        key,
+        usage: { id: key.id, day: "", today: 0, total: 0, rejected: 0 },
+        minute: 0,
+        minuteCount: 0,
+      });
+    }
+  }
+
+  get enabled(): boolean {
+    return this.byHash.size > 0;
+  }
+
+  /** Check an `Authorization` header and count the request against the key's limits. */
+  check(authorization: string | undefined, now = Date.now()): AuthResult {
+    const match = authorization?.match(/^Bearer\s+(.+)$/i);
+    const state = match ? this.byHash.get(hashToken(match[1].trim())) : undefined;
+    if (!state) {
+      return { ok: false, status: 401, message: "Unauthorized: missing or invalid API key" };
+    }
+
+    const { key, usage } = state;
+    const day = utcDay(now);
+    if (usage.day !== day) {
+      usage.day = day;
+      usage.today = 0;
+    }
+    const minute = Math.floor(now / 60_000);
+    if (state.minute !== minute) {
+      state.minute = minute;
+      state.minuteCount = 0;
+    }
+
+    if (usage.today >= key.dailyQuota) {
+      usage.rejected++;
+      const midnight = Date.parse(`${day}T00:00:00.000Z`) + 86_400_000;
+      return { ok: false, status: 429, message: "Daily quota exceeded", retryAfterMs: midnight - now };
+    }
+    if (state.minuteCount >= key.perMinute) {
+      usage.rejected++;
+      return { ok: false, status: 429, message: "Rate limit exceeded", retryAfterMs: (minute + 1) * 60_000 - now };
+    }
+
+    state.minuteCount++;
+    usage.today++;
+    usage.total++;
+    return { ok: true, key };
+  }
+
+  usage(id: string): KeyUsage | undefined {
+    for (const state of this.byHash.values()) {
+      if (state.key.id === id) return { ...state.usage };
+    }
+    return undefined;
+  }
+}
+
+/** JSON-RPC error response shared by the HTTP entry points. */
+export function sendRpcError(
+  res: ServerResponse,
+  status: number,
+  code: number,
+  message: string,
+  headers: Record<string, string> = {},
+): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+/**
+ * Authenticate an HTTP request. On success, sets `req.auth` (with the key id
+ * as `clientId`) and returns true; otherwise sends a 401 or 429 and returns false.
+ */
+export function authorizeRequest(
+  auth: ApiKeyAuth,
+  req: IncomingMessage & { auth?: AuthInfo },
+  res: ServerResponse,
+): boolean {
+  if (!auth.enabled) return true;
+
+  const result = auth.check(req.headers.authorization);
+  if (result.ok) {
+    req.auth = { token: result.key.token, clientId: result.key.id, scopes: [] };
+    return true;
+  }
+
+  if (result.status === 401) {
+    sendRpcError(res, 401, UNAUTHORIZED_CODE, result.message, { "WWW-Authenticate": 'Bearer realm="poligraph-mcp"' });
+  } else {
+    const retryAfter = String(Math.ceil((result.retryAfterMs ?? 0) / 1000));
+    sendRpcError(res, 429, QUOTA_EXCEEDED_CODE, result.message, { "Retry-After": retryAfter });
+  }
+  return false;
+}
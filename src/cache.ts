@@ -0,0 +1,106 @@
+/**
+ * In-memory LRU cache for API responses.
+ *
+ * Entries are evicted in least-recently-used order once either the entry
+ * count or the approximate byte size exceeds its limit. Each entry has a
+ * freshness deadline (TTL) and a stale deadline: between the two, the value
+ * can still be served while it is revalidated in the background.
+ */
+
+interface CacheEntry {
+  value: unknown;
+  size: number;
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export interface CacheOptions {
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+}
+
+export type CacheLookup =
+  | { state: "fresh"; value: unknown }
+  | { state: "stale"; value: unknown }
+  | { state: "miss" };
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private staleHits = 0;
+  private misses = 0;
+
+  constructor(private options: CacheOptions) {}
+
+  get(key: string, now = Date.now()): CacheLookup {
+    const entry = this.entries.get(key);
+    if (!entry || now >= entry.staleUntil) {
+      if (entry) this.delete(key);
+      this.misses++;
+      return { state: "miss" };
+    }
+
+    // Move to the most-recently-used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    if (now < entry.freshUntil) {
+      this.hits++;
+      return { state: "fresh", value: entry.value };
+    }
+    this.staleHits++;
+    return { state: "stale", value: entry.value };
+  }
+
+  set(key: string, value: unknown, size: number, ttlMs: number, staleMs: number, now = Date.now()): void {
+    if (size > this.options.maxBytes) return;
+
+    this.delete(key);
+    this.entries.set(key, {
+      value,
+      size,
+      freshUntil: now + ttlMs,
+      staleUntil: now + ttlMs + staleMs,
+    });
+    this.bytes += size;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.options.maxEntries && this.bytes <= this.options.maxBytes) break;
+      this.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.bytes -= entry.size;
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.bytes = 0;
+    this.hits = 0;
+    this.staleHits = 0;
+    this.misses = 0;
+  }
+
+  stats(): CacheStats {
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      hits: this.hits,
+      staleHits: this.staleHits,
+      misses: this.misses,
+    };
+  }
+}
@@ -0,0 +1,240 @@
+/**
+ * Command-line interface of the `poligraph-mcp` binary.
+ *
+ *   poligraph-mcp [options de configuration] serve [--stdio | --http] [--port <n>]
+ *   poligraph-mcp [options de configuration] tools list [--json]
+ *   poligraph-mcp [options de configuration] call <tool> [--<argument> <valeur>…] [--json]
+ *
+ * Without a command the binary serves MCP on stdio, as MCP clients expect.
+ * `call` runs a tool in-process, through an in-memory MCP client, and prints
+ * its markdown (or its `structuredContent` with `--json`): scripts and cron
+ * jobs get the same validation and formatters as MCP clients. Configuration
+ * options (see config.ts) go before the command, or after `serve` and
+ * `tools list`; after `call <tool>` every option is a tool argument.
+ */
+
+import { parseArgs } from "node:util";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { CONFIG_OPTIONS, ConfigError, initConfig } from "./config.js";
+import { createServer } from "./server.js";
+import { serveStdio } from "./stdio.js";
+
+export const USAGE = `Usage : poligraph-mcp [options de configuration] <commande>
+
+Commandes :
+  serve [--stdio | --http] [--port <n>]       Démarrer le serveur MCP (stdio par défaut)
+  tools list [--json]                         Lister les tools disponibles
+  call <tool> [--<argument> <valeur>…] [--json]
+                                              Exécuter un tool et afficher sa réponse
+
+Options de configuration : --config <fichier>, --base-url <url>, --lang <code>,
+  --groups <groupes>, --disable <groupe|tool>, --limit <tool=n>, --no-cache`;
+
+/** Where the commands print: stdout for results, stderr for errors. */
+export type Output = Pick<Console, "log" | "error">;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+type OptionSpec = Record<string, { type: "string" | "boolean"; multiple?: boolean }>;
+
+function isConfigOption(name: string): name is keyof typeof CONFIG_OPTIONS {
+  return Object.hasOwn(CONFIG_OPTIONS, name);
+}
+
+/** Split `argv` into the configuration options before the command, the command and its arguments. */
+function splitCommand(argv: string[]): { configArgs: string[]; command?: string; rest: string[] } {
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+    if (!token.startsWith("-")) {
+      return { configArgs: argv.slice(0, i), command: token, rest: argv.slice(i + 1) };
+    }
+    const name = token.replace(/^--?/, "").split("=")[0];
+    if (isConfigOption(name) && CONFIG_OPTIONS[name].type === "string" && !token.includes("=")) i++;
+  }
+  return { configArgs: argv, rest: [] };
+}
+
+/** Parse a command's own options; configuration options are handed back as arguments for `initConfig`. */
+function splitOptions<O extends OptionSpec>(args: string[], own: O) {
+  let parsed;
+  try {
+    parsed = parseArgs({ args, options: { ...CONFIG_OPTIONS, ...own }, strict: true, allowPositionals: false, tokens: true });
+  } catch (e) {
+    throw new UsageError((e as Error).message);
+  }
+  const configArgs: string[] = [];
+  for (const token of parsed.tokens) {
+    if (token.kind !== "option" || !isConfigOption(token.name)) continue;
+    configArgs.push(token.inlineValue ? `${token.rawName}=${token.value}` : token.rawName);
+    if (token.value !== undefined && !token.inlineValue) configArgs.push(token.value);
+  }
+  return { values: parsed.values as { [K in keyof O]?: O[K]["type"] extends "boolean" ? boolean : string }, configArgs };
+}
+
+async function connect(): Promise<Client> {
+  const client = new Client({ name: "poligraph-cli", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+async function serve(configArgs: string[], args: string[]): Promise<undefined> {
+  const { values, configArgs: more } = splitOptions(args, {
+    stdio: { type: "boolean" },
+    http: { type: "boolean" },
+    port: { type: "string" },
+  });
+  if (values.stdio && values.http) throw new UsageError("--stdio et --http sont exclusifs");
+  if (values.port !== undefined && !values.http) throw new UsageError("--port ne s'utilise qu'avec --http");
+  const port = values.port === undefined ? undefined : Number(values.port);
+  if (port !== undefined && !(Number.isInteger(port) && port >= 0 && port < 65536)) {
+    throw new UsageError(`--port : « ${values.port} » n'est pas un numéro de port`);
+  }
+
+  initConfig([...configArgs, ...more]);
+  if (values.http) {
+    // Loaded on demand: the HTTP module sets up Express, auth and metrics when imported
+    const { serveHttp } = await import("./http.js");
+    await serveHttp(port);
+  } else {
+    await serveStdio();
+  }
+  return undefined;
+}
+
+async function listTools(configArgs: string[], args: string[], output: Output): Promise<number> {
+  const [subcommand, ...rest] = args;
+  if (subcommand !== "list") throw new UsageError(`Sous-commande inconnue : tools ${subcommand ?? ""}`.trim());
+  const { values, configArgs: more } = splitOptions(rest, { json: { type: "boolean" } });
+  initConfig([...configArgs, ...more]);
+
+  const client = await connect();
+  try {
+    const { tools } = await client.listTools();
+    if (values.json) {
+      output.log(JSON.stringify(tools, null, 2));
+    } else {
+      const width = Math.max(...tools.map((t) => t.name.length));
+      for (const tool of tools) output.log(`${tool.name.padEnd(width)}  ${tool.description ?? ""}`);
+    }
+    return 0;
+  } finally {
+    await client.close();
+  }
+}
+
+function camelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/** Turn `--name value` pairs into tool arguments, typed after the tool's input schema. */
+export function parseToolArgs(tool: Pick<Tool, "name" | "inputSchema">, argv: string[]): Record<string, unknown> {
+  const properties = (tool.inputSchema.properties ?? {}) as Record<string, { type?: string }>;
+  const args: Record<string, unknown> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const token = argv[i];
+    if (!token.startsWith("--")) throw new UsageError(`Argument inattendu : ${token}`);
+    const separator = token.indexOf("=");
+    const key = camelCase(token.slice(2, separator === -1 ? undefined : separator));
+    const schema = properties[key];
+    if (!schema) {
+      const known = Object.keys(properties).map((k) => `--${k}`);
+      throw new UsageError(`Argument inconnu pour ${tool.name} : --${key}${known.length ? `. Arguments : ${known.join(", ")}` : ""}`);
+    }
+
+    let raw: string | undefined;
+    if (separator !== -1) raw = token.slice(separator + 1);
+    else if (schema.type === "boolean" && (argv[i + 1] === undefined || argv[i + 1].startsWith("--"))) raw = "true";
+    else raw = argv[++i];
+    if (raw === undefined) throw new UsageError(`--${key} attend une valeur`);
+
+    if (schema.type === "number" || schema.type === "integer") {
+      const value = Number(raw);
+      if (raw.trim() === "" || Number.isNaN(value)) throw new UsageError(`--${key} attend un nombre`);
+      args[key] = value;
+    } else if (schema.type === "boolean") {
+      if (raw !== "true" && raw !== "false") throw new UsageError(`--${key} attend true ou false`);
+      args[key] = raw === "true";
+    } else {
+      args[key] = raw;
+    }
+  }
+  return args;
+}
+
+function textOf(result: CallToolResult): string {
+  return result.content
+    .filter((c) => c.type === "text")
+    .map((c) => c.text)
+    .join("\n\n");
+}
+
+async function callTool(configArgs: string[], args: string[], output: Output): Promise<number> {
+  const [name, ...rest] = args;
+  if (!name) throw new UsageError("Indiquez le tool à exécuter : poligraph-mcp call <tool> [--<argument> <valeur>…]");
+  // --json belongs to the CLI, every other option to the tool
+  const json = rest.includes("--json");
+  const toolArgv = rest.filter((a) => a !== "--json");
+  initConfig(configArgs);
+
+  const client = await connect();
+  try {
+    const { tools } = await client.listTools();
+    const tool = tools.find((t) => t.name === name);
+    if (!tool) throw new UsageError(`Tool inconnu : ${name} (voir « poligraph-mcp tools list »)`);
+
+    const result = (await client.callTool({ name, arguments: parseToolArgs(tool, toolArgv) })) as CallToolResult;
+    if (result.isError) {
+      output.error(textOf(result));
+      return 1;
+    }
+    output.log(json ? JSON.stringify(result.structuredContent ?? null, null, 2) : textOf(result));
+    return 0;
+  } finally {
+    await client.close();
+  }
+}
+
+/**
+ * Run the CLI. Resolves with the exit code once a one-shot command is done,
+ * or with `undefined` when a server was started.
+ */
+export async function runCli(argv: string[], output: Output = console): Promise<number | undefined> {
+  const { configArgs, command, rest } = splitCommand(argv);
+  if (configArgs.includes("--help") || configArgs.includes("-h") || command === "help") {
+    output.log(USAGE);
+    return 0;
+  }
+
+  try {
+    switch (command ?? "serve") {
+      case "serve":
+        return await serve(configArgs, rest);
+      case "tools":
+        return await listTools(configArgs, rest, output);
+      case "call":
+        return await callTool(configArgs, rest, output);
+      default:
+        throw new UsageError(`Commande inconnue : ${command}`);
+    }
+  } catch (e) {
+    if (e instanceof UsageError) {
+      output.error(`${e.message}\n\n${USAGE}`);
+      return 2;
+    }
+    if (e instanceof ConfigError) {
+      output.error(e.message);
+      return 2;
+    }
+    throw e;
+  }
+}
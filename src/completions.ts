@@ -0,0 +1,86 @@
+/**
+ * Argument completion for prompts and resource templates.
+ *
+ * Politicians and parties are looked up through the search endpoints as the
+ * user types; elections and departments are filtered from their full lists,
+ * which the API client caches. Completion is best effort: API failures yield
+ * no values rather than an error.
+ */
+
+import { fetchAPI } from "./api.js";
+import {
+  DepartmentStatsResponseSchema,
+  ElectionListResponseSchema,
+  PartyListResponseSchema,
+  PoliticianListResponseSchema,
+} from "./schemas.js";
+import { normalize } from "./suggestions.js";
+
+const MAX_COMPLETIONS = 20;
+
+/** Minimum input length before querying the search endpoints. */
+const MIN_SEARCH_LENGTH = 2;
+
+/** Values containing the typed text, those starting with it first. */
+function filterValues(value: string, candidates: string[]): string[] {
+  const wanted = normalize(value);
+  const starts: string[] = [];
+  const contains: string[] = [];
+  for (const candidate of new Set(candidates)) {
+    const text = normalize(candidate);
+    if (text.startsWith(wanted)) starts.push(candidate);
+    else if (text.includes(wanted)) contains.push(candidate);
+  }
+  return [...starts, ...contains].slice(0, MAX_COMPLETIONS);
+}
+
+async function bestEffort(lookup: () => Promise<string[]>): Promise<string[]> {
+  try {
+    return await lookup();
+  } catch {
+    return [];
+  }
+}
+
+export function completePoliticianSlugs(value: string): Promise<string[]> {
+  if (value.trim().length < MIN_SEARCH_LENGTH) return Promise.resolve([]);
+  return bestEffort(async () => {
+    const data = await fetchAPI("/api/politiques", PoliticianListResponseSchema, {
+      search: value.trim().replace(/-/g, " "),
+      limit: MAX_COMPLETIONS,
+    });
+    return data.data.map((p) => p.slug);
+  });
+}
+
+async function searchParties(value: string) {
+  const data = await fetchAPI("/api/partis", PartyListResponseSchema, {
+    search: value.trim(),
+    limit: MAX_COMPLETIONS,
+  });
+  return data.data;
+}
+
+export function completePartySlugs(value: string): Promise<string[]> {
+  if (value.trim().length < MIN_SEARCH_LENGTH) return Promise.resolve([]);
+  return bestEffort(async () => (await searchParties(value)).map((p) => p.slug));
+}
+
+export function completePartyShortNames(value: string): Promise<string[]> {
+  if (value.trim().length < MIN_SEARCH_LENGTH) return Promise.resolve([]);
+  return bestEffort(async () => (await searchParties(value)).map((p) => p.shortName));
+}
+
+export function completeElectionSlugs(value: string): Promise<string[]> {
+  return bestEffort(async () => {
+    const data = await fetchAPI("/api/elections", ElectionListResponseSchema, { limit: 100 });
+    return filterValues(value, data.data.map((e) => e.slug));
+  });
+}
+
+export function completeDepartments(value: string): Promise<string[]> {
+  return bestEffort(async () => {
+    const data = await fetchAPI("/api/stats/departments", DepartmentStatsResponseSchema);
+    return filterValues(value, data.departments.map((d) => d.name));
+  });
+}
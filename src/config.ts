@@ -0,0 +1,210 @@
+/**
+ * Server configuration: tool groups, tool limits, API base URL, cache, language.
+ *
+ * Read from `poligraph-mcp.config.json` (in the working directory, or the
+ * path given by `--config` / `POLIGRAPH_CONFIG`), then overridden by
+ * environment variables, then by command-line options. The merged result is
+ * validated with zod; any mistake raises a `ConfigError` naming the field.
+ *
+ * Entry points call `initConfig` once at startup; the rest of the code reads
+ * the active configuration with `getConfig`, which falls back to the file and
+ * environment alone (tests, Vercel).
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+
+export const CONFIG_FILE = "poligraph-mcp.config.json";
+
+/** Tool groups, one per `register*Tools` function (see server.ts). */
+export const TOOL_GROUPS = [
+  "politicians",
+  "affairs",
+  "votes",
+  "legislation",
+  "factchecks",
+  "parties",
+  "elections",
+  "mandates",
+  "departments",
+] as const;
+
+export type ToolGroup = (typeof TOOL_GROUPS)[number];
+
+/** Whether a tool is exposed once `groups` and `disabled` are applied (see server.ts). */
+export type ToolFilter = (name: string) => boolean;
+
+/** Output languages (see i18n.ts). */
+export const LANGUAGES = ["fr", "en", "bilingual"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+const ConfigSchema = z
+  .object({
+    baseUrl: z.string().url().default("https://poligraph.fr"),
+    /** Default language of the tool output; each call can override it with `lang`. */
+    language: z.enum(LANGUAGES).default("fr"),
+    tools: z
+      .object({
+        /** Enabled groups. */
+        groups: z.array(z.enum(TOOL_GROUPS)).default([...TOOL_GROUPS]),
+        /** Groups or individual tools to leave out. */
+        disabled: z.array(z.string()).default([]),
+        /** Default `limit` argument per tool name. */
+        limits: z.record(z.string(), z.number().int().min(1)).default({}),
+      })
+      .strict()
+      .default({}),
+    cache: z
+      .object({
+        enabled: z.boolean().default(true),
+        maxEntries: z.number().int().min(1).default(500),
+        maxBytes: z.number().int().min(1).default(50 * 1024 * 1024),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+export type ServerConfig = z.infer<typeof ConfigSchema>;
+export type ToolsConfig = ServerConfig["tools"];
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigError";
+  }
+}
+
+type Layer = Record<string, unknown>;
+
+function isObject(value: unknown): value is Layer {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Merge `override` into `base`: objects are merged key by key, anything else is replaced. */
+function merge(base: Layer, override: Layer): Layer {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    merged[key] = isObject(value) && isObject(base[key]) ? merge(base[key], value) : value;
+  }
+  return merged;
+}
+
+function list(value: string | undefined): string[] | undefined {
+  return value?.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+function number(value: string | undefined): number | undefined {
+  return value === undefined || value === "" ? undefined : Number(value);
+}
+
+/** Parse "tool=n" pairs into a limits record. */
+function limits(pairs: string[] | undefined, source: string): Record<string, number> | undefined {
+  if (!pairs) return undefined;
+  const result: Record<string, number> = {};
+  for (const pair of pairs) {
+    const [tool, value] = pair.split("=");
+    if (!tool || value === undefined) {
+      throw new ConfigError(`${source} : « ${pair} » n'est pas de la forme tool=nombre`);
+    }
+    result[tool.trim()] = Number(value);
+  }
+  return result;
+}
+
+function readConfigFile(path: string): Layer {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (e) {
+    throw new ConfigError(`${path} : ${(e as Error).message}`);
+  }
+  if (!isObject(raw)) throw new ConfigError(`${path} : un objet JSON est attendu`);
+  return raw;
+}
+
+function envLayer(env: NodeJS.ProcessEnv): Layer {
+  return {
+    baseUrl: env.POLIGRAPH_BASE_URL || undefined,
+    language: env.POLIGRAPH_LANG || undefined,
+    tools: {
+      groups: list(env.POLIGRAPH_TOOL_GROUPS),
+      disabled: list(env.POLIGRAPH_DISABLED_TOOLS),
+      limits: limits(list(env.POLIGRAPH_TOOL_LIMITS), "POLIGRAPH_TOOL_LIMITS"),
+    },
+    cache: {
+      enabled: env.POLIGRAPH_CACHE ? env.POLIGRAPH_CACHE !== "off" : undefined,
+      maxEntries: number(env.POLIGRAPH_CACHE_MAX_ENTRIES),
+      maxBytes: number(env.POLIGRAPH_CACHE_MAX_BYTES),
+    },
+  };
+}
+
+/** Command-line options read by `loadConfig` (see cli.ts for where they go). */
+export const CONFIG_OPTIONS = {
+  config: { type: "string" },
+  "base-url": { type: "string" },
+  lang: { type: "string" },
+  groups: { type: "string" },
+  disable: { type: "string", multiple: true },
+  limit: { type: "string", multiple: true },
+  "no-cache": { type: "boolean" },
+} as const;
+
+function parseCli(argv: string[]) {
+  try {
+    return parseArgs({ args: argv, options: CONFIG_OPTIONS, strict: true, allowPositionals: false }).values;
+  } catch (e) {
+    throw new ConfigError((e as Error).message);
+  }
+}
+
+export interface LoadConfigOptions {
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+  cwd?: string;
+}
+
+/** Build the configuration from the file, the environment and `argv`. Throws a `ConfigError` when invalid. */
+export function loadConfig({ argv = [], env = process.env, cwd = process.cwd() }: LoadConfigOptions = {}): ServerConfig {
+  const cli = parseCli(argv);
+
+  const explicit = cli.config ?? env.POLIGRAPH_CONFIG;
+  const path = resolve(cwd, explicit ?? CONFIG_FILE);
+  if (explicit && !existsSync(path)) throw new ConfigError(`${path} : fichier introuvable`);
+  const file = existsSync(path) ? readConfigFile(path) : {};
+
+  const cliLayer: Layer = {
+    baseUrl: cli["base-url"],
+    language: cli.lang,
+    tools: {
+      groups: list(cli.groups),
+      disabled: cli.disable?.flatMap((d) => list(d) ?? []),
+      limits: limits(cli.limit, "--limit"),
+    },
+    cache: { enabled: cli["no-cache"] ? false : undefined },
+  };
+
+  const result = ConfigSchema.safeParse(merge(merge(file, envLayer(env)), cliLayer));
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `- ${i.path.join(".") || "(racine)"} : ${i.message}`);
+    throw new ConfigError(`Configuration invalide (${CONFIG_FILE}, environnement ou options) :\n${issues.join("\n")}`);
+  }
+  return result.data;
+}
+
+let active: ServerConfig | undefined;
+
+/** Load the configuration from `argv` and make it the active one. */
+export function initConfig(argv: string[] = []): ServerConfig {
+  active = loadConfig({ argv });
+  return active;
+}
+
+export function getConfig(): ServerConfig {
+  return (active ??= loadConfig());
+}
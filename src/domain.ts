@@ -0,0 +1,428 @@
+/**
+ * Domain vocabulary: the enum codes of the Poligraph API and their labels.
+ *
+ * Every code list lives here once: tool inputs build their filters from the
+ * zod enums below and formatters print the labels, in the output language
+ * (see i18n.ts). A mandate type accepted as a filter by one tool is thus
+ * accepted by all of them, and printed the same way everywhere. Codes the
+ * API adds later are printed as-is until they get a label.
+ */
+
+import { z } from "zod";
+import { defineMessages } from "./i18n.js";
+
+export const MANDATE_TYPES = [
+  "DEPUTE",
+  "SENATEUR",
+  "DEPUTE_EUROPEEN",
+  "PRESIDENT_REPUBLIQUE",
+  "PREMIER_MINISTRE",
+  "MINISTRE",
+  "MINISTRE_DELEGUE",
+  "SECRETAIRE_ETAT",
+  "MAIRE",
+  "ADJOINT_MAIRE",
+  "PRESIDENT_REGION",
+  "PRESIDENT_DEPARTEMENT",
+  "CONSEILLER_REGIONAL",
+  "CONSEILLER_DEPARTEMENTAL",
+  "CONSEILLER_MUNICIPAL",
+  "PRESIDENT_PARTI",
+] as const;
+
+export const AFFAIR_STATUSES = [
+  "ENQUETE_PRELIMINAIRE",
+  "MISE_EN_EXAMEN",
+  "PROCES_EN_COURS",
+  "CONDAMNATION_PREMIERE_INSTANCE",
+  "CONDAMNATION_DEFINITIVE",
+  "APPEL_EN_COURS",
+  "RELAXE",
+  "NON_LIEU",
+  "PRESCRIPTION",
+] as const;
+
+export const AFFAIR_CATEGORIES = [
+  "CORRUPTION",
+  "FRAUDE_FISCALE",
+  "BLANCHIMENT",
+  "TRAFIC_INFLUENCE",
+  "PRISE_ILLEGALE_INTERET",
+  "VIOLENCE",
+  "HARCELEMENT_SEXUEL",
+  "AGRESSION_SEXUELLE",
+  "VIOL",
+  "DIFFAMATION",
+  "ABUS_BIENS_SOCIAUX",
+  "DETOURNEMENT_FONDS",
+  "EMPLOI_FICTIF",
+  "FINANCEMENT_ILLEGAL",
+  "HARCELEMENT_MORAL",
+  "MENACE",
+  "OUTRAGE",
+  "RECEL",
+] as const;
+
+/** Proceedings still under way: the person concerned is presumed innocent. */
+export const PENDING_AFFAIR_STATUSES = [
+  "ENQUETE_PRELIMINAIRE",
+  "MISE_EN_EXAMEN",
+  "PROCES_EN_COURS",
+  "APPEL_EN_COURS",
+] as const satisfies readonly AffairStatus[];
+
+/** Fact-check ratings. */
+export const VERDICTS = [
+  "TRUE",
+  "MOSTLY_TRUE",
+  "HALF_TRUE",
+  "MISLEADING",
+  "OUT_OF_CONTEXT",
+  "MOSTLY_FALSE",
+  "FALSE",
+  "UNVERIFIABLE",
+] as const;
+
+/** Positions of parties on the political spectrum. */
+export const POLITICAL_POSITIONS = ["FAR_LEFT", "LEFT", "CENTER_LEFT", "CENTER", "CENTER_RIGHT", "RIGHT", "FAR_RIGHT"] as const;
+
+/** Positions of a member in a parliamentary vote. */
+export const VOTE_POSITIONS = ["POUR", "CONTRE", "ABSTENTION", "NON_VOTANT", "ABSENT"] as const;
+
+export const VOTE_RESULTS = ["ADOPTED", "REJECTED"] as const;
+
+export const ELECTION_TYPES = [
+  "PRESIDENTIELLE",
+  "LEGISLATIVES",
+  "SENATORIALES",
+  "MUNICIPALES",
+  "DEPARTEMENTALES",
+  "REGIONALES",
+  "EUROPEENNES",
+  "REFERENDUM",
+] as const;
+
+export const ELECTION_STATUSES = [
+  "UPCOMING",
+  "REGISTRATION",
+  "CANDIDACIES",
+  "CAMPAIGN",
+  "ROUND_1",
+  "BETWEEN_ROUNDS",
+  "ROUND_2",
+  "COMPLETED",
+] as const;
+
+/** Kinds of links between politicians (get_politician_relations). */
+export const RELATION_TYPES = ["SAME_GOVERNMENT", "SHARED_COMPANY", "SAME_DEPARTMENT", "PARTY_HISTORY"] as const;
+
+export type MandateType = (typeof MANDATE_TYPES)[number];
+export type AffairStatus = (typeof AFFAIR_STATUSES)[number];
+export type AffairCategory = (typeof AFFAIR_CATEGORIES)[number];
+export type Verdict = (typeof VERDICTS)[number];
+export type PoliticalPosition = (typeof POLITICAL_POSITIONS)[number];
+export type VotePosition = (typeof VOTE_POSITIONS)[number];
+export type VoteResult = (typeof VOTE_RESULTS)[number];
+export type ElectionType = (typeof ELECTION_TYPES)[number];
+export type ElectionStatus = (typeof ELECTION_STATUSES)[number];
+export type RelationType = (typeof RELATION_TYPES)[number];
+
+/**
+ * Mandate codes of earlier versions of the tools, still accepted as input
+ * and printed like the code they stand for.
+ */
+const MANDATE_TYPE_ALIASES = { PRESIDENT: "PRESIDENT_REPUBLIQUE" } as const satisfies Record<string, MandateType>;
+
+type MandateTypeAlias = keyof typeof MANDATE_TYPE_ALIASES;
+
+function canonicalMandateType(type: string): string {
+  return Object.hasOwn(MANDATE_TYPE_ALIASES, type) ? MANDATE_TYPE_ALIASES[type as MandateTypeAlias] : type;
+}
+
+// ─── Input schemas ─────────────────────────────────────────────
+
+export const MandateTypeSchema = z
+  .enum([...MANDATE_TYPES, ...(Object.keys(MANDATE_TYPE_ALIASES) as MandateTypeAlias[])])
+  .transform((type) => canonicalMandateType(type) as MandateType);
+export const AffairStatusSchema = z.enum(AFFAIR_STATUSES);
+export const AffairCategorySchema = z.enum(AFFAIR_CATEGORIES);
+export const VerdictSchema = z.enum(VERDICTS);
+export const PoliticalPositionSchema = z.enum(POLITICAL_POSITIONS);
+export const VoteResultSchema = z.enum(VOTE_RESULTS);
+export const ElectionTypeSchema = z.enum(ELECTION_TYPES);
+export const ElectionStatusSchema = z.enum(ELECTION_STATUSES);
+
+// ─── Labels ────────────────────────────────────────────────────
+
+type Labels = {
+  mandateType: Record<MandateType, string>;
+  affairStatus: Record<AffairStatus, string>;
+  affairCategory: Record<AffairCategory, string>;
+  verdict: Record<Verdict, string>;
+  politicalPosition: Record<PoliticalPosition, string>;
+  unclassified: string;
+  votePosition: Record<VotePosition, string>;
+  voteResult: Record<VoteResult, string>;
+  electionType: Record<ElectionType, string>;
+  electionStatus: Record<ElectionStatus, string>;
+  relationType: Record<RelationType, string>;
+};
+
+const labels = defineMessages<Labels>(
+  {
+    mandateType: {
+      DEPUTE: "Député(e)",
+      SENATEUR: "Sénateur/trice",
+      DEPUTE_EUROPEEN: "Député(e) européen(ne)",
+      PRESIDENT_REPUBLIQUE: "Président(e) de la République",
+      PREMIER_MINISTRE: "Premier(e) ministre",
+      MINISTRE: "Ministre",
+      MINISTRE_DELEGUE: "Ministre délégué(e)",
+      SECRETAIRE_ETAT: "Secrétaire d'État",
+      MAIRE: "Maire",
+      ADJOINT_MAIRE: "Adjoint(e) au maire",
+      PRESIDENT_REGION: "Président(e) de région",
+      PRESIDENT_DEPARTEMENT: "Président(e) de département",
+      CONSEILLER_REGIONAL: "Conseiller/ère régional(e)",
+      CONSEILLER_DEPARTEMENTAL: "Conseiller/ère départemental(e)",
+      CONSEILLER_MUNICIPAL: "Conseiller/ère municipal(e)",
+      PRESIDENT_PARTI: "Président(e) de parti",
+    },
+    affairStatus: {
+      ENQUETE_PRELIMINAIRE: "Enquête préliminaire",
+      MISE_EN_EXAMEN: "Mise en examen",
+      PROCES_EN_COURS: "Procès en cours",
+      CONDAMNATION_PREMIERE_INSTANCE: "Condamnation (1ère instance)",
+      CONDAMNATION_DEFINITIVE: "Condamnation définitive",
+      APPEL_EN_COURS: "Appel en cours",
+      RELAXE: "Relaxe",
+      NON_LIEU: "Non-lieu",
+      PRESCRIPTION: "Prescription",
+    },
+    affairCategory: {
+      CORRUPTION: "Corruption",
+      FRAUDE_FISCALE: "Fraude fiscale",
+      BLANCHIMENT: "Blanchiment",
+      TRAFIC_INFLUENCE: "Trafic d'influence",
+      PRISE_ILLEGALE_INTERET: "Prise illégale d'intérêts",
+      VIOLENCE: "Violence",
+      HARCELEMENT_SEXUEL: "Harcèlement sexuel",
+      AGRESSION_SEXUELLE: "Agression sexuelle",
+      VIOL: "Viol",
+      DIFFAMATION: "Diffamation",
+      ABUS_BIENS_SOCIAUX: "Abus de biens sociaux",
+      DETOURNEMENT_FONDS: "Détournement de fonds",
+      EMPLOI_FICTIF: "Emploi fictif",
+      FINANCEMENT_ILLEGAL: "Financement illégal",
+      HARCELEMENT_MORAL: "Harcèlement moral",
+      MENACE: "Menace",
+      OUTRAGE: "Outrage",
+      RECEL: "Recel",
+    },
+    verdict: {
+      TRUE: "Vrai",
+      MOSTLY_TRUE: "Plutôt vrai",
+      HALF_TRUE: "À moitié vrai",
+      MISLEADING: "Trompeur",
+      OUT_OF_CONTEXT: "Hors contexte",
+      MOSTLY_FALSE: "Plutôt faux",
+      FALSE: "Faux",
+      UNVERIFIABLE: "Invérifiable",
+    },
+    politicalPosition: {
+      FAR_LEFT: "Extrême gauche",
+      LEFT: "Gauche",
+      CENTER_LEFT: "Centre-gauche",
+      CENTER: "Centre",
+      CENTER_RIGHT: "Centre-droit",
+      RIGHT: "Droite",
+      FAR_RIGHT: "Extrême droite",
+    },
+    unclassified: "Non classé",
+    votePosition: {
+      POUR: "Pour",
+      CONTRE: "Contre",
+      ABSTENTION: "Abstention",
+      NON_VOTANT: "Non votant",
+      ABSENT: "Absent",
+    },
+    voteResult: { ADOPTED: "Adopté", REJECTED: "Rejeté" },
+    electionType: {
+      PRESIDENTIELLE: "Présidentielle",
+      LEGISLATIVES: "Législatives",
+      SENATORIALES: "Sénatoriales",
+      MUNICIPALES: "Municipales",
+      DEPARTEMENTALES: "Départementales",
+      REGIONALES: "Régionales",
+      EUROPEENNES: "Européennes",
+      REFERENDUM: "Référendum",
+    },
+    electionStatus: {
+      UPCOMING: "À venir",
+      REGISTRATION: "Inscriptions ouvertes",
+      CANDIDACIES: "Dépôt des candidatures",
+      CAMPAIGN: "Campagne en cours",
+      ROUND_1: "1er tour",
+      BETWEEN_ROUNDS: "Entre-deux-tours",
+      ROUND_2: "2nd tour",
+      COMPLETED: "Terminée",
+    },
+    relationType: {
+      SAME_GOVERNMENT: "Même gouvernement",
+      SHARED_COMPANY: "Entreprises en commun",
+      SAME_DEPARTMENT: "Même département",
+      PARTY_HISTORY: "Anciens collègues de parti",
+    },
+  },
+  {
+    mandateType: {
+      DEPUTE: "Member of the National Assembly",
+      SENATEUR: "Senator",
+      DEPUTE_EUROPEEN: "Member of the European Parliament",
+      PRESIDENT_REPUBLIQUE: "President of the Republic",
+      PREMIER_MINISTRE: "Prime Minister",
+      MINISTRE: "Minister",
+      MINISTRE_DELEGUE: "Minister delegate",
+      SECRETAIRE_ETAT: "Secretary of State",
+      MAIRE: "Mayor",
+      ADJOINT_MAIRE: "Deputy mayor",
+      PRESIDENT_REGION: "President of a regional council",
+      PRESIDENT_DEPARTEMENT: "President of a departmental council",
+      CONSEILLER_REGIONAL: "Regional councillor",
+      CONSEILLER_DEPARTEMENTAL: "Departmental councillor",
+      CONSEILLER_MUNICIPAL: "Municipal councillor",
+      PRESIDENT_PARTI: "Party leader",
+    },
+    affairStatus: {
+      ENQUETE_PRELIMINAIRE: "Preliminary investigation",
+      MISE_EN_EXAMEN: "Formally charged (mise en examen)",
+      PROCES_EN_COURS: "Trial in progress",
+      CONDAMNATION_PREMIERE_INSTANCE: "Convicted (first instance)",
+      CONDAMNATION_DEFINITIVE: "Final conviction",
+      APPEL_EN_COURS: "Appeal pending",
+      RELAXE: "Acquitted",
+      NON_LIEU: "Case dismissed",
+      PRESCRIPTION: "Time-barred",
+    },
+    affairCategory: {
+      CORRUPTION: "Corruption",
+      FRAUDE_FISCALE: "Tax fraud",
+      BLANCHIMENT: "Money laundering",
+      TRAFIC_INFLUENCE: "Influence peddling",
+      PRISE_ILLEGALE_INTERET: "Unlawful conflict of interest",
+      VIOLENCE: "Violence",
+      HARCELEMENT_SEXUEL: "Sexual harassment",
+      AGRESSION_SEXUELLE: "Sexual assault",
+      VIOL: "Rape",
+      DIFFAMATION: "Defamation",
+      ABUS_BIENS_SOCIAUX: "Misuse of corporate assets",
+      DETOURNEMENT_FONDS: "Embezzlement",
+      EMPLOI_FICTIF: "Fictitious employment",
+      FINANCEMENT_ILLEGAL: "Illegal funding",
+      HARCELEMENT_MORAL: "Workplace harassment",
+      MENACE: "Threats",
+      OUTRAGE: "Contempt of a public official",
+      RECEL: "Handling proceeds of crime",
+    },
+    verdict: {
+      TRUE: "True",
+      MOSTLY_TRUE: "Mostly true",
+      HALF_TRUE: "Half true",
+      MISLEADING: "Misleading",
+      OUT_OF_CONTEXT: "Out of context",
+      MOSTLY_FALSE: "Mostly false",
+      FALSE: "False",
+      UNVERIFIABLE: "Unverifiable",
+    },
+    politicalPosition: {
+      FAR_LEFT: "Far left",
+      LEFT: "Left",
+      CENTER_LEFT: "Centre-left",
+      CENTER: "Centre",
+      CENTER_RIGHT: "Centre-right",
+      RIGHT: "Right",
+      FAR_RIGHT: "Far right",
+    },
+    unclassified: "Unclassified",
+    votePosition: {
+      POUR: "For",
+      CONTRE: "Against",
+      ABSTENTION: "Abstention",
+      NON_VOTANT: "Non-voting",
+      ABSENT: "Absent",
+    },
+    voteResult: { ADOPTED: "Adopted", REJECTED: "Rejected" },
+    electionType: {
+      PRESIDENTIELLE: "Presidential",
+      LEGISLATIVES: "Legislative",
+      SENATORIALES: "Senatorial",
+      MUNICIPALES: "Municipal",
+      DEPARTEMENTALES: "Departmental",
+      REGIONALES: "Regional",
+      EUROPEENNES: "European",
+      REFERENDUM: "Referendum",
+    },
+    electionStatus: {
+      UPCOMING: "Upcoming",
+      REGISTRATION: "Voter registration open",
+      CANDIDACIES: "Candidacies open",
+      CAMPAIGN: "Campaign under way",
+      ROUND_1: "First round",
+      BETWEEN_ROUNDS: "Between rounds",
+      ROUND_2: "Second round",
+      COMPLETED: "Completed",
+    },
+    relationType: {
+      SAME_GOVERNMENT: "Same government",
+      SHARED_COMPANY: "Shared companies",
+      SAME_DEPARTMENT: "Same department",
+      PARTY_HISTORY: "Former party colleagues",
+    },
+  },
+);
+
+/** Label of `code` in `table`, or the code itself when it has none. */
+function label(table: Record<string, string>, code: string): string {
+  return Object.hasOwn(table, code) ? table[code] : code;
+}
+
+export function formatMandateType(type: string): string {
+  return label(labels().mandateType, canonicalMandateType(type));
+}
+
+export function formatAffairStatus(status: string): string {
+  return label(labels().affairStatus, status);
+}
+
+export function formatAffairCategory(category: string): string {
+  return label(labels().affairCategory, category);
+}
+
+export function formatVerdict(rating: string): string {
+  return label(labels().verdict, rating);
+}
+
+/** Label of a party's position, "Non classé" when it has none. */
+export function formatPoliticalPosition(position: string | null): string {
+  return position ? label(labels().politicalPosition, position) : labels().unclassified;
+}
+
+export function formatVotePosition(position: string): string {
+  return label(labels().votePosition, position);
+}
+
+export function formatVoteResult(result: string): string {
+  return label(labels().voteResult, result);
+}
+
+export function formatElectionType(type: string): string {
+  return label(labels().electionType, type);
+}
+
+export function formatElectionStatus(status: string): string {
+  return label(labels().electionStatus, status);
+}
+
+export function formatRelationType(type: string): string {
+  return label(labels().relationType, type);
+}
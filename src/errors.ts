@@ -0,0 +1,240 @@
+/**
+ * Map API client errors to MCP tool results.
+ *
+ * Tool handlers are wrapped with `withToolErrors`: an `ApiError` becomes an
+ * `isError: true` result with a message in the output language (see i18n.ts)
+ * and a structured error code in `_meta`, so the model can explain the failure
+ * or recover on its own. On 404s, an optional `suggest` callback proposes
+ * close matches (see suggestions.ts).
+ * An `AmbiguousNameError` becomes an `AMBIGUOUS` result listing the candidates,
+ * an `InvalidCursorError` an `INVALID_CURSOR` or `STALE_CURSOR` result.
+ * Resource reads have no error result, so `withResourceErrors` raises the same
+ * message as a JSON-RPC error instead. Both run the handler in the request's
+ * context (see progress.ts), so API calls honor cancellation.
+ */
+
+import { ErrorCode, McpError, type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ApiError, ClientRateLimitError } from "./api.js";
+import { defineMessages } from "./i18n.js";
+import { runWithRequest } from "./progress.js";
+
+export type ToolErrorCode =
+  | "NOT_FOUND"
+  | "AMBIGUOUS"
+  | "INVALID_CURSOR"
+  | "STALE_CURSOR"
+  | "INVALID_REQUEST"
+  | "RATE_LIMITED"
+  | "UPSTREAM_UNAVAILABLE"
+  | "UPSTREAM_TIMEOUT"
+  | "UPSTREAM_UNREACHABLE"
+  | "UPSTREAM_ERROR";
+
+/** `_meta` key holding the structured error of an `isError` result. */
+export const ERROR_META_KEY = "poligraph/error";
+
+export interface Suggestion {
+  slug: string;
+  label: string;
+}
+
+/** Thrown when a free-form name matches several entities (see resolver.ts). */
+export class AmbiguousNameError extends Error {
+  constructor(
+    public query: string,
+    public candidates: Suggestion[],
+  ) {
+    super(`Ambiguous name: ${query}`);
+    this.name = "AmbiguousNameError";
+  }
+}
+
+export type CursorErrorCode = "INVALID_CURSOR" | "STALE_CURSOR";
+
+/** Thrown when a pagination cursor is malformed, belongs to another tool or is out of date (see pagination.ts). */
+export class InvalidCursorError extends Error {
+  constructor(
+    public code: CursorErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "InvalidCursorError";
+  }
+}
+
+type ApiErrorCode = Exclude<ToolErrorCode, "AMBIGUOUS" | CursorErrorCode>;
+
+export function errorCode(status: number): ApiErrorCode {
+  if (status === 404) return "NOT_FOUND";
+  if (status === 429) return "RATE_LIMITED";
+  if (status === 503) return "UPSTREAM_UNAVAILABLE";
+  if (status === 504) return "UPSTREAM_TIMEOUT";
+  if (status === 502) return "UPSTREAM_UNREACHABLE";
+  if (status >= 400 && status < 500) return "INVALID_REQUEST";
+  return "UPSTREAM_ERROR";
+}
+
+const messages = defineMessages(
+  {
+    notFound: "Aucun résultat : l'identifiant demandé n'existe pas sur Poligraph.",
+    invalidRequest: (status: number) => `Requête refusée par Poligraph (${status}). Vérifiez les paramètres de l'outil.`,
+    clientRateLimited: (seconds: number) =>
+      `Limite de pages par minute atteinte pour ce client. Réessayez dans ${seconds} s ou réduisez la pagination.`,
+    rateLimited: (seconds: number | null) => `Trop de requêtes envoyées à Poligraph. Réessayez ${seconds ? `dans ${seconds} s` : "plus tard"}.`,
+    unavailable: (seconds: number | null) =>
+      `Poligraph est momentanément indisponible. Réessayez ${seconds ? `dans ${seconds} s` : "dans quelques instants"}.`,
+    timeout: "Poligraph n'a pas répondu à temps. Réessayez dans quelques instants.",
+    unreachable: "Poligraph est injoignable ou a renvoyé une réponse inattendue.",
+    upstream: (status: number) => `Erreur du serveur Poligraph (${status}). Réessayez dans quelques instants.`,
+    candidates: "Correspondances possibles :",
+    didYouMean: "Vouliez-vous dire :",
+    retry: "Relancez l'outil avec l'un de ces identifiants.",
+    ambiguous: (query: string) => `Plusieurs politiciens correspondent à « ${query} ».`,
+    staleCursor: "Ce curseur a expiré ou la liste a changé depuis la première page. Relancez la recherche sans `cursor`.",
+    invalidCursor: "Curseur invalide : passez la valeur `nextCursor` renvoyée par ce même tool, sans la modifier.",
+  },
+  {
+    notFound: "No result: the requested identifier does not exist on Poligraph.",
+    invalidRequest: (status: number) => `Request rejected by Poligraph (${status}). Check the tool arguments.`,
+    clientRateLimited: (seconds: number) =>
+      `Pages-per-minute limit reached for this client. Try again in ${seconds} s or paginate less.`,
+    rateLimited: (seconds: number | null) => `Too many requests sent to Poligraph. Try again ${seconds ? `in ${seconds} s` : "later"}.`,
+    unavailable: (seconds: number | null) =>
+      `Poligraph is temporarily unavailable. Try again ${seconds ? `in ${seconds} s` : "in a few moments"}.`,
+    timeout: "Poligraph did not answer in time. Try again in a few moments.",
+    unreachable: "Poligraph is unreachable or sent an unexpected response.",
+    upstream: (status: number) => `Poligraph server error (${status}). Try again in a few moments.`,
+    candidates: "Possible matches:",
+    didYouMean: "Did you mean:",
+    retry: "Call the tool again with one of these identifiers.",
+    ambiguous: (query: string) => `Several politicians match “${query}”.`,
+    staleCursor: "This cursor has expired or the list has changed since the first page. Search again without `cursor`.",
+    invalidCursor: "Invalid cursor: pass the `nextCursor` value returned by this same tool, unchanged.",
+  },
+);
+
+function describeError(error: ApiError, code: ApiErrorCode): string {
+  const t = messages();
+  const retryAfter = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+  switch (code) {
+    case "NOT_FOUND":
+      return t.notFound;
+    case "INVALID_REQUEST":
+      return t.invalidRequest(error.status);
+    case "RATE_LIMITED":
+      if (error instanceof ClientRateLimitError) {
+        return t.clientRateLimited(retryAfter ?? 0);
+      }
+      return t.rateLimited(retryAfter);
+    case "UPSTREAM_UNAVAILABLE":
+      return t.unavailable(retryAfter);
+    case "UPSTREAM_TIMEOUT":
+      return t.timeout;
+    case "UPSTREAM_UNREACHABLE":
+      return t.unreachable;
+    case "UPSTREAM_ERROR":
+      return t.upstream(error.status);
+  }
+}
+
+function errorResult(
+  code: ToolErrorCode,
+  status: number | null,
+  text: string,
+  message: string,
+  suggestions: Suggestion[],
+): CallToolResult {
+  const t = messages();
+  const lines = [text];
+
+  if (suggestions.length > 0) {
+    lines.push("");
+    lines.push(`**${code === "AMBIGUOUS" ? t.candidates : t.didYouMean}**`);
+    for (const s of suggestions) {
+      lines.push(`- \`${s.slug}\` — ${s.label}`);
+    }
+    lines.push("");
+    lines.push(t.retry);
+  }
+
+  return {
+    isError: true,
+    content: [{ type: "text" as const, text: lines.join("\n") }],
+    // Not in structuredContent: clients validate it against the tool's outputSchema
+    _meta: {
+      [ERROR_META_KEY]: { code, status, message, suggestions },
+    },
+  };
+}
+
+export function toolError(error: ApiError, suggestions: Suggestion[] = []): CallToolResult {
+  const code = errorCode(error.status);
+  return errorResult(code, error.status, describeError(error, code), error.message, suggestions);
+}
+
+export function ambiguityError(error: AmbiguousNameError): CallToolResult {
+  return errorResult(
+    "AMBIGUOUS",
+    null,
+    messages().ambiguous(error.query),
+    error.message,
+    error.candidates,
+  );
+}
+
+export function cursorError(error: InvalidCursorError): CallToolResult {
+  const t = messages();
+  const text = error.code === "STALE_CURSOR" ? t.staleCursor : t.invalidCursor;
+  return errorResult(error.code, null, text, error.message, []);
+}
+
+/**
+ * Wrap a tool handler so that API errors are returned as tool errors.
+ * `suggest` runs on 404s with the same arguments; its own failures are ignored.
+ */
+export function withToolErrors<Args, Extra, R>(
+  handler: (args: Args, extra: Extra) => Promise<R>,
+  suggest?: (args: NoInfer<Args>) => Promise<Suggestion[]>,
+): (args: Args, extra: Extra) => Promise<R | CallToolResult> {
+  return (args, extra) =>
+    runWithRequest(extra, async () => {
+      try {
+        return await handler(args, extra);
+      } catch (e) {
+        if (e instanceof AmbiguousNameError) return ambiguityError(e);
+        if (e instanceof InvalidCursorError) return cursorError(e);
+        if (!(e instanceof ApiError)) throw e;
+
+        let suggestions: Suggestion[] = [];
+        if (e.status === 404 && suggest) {
+          suggestions = await suggest(args).catch(() => []);
+        }
+        return toolError(e, suggestions);
+      }
+    });
+}
+
+/** JSON-RPC code for unknown resources, as recommended by the MCP specification. */
+const RESOURCE_NOT_FOUND = -32002;
+
+/** Wrap a resource callback so that API errors are raised as JSON-RPC errors. */
+export function withResourceErrors<Args extends unknown[], R>(
+  read: (...args: Args) => Promise<R>,
+): (...args: Args) => Promise<R> {
+  // The SDK passes the request extra last
+  return (...args) =>
+    runWithRequest(args[args.length - 1], async () => {
+      try {
+        return await read(...args);
+      } catch (e) {
+        if (!(e instanceof ApiError)) throw e;
+
+        const code = errorCode(e.status);
+        throw new McpError(
+          code === "NOT_FOUND" ? RESOURCE_NOT_FOUND : ErrorCode.InternalError,
+          describeError(e, code),
+          { code, status: e.status },
+        );
+      }
+    });
+}
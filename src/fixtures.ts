@@ -0,0 +1,56 @@
+/**
+ * Record/replay backend for the API client.
+ *
+ * In record mode, every /api/... response (2xx and client errors) is saved
+ * as JSON under the fixtures directory. In replay mode, responses are served
+ * from those files and the network is never touched.
+ *
+ * Layout: the URL path maps to directories, the sorted query string to the
+ * file name, e.g. /api/politiques?search=Macron&limit=5 is stored as
+ * <dir>/api/politiques/limit=5&search=Macron.json and /api/partis/renaissance
+ * as <dir>/api/partis/renaissance/index.json.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+export type FixturesMode = "off" | "record" | "replay";
+
+export interface Fixture {
+  /** Path and query string, independent of the base URL. */
+  url: string;
+  status: number;
+  body?: unknown;
+  error?: string;
+}
+
+export function fixturePath(dir: string, url: string): string {
+  const parsed = new URL(url, "http://fixtures.local");
+  const segments = parsed.pathname
+    .split("/")
+    .filter(Boolean)
+    .map((s) => decodeURIComponent(s).replace(/[\\/:*?"<>|]/g, "_"));
+
+  const query = [...parsed.searchParams.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
+    .join("&");
+
+  return join(dir, ...segments, `${query || "index"}.json`);
+}
+
+export async function readFixture(dir: string, url: string): Promise<Fixture | null> {
+  try {
+    const text = await readFile(fixturePath(dir, url), "utf8");
+    return JSON.parse(text) as Fixture;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+export async function writeFixture(dir: string, fixture: Fixture): Promise<void> {
+  const path = fixturePath(dir, fixture.url);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify(fixture, null, 2) + "\n", "utf8");
+}
@@ -0,0 +1,233 @@
+/**
+ * Output formats of the list tools: `markdown` (default), `text`, `csv`, `json`.
+ *
+ * Only the text content changes; `structuredContent` is the same in every
+ * format. `text` is the markdown without emphasis, headings or link syntax,
+ * for screen readers and SMS-style clients. `csv` flattens the items of
+ * `structuredContent`: one column per field of the tool's output schema, in
+ * schema order, nested objects as "Politicien — Nom" and arrays joined with
+ * " | ". Headers and booleans follow the output language (see i18n.ts).
+ * `json` prints `structuredContent` for clients that ignore it. `maxChars`
+ * (see verbosity.ts) only applies to `markdown` and `text`.
+ *
+ * A notice that must always be shown (the presumption of innocence in
+ * list_affairs) is part of the markdown; in CSV it is a leading note line,
+ * in JSON a `notice` field.
+ */
+
+import { z } from "zod";
+import { defineMessages } from "./i18n.js";
+
+export type OutputFormat = "markdown" | "text" | "csv" | "json";
+
+export const formatInputs = {
+  format: z
+    .enum(["markdown", "text", "csv", "json"])
+    .default("markdown")
+    .describe("Format de la réponse texte : markdown, text (sans mise en forme), csv (tableur) ou json"),
+};
+
+// ─── Text ──────────────────────────────────────────────────────
+
+/** Remove markdown syntax, keeping the words and the link targets. */
+export function stripMarkdown(markdown: string): string {
+  return markdown
+    .split("\n")
+    .filter((line) => line.trim() !== "---")
+    .map((line) =>
+      line
+        .replace(/^#+\s+/, "")
+        .replace(/^>\s?/, "")
+        .replace(/\[([^\]]*)\]\(([^)]*)\)/g, "$1 ($2)")
+        .replace(/\*\*(.+?)\*\*/g, "$1")
+        .replace(/`([^`]*)`/g, "$1")
+        .replace(/(^|[\s(])_(\S.*?)_(?=$|[\s.,;:!?)])/g, "$1$2"),
+    )
+    .join("\n");
+}
+
+// ─── CSV ───────────────────────────────────────────────────────
+
+/** Column headers by field name, per language. Unknown fields keep their name. */
+const messages = defineMessages(
+  {
+    headers: {
+      slug: "Identifiant",
+      fullName: "Nom",
+      name: "Nom",
+      shortName: "Sigle",
+      title: "Titre",
+      type: "Type",
+      status: "Statut",
+      category: "Catégorie",
+      url: "URL",
+      party: "Parti",
+      politician: "Politicien",
+      politicians: "Politiciens",
+      birthDate: "Date de naissance",
+      deathDate: "Date de décès",
+      factsDate: "Date des faits",
+      startDate: "Date de début",
+      endDate: "Date de fin",
+      verdictDate: "Date du jugement",
+      sentence: "Peine",
+      sources: "Sources",
+      publisher: "Éditeur",
+      votingDate: "Date du scrutin",
+      legislature: "Législature",
+      result: "Résultat",
+      votesFor: "Pour",
+      votesAgainst: "Contre",
+      votesAbstain: "Abstention",
+      sourceUrl: "URL de la source",
+      claimText: "Déclaration",
+      claimant: "Auteur de la déclaration",
+      verdictRating: "Verdict (code)",
+      verdict: "Verdict",
+      source: "Source",
+      publishedAt: "Date de publication",
+      politicalPosition: "Position politique",
+      memberCount: "Membres",
+      dissolvedDate: "Date de dissolution",
+      round1Date: "Date du 1er tour",
+      round2Date: "Date du 2nd tour",
+      totalSeats: "Sièges",
+      candidacyCount: "Candidatures",
+      institution: "Institution",
+      constituency: "Circonscription",
+      isCurrent: "En cours",
+    } as Record<string, string>,
+    yes: "oui",
+    no: "non",
+  },
+  {
+    headers: {
+      slug: "Identifier",
+      fullName: "Name",
+      name: "Name",
+      shortName: "Abbreviation",
+      title: "Title",
+      type: "Type",
+      status: "Status",
+      category: "Category",
+      url: "URL",
+      party: "Party",
+      politician: "Politician",
+      politicians: "Politicians",
+      birthDate: "Date of birth",
+      deathDate: "Date of death",
+      factsDate: "Date of the facts",
+      startDate: "Start date",
+      endDate: "End date",
+      verdictDate: "Verdict date",
+      sentence: "Sentence",
+      sources: "Sources",
+      publisher: "Publisher",
+      votingDate: "Vote date",
+      legislature: "Legislature",
+      result: "Result",
+      votesFor: "For",
+      votesAgainst: "Against",
+      votesAbstain: "Abstention",
+      sourceUrl: "Source URL",
+      claimText: "Claim",
+      claimant: "Claimant",
+      verdictRating: "Verdict (code)",
+      verdict: "Verdict",
+      source: "Source",
+      publishedAt: "Publication date",
+      politicalPosition: "Political position",
+      memberCount: "Members",
+      dissolvedDate: "Dissolution date",
+      round1Date: "First round date",
+      round2Date: "Second round date",
+      totalSeats: "Seats",
+      candidacyCount: "Candidacies",
+      institution: "Institution",
+      constituency: "Constituency",
+      isCurrent: "Current",
+    },
+    yes: "yes",
+    no: "no",
+  },
+);
+
+interface Column {
+  header: string;
+  path: string[];
+}
+
+function unwrap(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) return unwrap(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrap(schema.removeDefault());
+  return schema;
+}
+
+/** One column per leaf field, in schema order; arrays of objects give one column per element field. */
+function columnsOf(schema: z.ZodTypeAny, path: string[] = [], headers: string[] = []): Column[] {
+  let inner = unwrap(schema);
+  if (inner instanceof z.ZodArray) inner = unwrap(inner.element);
+  if (!(inner instanceof z.ZodObject)) return [{ header: headers.join(" — "), path }];
+
+  const labels = messages().headers;
+  return Object.entries(inner.shape as z.ZodRawShape).flatMap(([key, field]) =>
+    columnsOf(field, [...path, key], [...headers, labels[key] ?? key]),
+  );
+}
+
+/** Values at `path`, walking into arrays: every element contributes its value. */
+function valuesAt(value: unknown, path: string[]): unknown[] {
+  if (Array.isArray(value)) return value.flatMap((v) => valuesAt(v, path));
+  if (path.length === 0) return [value];
+  if (value === null || typeof value !== "object") return [];
+  return valuesAt((value as Record<string, unknown>)[path[0]], path.slice(1));
+}
+
+function cell(values: unknown[]): string {
+  const t = messages();
+  const text = values
+    .filter((v) => v !== null && v !== undefined)
+    .map((v) => (typeof v === "boolean" ? (v ? t.yes : t.no) : String(v)))
+    .join(" | ");
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Flatten `items` into CSV (RFC 4180), with the columns of `itemSchema`. */
+export function toCsv(items: unknown[], itemSchema: z.ZodTypeAny): string {
+  const columns = columnsOf(itemSchema);
+  const rows = [
+    columns.map((c) => cell([c.header])),
+    ...items.map((item) => columns.map((c) => cell(valuesAt(item, c.path)))),
+  ];
+  return rows.map((row) => row.join(",")).join("\r\n");
+}
+
+// ─── Dispatch ──────────────────────────────────────────────────
+
+type ListOutputSchema = z.ZodObject<{ items: z.ZodArray<z.ZodTypeAny> } & z.ZodRawShape>;
+
+/**
+ * Text content of a list tool in the requested format. `notice` is a
+ * markdown line already included in `markdown`, repeated in the formats
+ * built from `structured`.
+ */
+export function renderFormat(
+  format: OutputFormat,
+  markdown: string,
+  structured: { items: unknown[] },
+  schema: ListOutputSchema,
+  notice?: string,
+): string {
+  switch (format) {
+    case "markdown":
+      return markdown;
+    case "text":
+      return stripMarkdown(markdown);
+    case "csv": {
+      const csv = toCsv(structured.items, schema.shape.items.element);
+      return notice ? `${cell([stripMarkdown(notice)])}\r\n${csv}` : csv;
+    }
+    case "json":
+      return JSON.stringify(notice ? { notice: stripMarkdown(notice), ...structured } : structured, null, 2);
+  }
+}
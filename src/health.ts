@@ -0,0 +1,61 @@
+/**
+ * Readiness probe for the HTTP server.
+ *
+ * `/readyz` reports whether poligraph.fr answers. The probe fetches
+ * `/api/politiques?limit=1` (bypassing the response cache) and its result is
+ * kept for `ttlMs`, so frequent probes from the orchestrator do not turn
+ * into upstream traffic. Concurrent checks share one probe.
+ */
+
+import { ApiError, fetchAPI } from "./api.js";
+import { PoliticianListResponseSchema } from "./schemas.js";
+
+export interface Readiness {
+  ready: boolean;
+  /** ISO timestamp of the probe this result comes from. */
+  checkedAt: string;
+  error?: string;
+}
+
+export interface ReadinessOptions {
+  ttlMs: number;
+  /** Time allowed for one probe, retries included. */
+  timeoutMs: number;
+  /** Replaces the upstream fetch (tests). */
+  probe?: (deadline: number) => Promise<void>;
+}
+
+async function probeUpstream(deadline: number): Promise<void> {
+  await fetchAPI("/api/politiques", PoliticianListResponseSchema, { limit: 1 }, { cache: false, deadline });
+}
+
+export class ReadinessProbe {
+  private last: { result: Readiness; at: number } | undefined;
+  private pending: Promise<Readiness> | undefined;
+
+  constructor(private options: ReadinessOptions) {}
+
+  check(now = Date.now()): Promise<Readiness> {
+    if (this.last && now - this.last.at < this.options.ttlMs) {
+      return Promise.resolve(this.last.result);
+    }
+    this.pending ??= this.run(now).finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  private async run(now: number): Promise<Readiness> {
+    const probe = this.options.probe ?? probeUpstream;
+    let result: Readiness;
+    try {
+      await probe(now + this.options.timeoutMs);
+      result = { ready: true, checkedAt: new Date(now).toISOString() };
+    } catch (e) {
+      const error = e instanceof ApiError ? `upstream ${e.status}` : (e as Error).message;
+      result = { ready: false, checkedAt: new Date(now).toISOString(), error };
+    }
+    this.last = { result, at: now };
+    return result;
+  }
+}
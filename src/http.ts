@@ -1,25 +1,101 @@
+import { fileURLToPath } from "node:url";
+import type { Server } from "node:http";
 import express from "express";
 import cors from "cors";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { createServer } from "./server.js";
+import { createServer, toolFilter } from "./server.js";
+import { SessionStore } from "./sessions.js";
+import { ApiKeyAuth, authorizeRequest, loadApiKeys } from "./auth.js";
+import { RequestLogger, loadLoggerOptions } from "./logging.js";
+import { Metrics } from "./metrics.js";
+import { ReadinessProbe } from "./health.js";
+import { initTracing, instrumentTransport, withIncomingContext } from "./tracing.js";
+import { RateLimiter, admitRequest, clientId, loadRateLimitOptions, runAsClient } from "./ratelimit.js";
+import { initConfig, type ToolFilter } from "./config.js";
+
+// "stateful" keeps a server per Mcp-Session-Id; the default creates one per request
+const STATEFUL = process.env.POLIGRAPH_HTTP_MODE === "stateful";
+const SESSION_IDLE_MS = parseInt(process.env.POLIGRAPH_SESSION_IDLE_MS ?? "1800000", 10);
+const MAX_SESSIONS = parseInt(process.env.POLIGRAPH_MAX_SESSIONS ?? "1000", 10);
+
+// Bearer-token auth is enabled as soon as a key is configured
+const auth = new ApiKeyAuth(loadApiKeys());
+const limiter = new RateLimiter(loadRateLimitOptions());
+// Only trust X-Forwarded-For behind a reverse proxy that sets it
+const TRUST_PROXY = process.env.POLIGRAPH_TRUST_PROXY === "1";
+// Set by serveHttp once the tools are registered; until then every name counts as unknown
+let isTool: ToolFilter = () => false;
+const metrics = new Metrics((name) => isTool(name));
+const logger = new RequestLogger({ ...loadLoggerOptions(), onEntry: (entry) => metrics.observe(entry) });
+const readiness = new ReadinessProbe({
+  ttlMs: parseInt(process.env.POLIGRAPH_READY_TTL_MS ?? "30000", 10),
+  timeoutMs: parseInt(process.env.POLIGRAPH_READY_TIMEOUT_MS ?? "5000", 10),
+});
+function instrument(transport: StreamableHTTPServerTransport): void {
+  logger.instrument(transport);
+  instrumentTransport(transport);
+}
+
+const sessions = STATEFUL
+  ? new SessionStore({ createServer, idleTimeoutMs: SESSION_IDLE_MS, maxSessions: MAX_SESSIONS, onConnect: instrument })
+  : undefined;
 
 const app = express();
-app.use(cors());
+app.use(cors({ exposedHeaders: ["Mcp-Session-Id"] }));
+app.use(express.json());
+
+// Probes and metrics are meant for the orchestrator: no auth, no rate limit
+app.get("/healthz", (_req, res) => {
+  res.json({ status: "ok" });
+});
+
+app.get("/readyz", async (_req, res) => {
+  const result = await readiness.check();
+  res.status(result.ready ? 200 : 503).json(result);
+});
+
+app.get("/metrics", (_req, res) => {
+  res.type("text/plain; version=0.0.4").send(metrics.render());
+});
+
+// Counters for the calling key only
+app.get("/usage", (req, res) => {
+  if (!auth.enabled) {
+    res.status(404).json({ error: "Authentication is disabled" });
+    return;
+  }
+  const authed: typeof req & { auth?: AuthInfo } = req;
+  if (!authorizeRequest(auth, authed, res)) return;
+  res.json(auth.usage(authed.auth!.clientId));
+});
 
 app.all("/mcp", async (req, res) => {
+  if (!authorizeRequest(auth, req, res)) return;
+  const client = clientId(req, TRUST_PROXY);
+  if (!admitRequest(limiter, client, res)) return;
+
   try {
-    const server = createServer();
-    const transport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-
-    res.on("close", () => {
-      transport.close().catch(() => {});
-      server.close().catch(() => {});
-    });
-
-    await server.connect(transport);
-    await transport.handleRequest(req, res);
+    await runAsClient(limiter, client, () => withIncomingContext(req.headers, async () => {
+      if (sessions) {
+        await sessions.handleRequest(req, res, req.body);
+        return;
+      }
+
+      const server = createServer();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined,
+      });
+
+      res.on("close", () => {
+        transport.close().catch(() => {});
+        server.close().catch(() => {});
+      });
+
+      await server.connect(transport);
+      instrument(transport);
+      await transport.handleRequest(req, res, req.body);
+    }));
   } catch (e) {
     if (!res.headersSent) {
       res.status(500).json({ jsonrpc: "2.0", error: { code: -32603, message: "Internal error" }, id: null });
@@ -27,7 +103,24 @@ app.all("/mcp", async (req, res) => {
   }
 });
 
-const port = parseInt(process.env.PORT ?? "3001", 10);
-app.listen(port, () => {
-  console.log(`Poligraph MCP HTTP server: http://localhost:${port}/mcp`);
-});
+/** Port used when neither `--port` nor `PORT` is given. */
+export const DEFAULT_PORT = parseInt(process.env.PORT ?? "3001", 10);
+
+/** Start listening. The configuration must be loaded first (see config.ts). */
+export async function serveHttp(port = DEFAULT_PORT): Promise<Server> {
+  // Built once up front: unknown tool names in the configuration fail at startup, not on the first request
+  isTool = toolFilter(createServer());
+  await initTracing();
+
+  return app.listen(port, () => {
+    const mode = sessions ? "stateful" : "stateless";
+    const access = auth.enabled ? "API keys required" : "open access";
+    console.log(`Poligraph MCP HTTP server (${mode}, ${access}): http://localhost:${port}/mcp`);
+  });
+}
+
+// Run as a script (npm run start:http); the CLI calls serveHttp itself
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  initConfig(process.argv.slice(2));
+  await serveHttp();
+}
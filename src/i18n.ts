@@ -0,0 +1,91 @@
+/**
+ * Language of the tool output: `fr` (default), `en` or `bilingual`.
+ *
+ * The server language comes from the configuration (`language`, see
+ * config.ts); every tool also accepts a `lang` argument for one call. The
+ * server runs each tool call inside `withLanguage`, and formatters read the
+ * active language from there, so it never has to be threaded by hand.
+ *
+ * Each module keeps its own message catalog next to its formatters, built
+ * with `defineMessages(fr, en)`. In `bilingual` mode the two catalogs are
+ * merged: labels read "Relaxe / Acquittal", whole sentences are given as two
+ * paragraphs, French first. Only the text changes: the enum codes of
+ * `structuredContent` are the same in every language. Tool and argument
+ * descriptions, prompts and resource listings stay in French.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { z } from "zod";
+import { LANGUAGES, getConfig, type Language } from "./config.js";
+
+export { LANGUAGES, type Language };
+
+/** Input field added to every tool by the server (see server.ts). */
+export const langInputs = {
+  lang: z
+    .enum(LANGUAGES)
+    .optional()
+    .describe("Langue de la réponse : fr, en ou bilingual (défaut : langue du serveur)"),
+};
+
+const current = new AsyncLocalStorage<Language>();
+
+/** Run `fn` with `lang` as the output language. */
+export function withLanguage<T>(lang: Language, fn: () => T): T {
+  return current.run(lang, fn);
+}
+
+/** Language of the current tool call, or the server language outside of one. */
+export function currentLanguage(): Language {
+  return current.getStore() ?? getConfig().language;
+}
+
+/** Locale used for dates and numbers; bilingual output keeps the French formats. */
+export function locale(): string {
+  return currentLanguage() === "en" ? "en-GB" : "fr-FR";
+}
+
+/** Separator between a label and its value: "Statut : …" in French, "Status: …" in English. */
+export function colon(): string {
+  return currentLanguage() === "en" ? ": " : " : ";
+}
+
+/** A bold markdown field, e.g. "**Statut** : Relaxe". */
+export function field(label: string, value: string | number): string {
+  return `**${label}**${colon()}${value}`;
+}
+
+// ─── Catalogs ──────────────────────────────────────────────────
+
+type Message = string | ((...args: never[]) => string) | { [key: string]: Message };
+
+/** Merge the French and English versions of a text. */
+function both(fr: string, en: string): string {
+  if (fr === en) return fr;
+  return /[.!?]$/.test(fr) ? `${fr}\n\n${en}` : `${fr} / ${en}`;
+}
+
+function merge(fr: Message, en: Message | undefined): Message {
+  if (en === undefined) return fr;
+  if (typeof fr === "string") return both(fr, en as string);
+  if (typeof fr === "function") {
+    const translate = en as (...args: unknown[]) => string;
+    return (...args: unknown[]) => both((fr as (...args: unknown[]) => string)(...args), translate(...args));
+  }
+  const entries = en as Record<string, Message>;
+  const merged: Record<string, Message> = {};
+  for (const key of new Set([...Object.keys(fr), ...Object.keys(entries)])) {
+    merged[key] = key in fr ? merge(fr[key], entries[key]) : entries[key];
+  }
+  return merged;
+}
+
+/**
+ * Declare a module's messages in French and English. The returned function
+ * gives the catalog of the current language.
+ */
+export function defineMessages<C extends { [key: string]: Message }>(fr: C, en: NoInfer<C>): () => C {
+  const bilingual = merge(fr, en) as C;
+  const catalogs: Record<Language, C> = { fr, en, bilingual };
+  return () => catalogs[currentLanguage()];
+}
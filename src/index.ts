@@ -1,10 +1,7 @@
 #!/usr/bin/env node
 
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { createServer } from "./server.js";
+import { runCli } from "./cli.js";
 
-const server = createServer();
-const transport = new StdioServerTransport();
-await server.connect(transport);
-
-console.error("Poligraph MCP server running on stdio");
+// Servers keep the process alive; one-shot commands end with their exit code
+const code = await runCli(process.argv.slice(2));
+if (code !== undefined) process.exitCode = code;
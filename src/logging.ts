@@ -0,0 +1,313 @@
+/**
+ * Structured request logging and audit trail.
+ *
+ * `RequestLogger.instrument` wraps a connected transport (stdio, HTTP or
+ * in-memory): every JSON-RPC request is timed until its response and emitted
+ * as one JSON line with the session, the caller, the tool, a hash of the
+ * arguments, the upstream calls and cache hits it caused, and its error code.
+ * Upstream counters are collected by `fetchAPI` through `recordUpstreamCall`
+ * and `recordCacheHit`, which read the request's async context.
+ *
+ * When an audit file is configured, each entry is also appended to it along
+ * with the request params (redacted) so the session can be replayed with
+ * `npm run replay`. The file rotates once it exceeds `maxBytes`.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { appendFile, mkdir, rename, stat } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type JSONRPCRequest,
+  type RequestId,
+  type Result,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ERROR_META_KEY } from "./errors.js";
+
+export interface LogEntry {
+  ts: string;
+  session: string | null;
+  client: string | null;
+  method: string;
+  /** Tool, prompt or resource URI the request targets. */
+  target: string | null;
+  argsHash: string | null;
+  latencyMs: number;
+  upstreamCalls: number;
+  cacheHits: number;
+  /** Tool error code, or the JSON-RPC error code for protocol errors. */
+  error: string | null;
+  /** `ApiError.status` behind a tool error, when there is one. */
+  status: number | null;
+}
+
+/** Audit lines carry the (redacted) params needed to replay the request. */
+export interface AuditEntry extends LogEntry {
+  params: unknown;
+}
+
+// ─── Upstream counters ─────────────────────────────────────────
+
+interface CallStats {
+  upstreamCalls: number;
+  cacheHits: number;
+}
+
+const callStats = new AsyncLocalStorage<CallStats>();
+
+/** Count a request sent to poligraph.fr on behalf of the current MCP request. */
+export function recordUpstreamCall(): void {
+  const stats = callStats.getStore();
+  if (stats) stats.upstreamCalls++;
+}
+
+/** Count a response served from the cache for the current MCP request. */
+export function recordCacheHit(): void {
+  const stats = callStats.getStore();
+  if (stats) stats.cacheHits++;
+}
+
+// ─── Redaction ─────────────────────────────────────────────────
+
+export const REDACTED = "[redacted]";
+
+/** JSON with sorted keys, so equal arguments always hash the same. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function hashArguments(args: unknown): string {
+  return createHash("sha256").update(stableStringify(args)).digest("hex").slice(0, 16);
+}
+
+/**
+ * Replace the values of the listed argument names (at any depth) with
+ * `[redacted]`. `*` redacts every argument value. The argument being
+ * completed by `completion/complete` (`argument: { name, value }`) is
+ * redacted by its name too.
+ */
+function isCompletionArgument(value: unknown): value is { name: string; value: unknown } {
+  return !!value && typeof value === "object" && typeof (value as { name?: unknown }).name === "string";
+}
+
+export function redact(value: unknown, keys: ReadonlySet<string>, inArguments = false): unknown {
+  if (Array.isArray(value)) return value.map((v) => redact(v, keys, inArguments));
+  if (!value || typeof value !== "object") return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+    if (inArguments && (keys.has("*") || keys.has(k))) {
+      result[k] = REDACTED;
+    } else if (!inArguments && k === "argument" && isCompletionArgument(v)) {
+      result[k] = keys.has("*") || keys.has(v.name) ? { ...v, value: REDACTED } : v;
+    } else {
+      result[k] = redact(v, keys, inArguments || k === "arguments");
+    }
+  }
+  return result;
+}
+
+// ─── Audit file ────────────────────────────────────────────────
+
+export interface AuditOptions {
+  path: string;
+  /** Size after which the file is rotated to `<path>.1`. */
+  maxBytes: number;
+  /** Rotated files kept (`<path>.1` … `<path>.<maxFiles>`). */
+  maxFiles: number;
+}
+
+/** Append-only JSONL file with size-based rotation. Writes are serialized. */
+export class AuditLog {
+  private queue: Promise<void> = Promise.resolve();
+  private size: number | undefined;
+
+  constructor(readonly options: AuditOptions) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const line = JSON.stringify(entry) + "\n";
+    this.queue = this.queue
+      .then(() => this.write(line))
+      .catch((e) => console.error(`[poligraph-mcp] Audit log write failed: ${(e as Error).message}`));
+    return this.queue;
+  }
+
+  /** Resolves once pending writes are on disk. */
+  flush(): Promise<void> {
+    return this.queue;
+  }
+
+  private async write(line: string): Promise<void> {
+    const { path, maxBytes } = this.options;
+    if (this.size === undefined) {
+      await mkdir(dirname(path), { recursive: true });
+      this.size = await stat(path).then((s) => s.size, () => 0);
+    }
+
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > maxBytes) {
+      await this.rotate();
+    }
+    await appendFile(path, line, "utf8");
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const { path, maxFiles } = this.options;
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      await rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => {});
+    }
+    await rename(path, `${path}.1`);
+    this.size = 0;
+  }
+}
+
+// ─── Transport middleware ──────────────────────────────────────
+
+export interface LoggerOptions {
+  /** Emit entries as JSON lines (stderr by default). */
+  enabled: boolean;
+  /** Argument names whose values are redacted in the audit file; `*` for all. */
+  redact: string[];
+  audit?: AuditLog;
+  write?: (line: string) => void;
+  /** Called with every entry, whether or not it is written (e.g. to feed metrics). */
+  onEntry?: (entry: LogEntry) => void;
+}
+
+interface Pending {
+  start: number;
+  request: JSONRPCRequest;
+  client: string | null;
+  stats: CallStats;
+}
+
+interface TargetParams {
+  name?: unknown;
+  uri?: unknown;
+  ref?: { name?: unknown; uri?: unknown };
+}
+
+function targetOf(request: JSONRPCRequest): string | null {
+  const params = request.params as TargetParams | undefined;
+  const target = params?.name ?? params?.uri ?? params?.ref?.name ?? params?.ref?.uri;
+  return typeof target === "string" ? target : null;
+}
+
+function argumentsOf(request: JSONRPCRequest): unknown {
+  const params = request.params as { arguments?: unknown; argument?: unknown } | undefined;
+  return params?.arguments ?? params?.argument;
+}
+
+/** Error code of a tool result (`_meta["poligraph/error"].code`), or null on success. */
+export function resultErrorCode(result: Result): string | null {
+  if (result.isError !== true) return null;
+  const meta = result._meta?.[ERROR_META_KEY] as { code?: string } | undefined;
+  return meta?.code ?? "TOOL_ERROR";
+}
+
+function errorOf(message: unknown): Pick<LogEntry, "error" | "status"> {
+  if (isJSONRPCErrorResponse(message)) return { error: String(message.error.code), status: null };
+  if (!isJSONRPCResultResponse(message)) return { error: null, status: null };
+  const meta = message.result._meta?.[ERROR_META_KEY] as { status?: number | null } | undefined;
+  return { error: resultErrorCode(message.result), status: meta?.status ?? null };
+}
+
+export class RequestLogger {
+  private redactKeys: ReadonlySet<string>;
+
+  constructor(readonly options: LoggerOptions) {
+    this.redactKeys = new Set(options.redact);
+  }
+
+  get active(): boolean {
+    return this.options.enabled || this.options.audit !== undefined || this.options.onEntry !== undefined;
+  }
+
+  /** Wrap a transport after `server.connect(transport)`. A no-op when logging is off. */
+  instrument(transport: Transport): void {
+    if (!this.active) return;
+
+    const pending = new Map<RequestId, Pending>();
+    const onmessage = transport.onmessage;
+    const send = transport.send.bind(transport);
+
+    transport.onmessage = (message, extra) => {
+      if (!isJSONRPCRequest(message)) {
+        onmessage?.(message, extra);
+        return;
+      }
+      const stats = { upstreamCalls: 0, cacheHits: 0 };
+      const client = extra?.authInfo?.clientId ?? null;
+      pending.set(message.id, { start: Date.now(), request: message, client, stats });
+      callStats.run(stats, () => onmessage?.(message, extra));
+    };
+
+    transport.send = async (message, options) => {
+      if (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) {
+        const call = message.id !== undefined ? pending.get(message.id) : undefined;
+        if (call) {
+          pending.delete(message.id!);
+          this.log(call, transport.sessionId ?? null, errorOf(message));
+        }
+      }
+      return send(message, options);
+    };
+  }
+
+  private log(call: Pending, session: string | null, outcome: Pick<LogEntry, "error" | "status">): void {
+    const args = argumentsOf(call.request);
+    const entry: LogEntry = {
+      ts: new Date(call.start).toISOString(),
+      session,
+      client: call.client,
+      method: call.request.method,
+      target: targetOf(call.request),
+      argsHash: args === undefined ? null : hashArguments(args),
+      latencyMs: Date.now() - call.start,
+      upstreamCalls: call.stats.upstreamCalls,
+      cacheHits: call.stats.cacheHits,
+      ...outcome,
+    };
+
+    if (this.options.enabled) {
+      const write = this.options.write ?? ((line: string) => process.stderr.write(line + "\n"));
+      write(JSON.stringify(entry));
+    }
+    this.options.audit?.append({ ...entry, params: redact(call.request.params, this.redactKeys) });
+    this.options.onEntry?.(entry);
+  }
+}
+
+function envInt(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = parseInt(env[name] ?? "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Read `POLIGRAPH_LOG` (on/off), `POLIGRAPH_LOG_REDACT` (comma-separated
+ * argument names) and `POLIGRAPH_AUDIT_FILE` / `_MAX_BYTES` / `_MAX_FILES`.
+ */
+export function loadLoggerOptions(env: NodeJS.ProcessEnv = process.env, enabledByDefault = true): LoggerOptions {
+  const enabled = env.POLIGRAPH_LOG ? env.POLIGRAPH_LOG === "on" : enabledByDefault;
+  const redactKeys = (env.POLIGRAPH_LOG_REDACT ?? "").split(",").map((k) => k.trim()).filter(Boolean);
+  const audit = env.POLIGRAPH_AUDIT_FILE
+    ? new AuditLog({
+        path: env.POLIGRAPH_AUDIT_FILE,
+        maxBytes: envInt(env, "POLIGRAPH_AUDIT_MAX_BYTES", 10 * 1024 * 1024),
+        maxFiles: envInt(env, "POLIGRAPH_AUDIT_MAX_FILES", 5),
+      })
+    : undefined;
+  return { enabled, redact: redactKeys, audit };
+}
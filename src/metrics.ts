@@ -0,0 +1,120 @@
+/**
+ * Prometheus metrics for the HTTP server.
+ *
+ * Tool calls are observed from request log entries (see logging.ts); cache,
+ * upstream and circuit figures are read from the API client when scraped.
+ * Calls to names that are not exposed tools are counted as `tool="unknown"`,
+ * so that clients cannot create series at will.
+ * The text exposition format is small enough to render by hand.
+ */
+
+import { getCacheStats, getCircuitState, getUpstreamInFlight } from "./api.js";
+import type { ToolFilter } from "./config.js";
+import type { LogEntry } from "./logging.js";
+
+/** Latency buckets in seconds, from cache hits to retried upstream calls. */
+const DURATION_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+interface Histogram {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function labels(pairs: Record<string, string>): string {
+  const body = Object.entries(pairs)
+    .map(([k, v]) => `${k}="${escapeLabel(v)}"`)
+    .join(",");
+  return body ? `{${body}}` : "";
+}
+
+export class Metrics {
+  private calls = new Map<string, number>();
+  private errors = new Map<string, { tool: string; status: string; count: number }>();
+  private durations = new Map<string, Histogram>();
+
+  /** `isTool` tells the exposed tool names from the others. */
+  constructor(private isTool: ToolFilter) {}
+
+  /** Record a finished request. Only `tools/call` entries are counted. */
+  observe(entry: LogEntry): void {
+    if (entry.method !== "tools/call" || !entry.target) return;
+    const tool = this.isTool(entry.target) ? entry.target : "unknown";
+
+    this.calls.set(tool, (this.calls.get(tool) ?? 0) + 1);
+
+    if (entry.error) {
+      // Errors without an upstream status (ambiguous names, invalid arguments) are labelled "none"
+      const status = entry.status === null ? "none" : String(entry.status);
+      const key = `${tool}\u0000${status}`;
+      const counter = this.errors.get(key) ?? { tool, status, count: 0 };
+      counter.count++;
+      this.errors.set(key, counter);
+    }
+
+    let histogram = this.durations.get(tool);
+    if (!histogram) {
+      histogram = { buckets: DURATION_BUCKETS.map(() => 0), sum: 0, count: 0 };
+      this.durations.set(tool, histogram);
+    }
+    const seconds = entry.latencyMs / 1000;
+    DURATION_BUCKETS.forEach((le, i) => {
+      if (seconds <= le) histogram.buckets[i]++;
+    });
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+
+  /** Render every metric in the Prometheus text format (version 0.0.4). */
+  render(): string {
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string) => {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    };
+
+    family("poligraph_tool_calls_total", "counter", "Tool calls by tool.");
+    for (const [tool, count] of this.calls) {
+      lines.push(`poligraph_tool_calls_total${labels({ tool })} ${count}`);
+    }
+
+    family("poligraph_tool_errors_total", "counter", "Tool errors by tool and upstream HTTP status.");
+    for (const { tool, status, count } of this.errors.values()) {
+      lines.push(`poligraph_tool_errors_total${labels({ tool, status })} ${count}`);
+    }
+
+    family("poligraph_tool_duration_seconds", "histogram", "Tool call latency.");
+    for (const [tool, h] of this.durations) {
+      DURATION_BUCKETS.forEach((le, i) => {
+        lines.push(`poligraph_tool_duration_seconds_bucket${labels({ tool, le: String(le) })} ${h.buckets[i]}`);
+      });
+      lines.push(`poligraph_tool_duration_seconds_bucket${labels({ tool, le: "+Inf" })} ${h.count}`);
+      lines.push(`poligraph_tool_duration_seconds_sum${labels({ tool })} ${h.sum}`);
+      lines.push(`poligraph_tool_duration_seconds_count${labels({ tool })} ${h.count}`);
+    }
+
+    const cache = getCacheStats();
+    const hits = cache.hits + cache.staleHits;
+    const lookups = hits + cache.misses;
+    family("poligraph_cache_hits_total", "counter", "Cache lookups answered from the cache (stale copies included).");
+    lines.push(`poligraph_cache_hits_total ${hits}`);
+    family("poligraph_cache_misses_total", "counter", "Cache lookups that went upstream.");
+    lines.push(`poligraph_cache_misses_total ${cache.misses}`);
+    family("poligraph_cache_hit_ratio", "gauge", "Share of cache lookups answered from the cache.");
+    lines.push(`poligraph_cache_hit_ratio ${lookups === 0 ? 0 : hits / lookups}`);
+    family("poligraph_cache_entries", "gauge", "Responses held in the cache.");
+    lines.push(`poligraph_cache_entries ${cache.entries}`);
+    family("poligraph_cache_bytes", "gauge", "Approximate size of the cache.");
+    lines.push(`poligraph_cache_bytes ${cache.bytes}`);
+
+    family("poligraph_upstream_in_flight", "gauge", "Requests to poligraph.fr currently in flight.");
+    lines.push(`poligraph_upstream_in_flight ${getUpstreamInFlight()}`);
+    family("poligraph_circuit_open", "gauge", "1 while the circuit breaker rejects upstream requests.");
+    lines.push(`poligraph_circuit_open ${getCircuitState() === "open" ? 1 : 0}`);
+
+    return lines.join("\n") + "\n";
+  }
+}
@@ -0,0 +1,422 @@
+/**
+ * Zod schemas for the `structuredContent` returned by every tool.
+ *
+ * Each schema is declared as the tool's `outputSchema`: clients receive it
+ * as JSON Schema in `tools/list`, and the server rejects results that do not
+ * conform. Handlers check their objects against the inferred types with
+ * `satisfies`. The types are exported for downstream TypeScript consumers.
+ *
+ * Error results (`isError: true`, see errors.ts) are not validated.
+ */
+
+import { z } from "zod";
+
+// ─── Shared ────────────────────────────────────────────────────
+
+const pageFields = {
+  total: z.number(),
+  page: z.number(),
+  totalPages: z.number(),
+  /** Pages read from the API (several with `maxResults` or `all`, see pagination.ts). */
+  pagesFetched: z.number().optional(),
+  /** Why `items` stops before the end of the list. */
+  truncated: z.enum(["maxResults", "budget", "cap"]).optional(),
+  /** Opaque cursor for the rest of the list, to pass back as `cursor`. */
+  nextCursor: z.string().optional(),
+};
+
+const PartyNameSchema = z.object({
+  name: z.string(),
+  shortName: z.string(),
+});
+
+const PartyLinkSchema = PartyNameSchema.extend({
+  slug: z.string(),
+});
+
+const PoliticianRefSchema = z.object({
+  slug: z.string(),
+  fullName: z.string(),
+});
+
+const PoliticianWithPartySchema = PoliticianRefSchema.extend({
+  party: PartyNameSchema.nullable(),
+});
+
+const SourceRefSchema = z.object({
+  url: z.string(),
+  title: z.string(),
+  publisher: z.string(),
+});
+
+const VerdictCountsSchema = z.record(z.number());
+
+// ─── Politicians ───────────────────────────────────────────────
+
+export const SearchPoliticiansOutputSchema = z.object({
+  ...pageFields,
+  items: z.array(
+    PoliticianWithPartySchema.extend({
+      birthDate: z.string().nullable(),
+      deathDate: z.string().nullable(),
+      url: z.string(),
+    }),
+  ),
+});
+export type SearchPoliticiansOutput = z.infer<typeof SearchPoliticiansOutputSchema>;
+
+export const GetPoliticianRelationsOutputSchema = z.object({
+  center: PoliticianRefSchema,
+  totalConnections: z.number(),
+  byType: z.record(z.number()),
+  relations: z.record(
+    z.array(
+      PoliticianRefSchema.extend({
+        party: z.string().nullable(),
+      }),
+    ),
+  ),
+  url: z.string(),
+});
+export type GetPoliticianRelationsOutput = z.infer<typeof GetPoliticianRelationsOutputSchema>;
+
+export const GetPoliticianOutputSchema = PoliticianWithPartySchema.extend({
+  civility: z.string().nullable(),
+  birthDate: z.string().nullable(),
+  deathDate: z.string().nullable(),
+  birthPlace: z.string().nullable(),
+  photoUrl: z.string().nullable(),
+  mandates: z.array(
+    z.object({
+      type: z.string(),
+      title: z.string(),
+      institution: z.string(),
+      constituency: z.string().nullable(),
+      startDate: z.string(),
+      endDate: z.string().nullable(),
+      isCurrent: z.boolean(),
+    }),
+  ),
+  declarations: z.array(
+    z.object({
+      type: z.string(),
+      year: z.number(),
+      url: z.string(),
+    }),
+  ),
+  affairsCount: z.number(),
+  factchecksCount: z.number(),
+  url: z.string(),
+});
+export type GetPoliticianOutput = z.infer<typeof GetPoliticianOutputSchema>;
+
+// ─── Affairs ───────────────────────────────────────────────────
+
+const AffairOutputSchema = z.object({
+  slug: z.string(),
+  title: z.string(),
+  status: z.string(),
+  category: z.string(),
+  factsDate: z.string().nullable(),
+  startDate: z.string(),
+  verdictDate: z.string().nullable(),
+  sentence: z.string().nullable(),
+  sources: z.array(SourceRefSchema),
+});
+
+export const ListAffairsOutputSchema = z.object({
+  ...pageFields,
+  items: z.array(AffairOutputSchema.extend({ politician: PoliticianRefSchema })),
+});
+export type ListAffairsOutput = z.infer<typeof ListAffairsOutputSchema>;
+
+export const GetPoliticianAffairsOutputSchema = z.object({
+  politician: PoliticianWithPartySchema,
+  total: z.number(),
+  affairs: z.array(AffairOutputSchema),
+  url: z.string(),
+});
+export type GetPoliticianAffairsOutput = z.infer<typeof GetPoliticianAffairsOutputSchema>;
+
+// ─── Votes ─────────────────────────────────────────────────────
+
+const VoteCountsSchema = z.object({
+  votesFor: z.number(),
+  votesAgainst: z.number(),
+  votesAbstain: z.number(),
+});
+
+export const ListVotesOutputSchema = z.object({
+  ...pageFields,
+  items: z.array(
+    VoteCountsSchema.extend({
+      title: z.string(),
+      votingDate: z.string(),
+      legislature: z.number(),
+      result: z.string(),
+      sourceUrl: z.string(),
+    }),
+  ),
+});
+export type ListVotesOutput = z.infer<typeof ListVotesOutputSchema>;
+
+export const GetPoliticianVotesOutputSchema = z.object({
+  politician: PoliticianRefSchema,
+  stats: z.object({
+    total: z.number(),
+    pour: z.number(),
+    contre: z.number(),
+    abstention: z.number(),
+    nonVotant: z.number(),
+    absent: z.number(),
+    participationRate: z.number(),
+  }),
+  votes: z.array(
+    z.object({
+      position: z.string(),
+      scrutin: VoteCountsSchema.extend({
+        title: z.string(),
+        votingDate: z.string(),
+        result: z.string(),
+      }),
+    }),
+  ),
+  page: z.number(),
+  totalPages: z.number(),
+});
+export type GetPoliticianVotesOutput = z.infer<typeof GetPoliticianVotesOutputSchema>;
+
+export const GetVoteStatsOutputSchema = z.object({
+  global: z.object({
+    totalScrutins: z.number(),
+    totalVotes: z.number(),
+    totalVotesFor: z.number(),
+    totalVotesAgainst: z.number(),
+    totalVotesAbstain: z.number(),
+    participationRate: z.number(),
+    adoptes: z.number(),
+    rejetes: z.number(),
+  }),
+  parties: z.array(
+    PartyNameSchema.extend({
+      cohesionRate: z.number(),
+      participationRate: z.number(),
+      totalVotes: z.number(),
+    }),
+  ),
+  divisiveScrutins: z.array(
+    VoteCountsSchema.extend({
+      title: z.string(),
+      votingDate: z.string(),
+      divisionScore: z.number(),
+    }),
+  ),
+});
+export type GetVoteStatsOutput = z.infer<typeof GetVoteStatsOutputSchema>;
+
+// ─── Advanced search ───────────────────────────────────────────
+
+export const SearchAdvancedOutputSchema = z.object({
+  ...pageFields,
+  results: z.array(
+    PoliticianRefSchema.extend({
+      party: z.object({ shortName: z.string() }).nullable(),
+      mandate: z.object({ type: z.string(), constituency: z.string() }).nullable(),
+      affairsCount: z.number(),
+      url: z.string(),
+    }),
+  ),
+  suggestions: z.array(z.string()),
+});
+export type SearchAdvancedOutput = z.infer<typeof SearchAdvancedOutputSchema>;
+
+// ─── Fact-checks ───────────────────────────────────────────────
+
+const FactCheckOutputSchema = z.object({
+  title: z.string(),
+  claimText: z.string(),
+  claimant: z.string().nullable(),
+  verdictRating: z.string(),
+  verdict: z.string(),
+  source: z.string(),
+  sourceUrl: z.string(),
+  publishedAt: z.string(),
+});
+
+export const ListFactChecksOutputSchema = z.object({
+  ...pageFields,
+  items: z.array(FactCheckOutputSchema.extend({ politicians: z.array(PoliticianRefSchema) })),
+});
+export type ListFactChecksOutput = z.infer<typeof ListFactChecksOutputSchema>;
+
+export const GetPoliticianFactChecksOutputSchema = z.object({
+  politician: PoliticianWithPartySchema,
+  total: z.number(),
+  factchecks: z.array(FactCheckOutputSchema),
+  url: z.string(),
+});
+export type GetPoliticianFactChecksOutput = z.infer<typeof GetPoliticianFactChecksOutputSchema>;
+
+export const GetFactCheckStatsOutputSchema = z.object({
+  global: z.object({
+    totalFactChecks: z.number(),
+    byVerdict: VerdictCountsSchema,
+  }),
+  byParty: z.array(
+    z.object({
+      partyShortName: z.string(),
+      partyName: z.string(),
+      partySlug: z.string().nullable(),
+      totalMentions: z.number(),
+      byVerdict: VerdictCountsSchema,
+    }),
+  ),
+  byPolitician: z.array(
+    PoliticianRefSchema.extend({
+      partyShortName: z.string().nullable(),
+      totalMentions: z.number(),
+      byVerdict: VerdictCountsSchema,
+    }),
+  ),
+  bySource: z.array(
+    z.object({
+      source: z.string(),
+      total: z.number(),
+      byVerdict: VerdictCountsSchema,
+    }),
+  ),
+});
+export type GetFactCheckStatsOutput = z.infer<typeof GetFactCheckStatsOutputSchema>;
+
+// ─── Parties ───────────────────────────────────────────────────
+
+export const ListPartiesOutputSchema = z.object({
+  ...pageFields,
+  items: z.array(
+    PartyLinkSchema.extend({
+      politicalPosition: z.string().nullable(),
+      memberCount: z.number(),
+      dissolvedDate: z.string().nullable(),
+      url: z.string(),
+    }),
+  ),
+});
+export type ListPartiesOutput = z.infer<typeof ListPartiesOutputSchema>;
+
+export const GetPartyOutputSchema = PartyLinkSchema.extend({
+  politicalPosition: z.string().nullable(),
+  memberCount: z.number(),
+  foundedDate: z.string().nullable(),
+  dissolvedDate: z.string().nullable(),
+  website: z.string().nullable(),
+  ideology: z.string().nullable(),
+  description: z.string().nullable(),
+  predecessor: PartyLinkSchema.nullable(),
+  successors: z.array(PartyLinkSchema),
+  membersWithMandate: z.number(),
+  url: z.string(),
+});
+export type GetPartyOutput = z.infer<typeof GetPartyOutputSchema>;
+
+// ─── Elections ─────────────────────────────────────────────────
+
+const ElectionOutputSchema = z.object({
+  slug: z.string(),
+  type: z.string(),
+  title: z.string(),
+  status: z.string(),
+  round1Date: z.string().nullable(),
+  round2Date: z.string().nullable(),
+  totalSeats: z.number().nullable(),
+});
+
+export const ListElectionsOutputSchema = z.object({
+  ...pageFields,
+  items: z.array(
+    ElectionOutputSchema.extend({
+      candidacyCount: z.number(),
+      url: z.string(),
+    }),
+  ),
+});
+export type ListElectionsOutput = z.infer<typeof ListElectionsOutputSchema>;
+
+export const GetElectionOutputSchema = ElectionOutputSchema.extend({
+  rounds: z.array(
+    z.object({
+      round: z.number(),
+      date: z.string().nullable(),
+      registeredVoters: z.number().nullable(),
+      actualVoters: z.number().nullable(),
+      participationRate: z.number().nullable(),
+    }),
+  ),
+  candidacies: z.array(
+    z.object({
+      candidateName: z.string(),
+      party: z.string().nullable(),
+      isElected: z.boolean().nullable(),
+      round1Pct: z.number().nullable(),
+      round2Pct: z.number().nullable(),
+      politicianSlug: z.string().nullable(),
+    }),
+  ),
+  url: z.string(),
+});
+export type GetElectionOutput = z.infer<typeof GetElectionOutputSchema>;
+
+// ─── Mandates ──────────────────────────────────────────────────
+
+export const ListMandatesOutputSchema = z.object({
+  ...pageFields,
+  items: z.array(
+    z.object({
+      type: z.string(),
+      title: z.string(),
+      institution: z.string().nullable(),
+      constituency: z.string().nullable(),
+      startDate: z.string(),
+      endDate: z.string().nullable(),
+      isCurrent: z.boolean(),
+      politician: PoliticianRefSchema.extend({ url: z.string() }),
+    }),
+  ),
+});
+export type ListMandatesOutput = z.infer<typeof ListMandatesOutputSchema>;
+
+// ─── Departments ───────────────────────────────────────────────
+
+export const GetDepartmentStatsOutputSchema = z.object({
+  stats: z.object({
+    totalDepartments: z.number(),
+    totalElus: z.number(),
+    totalDeputes: z.number(),
+    totalSenateurs: z.number(),
+  }),
+  topDepartments: z.array(
+    z.object({
+      code: z.string(),
+      name: z.string(),
+      region: z.string(),
+      totalElus: z.number(),
+      deputes: z.number(),
+      senateurs: z.number(),
+      dominantParty: z.object({ shortName: z.string(), count: z.number() }).nullable(),
+    }),
+  ),
+  partyDominance: z.record(z.number()),
+  url: z.string(),
+});
+export type GetDepartmentStatsOutput = z.infer<typeof GetDepartmentStatsOutputSchema>;
+
+export const GetDeputiesByDepartmentOutputSchema = z.object({
+  department: z.string(),
+  count: z.number(),
+  deputies: z.array(
+    PoliticianWithPartySchema.extend({
+      constituency: z.string().nullable(),
+      url: z.string(),
+    }),
+  ),
+});
+export type GetDeputiesByDepartmentOutput = z.infer<typeof GetDeputiesByDepartmentOutputSchema>;
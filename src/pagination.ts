@@ -0,0 +1,361 @@
+/**
+ * Shared paginator for the list routes (`{ data, pagination }` responses).
+ *
+ * By default a list tool returns the single page it was asked for (`page`,
+ * `limit`). With `maxResults` or `all`, `fetchPages` reads pages of 100,
+ * several at a time, until it has enough results, the route is exhausted,
+ * the hard cap is reached or the time budget runs out. Pages already on the
+ * wire when the budget runs out are kept, so the results are always a
+ * contiguous slice of the list. The first page that fails cancels the
+ * others, so that they stop spending the request budget and the client's
+ * rate limit. One progress notification is sent per page (see progress.ts).
+ *
+ * Every result that stops before the end of the list carries an opaque
+ * `nextCursor`: the tool, its filters, the next offset, the mode and a
+ * snapshot (time of the first page, total at that time). Passing it back as
+ * `cursor` to the same tool resumes with the same filters; a cursor older
+ * than POLIGRAPH_CURSOR_TTL_MS, or whose list has grown or shrunk since, is
+ * rejected as stale rather than silently skipping or repeating results.
+ * Cursors are not signed: a filter the tool does not itself send upstream
+ * makes the cursor invalid, so editing one cannot reach other API params.
+ */
+
+import { z } from "zod";
+import { fetchAPI } from "./api.js";
+import { InvalidCursorError } from "./errors.js";
+import { colon, defineMessages } from "./i18n.js";
+import { currentSignal, reportProgress, requestDeadline } from "./progress.js";
+import type { PaginationSchema } from "./schemas.js";
+import { charBudget, fitBlocks, type Verbosity } from "./verbosity.js";
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+/** Largest page the API serves. */
+const MAX_PAGE_SIZE = 100;
+
+/** Hard cap on the results of one call, `all` included. */
+export const MAX_RESULTS = envInt("POLIGRAPH_MAX_RESULTS", 1000);
+
+/** Pages fetched at the same time (the per-client limit of ratelimit.ts still applies). */
+const PAGE_CONCURRENCY = Math.max(1, envInt("POLIGRAPH_PAGE_CONCURRENCY", 4));
+
+/** Time after which no new page is requested. */
+const PAGINATION_BUDGET_MS = envInt("POLIGRAPH_PAGINATION_BUDGET_MS", 20_000);
+
+/** Age after which a cursor is refused. */
+const CURSOR_TTL_MS = envInt("POLIGRAPH_CURSOR_TTL_MS", 60 * 60_000);
+
+/** Input fields shared by every list tool. */
+export const paginationInputs = {
+  page: z.number().int().min(1).default(1).describe("Numéro de page"),
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).default(20).describe("Résultats par page (max 100)"),
+  maxResults: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_RESULTS)
+    .optional()
+    .describe(`Récupérer jusqu'à N résultats en un appel, depuis le début de la liste (max ${MAX_RESULTS}). page et limit sont alors ignorés`),
+  all: z
+    .boolean()
+    .optional()
+    .describe(`Récupérer tous les résultats en un appel (max ${MAX_RESULTS}). page et limit sont alors ignorés`),
+  cursor: z
+    .string()
+    .optional()
+    .describe("Valeur nextCursor d'une réponse précédente : renvoie la suite avec les mêmes filtres (les autres arguments sont alors ignorés)"),
+};
+
+export interface PageRequest {
+  page: number;
+  limit: number;
+  maxResults?: number;
+  all?: boolean;
+  cursor?: string;
+}
+
+export type Truncation = "maxResults" | "budget" | "cap";
+
+export interface PagedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  totalPages: number;
+  /** Position of the first item in the full list. */
+  offset: number;
+  /** Whether several pages were requested (`maxResults` or `all`). */
+  aggregated: boolean;
+  pagesFetched: number;
+  /** Cursor for the rest of the list, or null when it is exhausted. */
+  nextCursor: string | null;
+  /** Why an aggregated result stops before the end of the list. */
+  truncated?: Truncation;
+  /** Cursor resuming at `items[index]`, for text cut short by maxChars (see verbosity.ts). */
+  cursorAt: (index: number) => string;
+}
+
+type ListResponse = { data: unknown[]; pagination: z.infer<typeof PaginationSchema> };
+type Params = Record<string, string | number | boolean | undefined>;
+
+export interface FetchPagesOptions {
+  /** Tool the cursors are issued for; a cursor is only accepted by its tool. */
+  tool: string;
+  /** Overrides POLIGRAPH_PAGINATION_BUDGET_MS. */
+  budgetMs?: number;
+}
+
+// ─── Cursors ───────────────────────────────────────────────────
+
+const CursorSchema = z.object({
+  v: z.literal(2),
+  tool: z.string(),
+  params: z.record(z.union([z.string(), z.number(), z.boolean()])),
+  offset: z.number().int().min(0),
+  /** Page size in single-page mode. */
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE),
+  maxResults: z.number().int().min(1).max(MAX_RESULTS).optional(),
+  all: z.boolean().optional(),
+  total: z.number().int().min(0),
+  snapshot: z.number(),
+});
+
+export type Cursor = z.infer<typeof CursorSchema>;
+
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/** Parse a cursor for `tool`, whose filters may only use the keys in `filterKeys`. */
+function decodeCursor(value: string, tool: string, filterKeys: string[], now: number): Cursor {
+  let cursor: Cursor;
+  try {
+    cursor = CursorSchema.parse(JSON.parse(Buffer.from(value, "base64url").toString("utf8")));
+  } catch {
+    throw new InvalidCursorError("INVALID_CURSOR", "Malformed cursor");
+  }
+  if (cursor.tool !== tool) {
+    throw new InvalidCursorError("INVALID_CURSOR", `Cursor for ${cursor.tool}, not ${tool}`);
+  }
+  const unknown = Object.keys(cursor.params).filter((key) => !filterKeys.includes(key));
+  if (unknown.length > 0) {
+    throw new InvalidCursorError("INVALID_CURSOR", `Cursor filter(s) not accepted by ${tool}: ${unknown.join(", ")}`);
+  }
+  if (cursor.maxResults === undefined && !cursor.all && cursor.offset % cursor.limit !== 0) {
+    throw new InvalidCursorError("INVALID_CURSOR", "Cursor offset is not on a page boundary");
+  }
+  if (now - cursor.snapshot > CURSOR_TTL_MS) {
+    throw new InvalidCursorError("STALE_CURSOR", `Cursor snapshot older than ${CURSOR_TTL_MS} ms`);
+  }
+  return cursor;
+}
+
+// ─── Paginator ─────────────────────────────────────────────────
+
+/**
+ * Fetch one page, or up to `maxResults` / all results, of a list route, or
+ * the continuation described by `request.cursor`. The keys of `params` are
+ * the filters the tool sends, defined or not: a cursor may only use those.
+ */
+export async function fetchPages<S extends z.ZodType<ListResponse>>(
+  path: string,
+  schema: S,
+  params: Params,
+  request: PageRequest,
+  options: FetchPagesOptions,
+): Promise<PagedResult<z.infer<S>["data"][number]>> {
+  const now = Date.now();
+  let filters: Cursor["params"] = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) filters[key] = value;
+  }
+  let { maxResults, all } = request;
+  let offset = maxResults !== undefined || all ? 0 : (request.page - 1) * request.limit;
+  let limit = request.limit;
+  let snapshot: { at: number; total?: number } = { at: now };
+
+  if (request.cursor) {
+    const cursor = decodeCursor(request.cursor, options.tool, Object.keys(params), now);
+    ({ offset, limit, maxResults, all } = cursor);
+    filters = cursor.params;
+    snapshot = { at: cursor.snapshot, total: cursor.total };
+  }
+
+  const aggregated = maxResults !== undefined || all === true;
+  const pageSize = aggregated ? MAX_PAGE_SIZE : limit;
+  const fetchPage = (page: number, signal?: AbortSignal) =>
+    fetchAPI(path, schema, { ...filters, page, limit: pageSize }, { signal });
+
+  // Single-page mode reads one page; the aggregated mode reads every page covering [offset, offset + wanted)
+  const wanted = aggregated ? Math.min(maxResults ?? MAX_RESULTS, MAX_RESULTS) : limit;
+  const firstPage = Math.floor(offset / pageSize) + 1;
+  const first = await fetchPage(firstPage);
+  const { total, totalPages } = first.pagination;
+
+  if (snapshot.total !== undefined && total !== snapshot.total) {
+    throw new InvalidCursorError("STALE_CURSOR", `List changed since the cursor was issued (${snapshot.total} → ${total})`);
+  }
+
+  const lastPage = aggregated
+    ? Math.max(firstPage, Math.min(totalPages, Math.ceil((offset + wanted) / pageSize)))
+    : firstPage;
+  const pages: unknown[][] = [first.data];
+  let pagesFetched = 1;
+  let nextPage = firstPage + 1;
+
+  if (aggregated) {
+    const planned = lastPage - firstPage + 1;
+    // The request's own deadline also covers what it fetched before and fetches after the pages
+    const deadline = Math.min(now + (options.budgetMs ?? PAGINATION_BUDGET_MS), requestDeadline());
+    await reportProgress(pagesFetched, planned, `Page ${firstPage}/${lastPage}`);
+
+    // The first failure aborts the pages the other workers have in flight
+    const failed = new AbortController();
+    const request = currentSignal();
+    const signal = request ? AbortSignal.any([request, failed.signal]) : failed.signal;
+
+    // Workers take pages in order, so the pages read always form a contiguous run
+    const worker = async () => {
+      while (nextPage <= lastPage && Date.now() < deadline && !signal.aborted) {
+        const page = nextPage++;
+        try {
+          const data = await fetchPage(page, signal);
+          pages[page - firstPage] = data.data;
+        } catch (e) {
+          failed.abort();
+          throw e;
+        }
+        await reportProgress(++pagesFetched, planned, `Page ${page}/${lastPage}`);
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(PAGE_CONCURRENCY, planned - 1) }, worker));
+  }
+
+  const skip = offset - (firstPage - 1) * pageSize;
+  const items = pages.flat().slice(skip, skip + wanted) as z.infer<S>["data"];
+  const end = offset + items.length;
+
+  const cursor = (at: number, mode: Pick<Cursor, "maxResults" | "all">) =>
+    encodeCursor({ v: 2, tool: options.tool, params: filters, offset: at, limit, ...mode, total, snapshot: snapshot.at });
+  // Mid-page offsets can only be resumed in aggregated mode
+  const aggregatedMode = all ? { all } : { maxResults: maxResults ?? limit };
+
+  const result: PagedResult<z.infer<S>["data"][number]> = {
+    items,
+    total,
+    page: firstPage,
+    totalPages,
+    offset,
+    aggregated,
+    pagesFetched,
+    nextCursor: null,
+    cursorAt: (index) => cursor(offset + index, aggregatedMode),
+  };
+  if (end < total && items.length > 0) {
+    result.nextCursor = cursor(end, aggregated ? aggregatedMode : {});
+    if (aggregated) {
+      if (nextPage <= lastPage) result.truncated = "budget";
+      else if (maxResults !== undefined && items.length >= maxResults) result.truncated = "maxResults";
+      else result.truncated = "cap";
+    }
+  }
+  return result;
+}
+
+// ─── Rendering ─────────────────────────────────────────────────
+
+/** Fields of `structuredContent` describing the pages returned. */
+export function pageFields(result: PagedResult<unknown>) {
+  return {
+    total: result.total,
+    page: result.page,
+    totalPages: result.totalPages,
+    pagesFetched: result.pagesFetched,
+    ...(result.truncated ? { truncated: result.truncated } : {}),
+    ...(result.nextCursor ? { nextCursor: result.nextCursor } : {}),
+  };
+}
+
+const messages = defineMessages(
+  {
+    complete: "liste complète",
+    range: (first: number, last: number) => `n° ${first} à ${last}`,
+    nextPage: "Page suivante",
+    next: "Suite",
+    count: (shown: number, total: number) => `${shown} sur ${total} résultats`,
+    budget: (pages: number, shown: number, total: number) =>
+      `Délai dépassé après ${pages} page(s) : ${shown} sur ${total} résultats`,
+    cap: (shown: number, total: number) => `Plafond de ${MAX_RESULTS} résultats par appel atteint : ${shown} sur ${total} résultats`,
+    omitted: (count: number) => `${count} autre(s) résultat(s) omis (maxChars)`,
+  },
+  {
+    complete: "full list",
+    range: (first: number, last: number) => `no. ${first} to ${last}`,
+    nextPage: "Next page",
+    next: "Continue with",
+    count: (shown: number, total: number) => `${shown} of ${total} results`,
+    budget: (pages: number, shown: number, total: number) =>
+      `Time budget exceeded after ${pages} page(s): ${shown} of ${total} results`,
+    cap: (shown: number, total: number) => `Cap of ${MAX_RESULTS} results per call reached: ${shown} of ${total} results`,
+    omitted: (count: number) => `${count} more result(s) left out (maxChars)`,
+  },
+);
+
+/** Heading line of a list, e.g. "**12 partis** (page 1/1)". */
+export function pageHeading(result: PagedResult<unknown>, noun: string): string {
+  const t = messages();
+  if (!result.aggregated) {
+    return `**${result.total} ${noun}** (page ${result.page}/${result.totalPages})`;
+  }
+  if (result.offset === 0 && !result.nextCursor) {
+    return `**${result.total} ${noun}** (${t.complete})`;
+  }
+  return `**${result.total} ${noun}** (${t.range(result.offset + 1, result.offset + result.items.length)})`;
+}
+
+/** Footer telling the model how to get the rest of the list, if any. */
+export function pageFooter(result: PagedResult<unknown>): string | undefined {
+  const { nextCursor } = result;
+  if (!nextCursor) return undefined;
+  const t = messages();
+  const resume = `cursor="${nextCursor}"`;
+  if (!result.aggregated) return `_${t.nextPage}${colon()}${resume}_`;
+
+  const shown = result.offset + result.items.length;
+  const next = `${t.next}${colon()}${resume}`;
+  switch (result.truncated) {
+    case "budget":
+      return `_${t.budget(result.pagesFetched, shown, result.total)}. ${next}_`;
+    case "cap":
+      return `_${t.cap(shown, result.total)}. ${next}_`;
+    default:
+      return `_${t.count(shown, result.total)} (maxResults). ${next}_`;
+  }
+}
+
+/** Aggregated lists are rendered one line per item unless `full` was asked for. */
+export function listVerbosity(result: PagedResult<unknown>, verbosity: Verbosity): Verbosity {
+  return result.aggregated && verbosity === "standard" ? "summary" : verbosity;
+}
+
+/**
+ * Render a list: heading, one block per item and footer, within the
+ * `maxChars` budget. Items that do not fit are replaced by a note with a
+ * cursor resuming at the first one left out.
+ */
+export function renderPage(
+  result: PagedResult<unknown>,
+  noun: string,
+  blocks: string[],
+  maxChars?: number,
+  preamble: string[] = [],
+): string {
+  const footer = pageFooter(result);
+  const head = [pageHeading(result, noun), "", ...preamble];
+  const t = messages();
+  const omitted = (count: number, shown: number) =>
+    `_${t.omitted(count)}. ${t.next}${colon()}cursor="${result.cursorAt(shown)}"_`;
+  return fitBlocks(head, blocks, footer ? ["", footer] : [], charBudget(maxChars), omitted).text;
+}
@@ -0,0 +1,71 @@
+/**
+ * Progress notifications and cancellation for the current MCP request.
+ *
+ * `withToolErrors` and `withResourceErrors` run each handler inside
+ * `runWithRequest`, which keeps the request's AbortSignal and progress token
+ * in an async context. `fetchAPI` picks up the signal from there, so a call
+ * cancelled by the client (`notifications/cancelled`) stops fetching without
+ * every handler threading the signal by hand. Multi-page operations call
+ * `reportProgress` after each page; it is a no-op unless the client sent a
+ * progress token.
+ *
+ * The request also gets one deadline, `POLIGRAPH_REQUEST_BUDGET_MS` after it
+ * starts: every API call it makes (name resolution, detail, suggestions,
+ * pages of a list) shares it, so the whole request stays under the
+ * platform's maxDuration rather than each call on its own.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { ProgressToken, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+
+/** The parts of the SDK's `RequestHandlerExtra` used here. */
+export interface RequestExtra {
+  signal: AbortSignal;
+  _meta?: { progressToken?: ProgressToken };
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+}
+
+/** Overall budget of one request, retries included. Stays under Vercel's 60 s maxDuration. */
+const REQUEST_BUDGET_MS = envInt("POLIGRAPH_REQUEST_BUDGET_MS", 50_000);
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+interface RequestContext {
+  extra: RequestExtra;
+  /** Epoch ms after which the request's API calls give up. */
+  deadline: number;
+}
+
+const current = new AsyncLocalStorage<RequestContext>();
+
+function isRequestExtra(value: unknown): value is RequestExtra {
+  return typeof value === "object" && value !== null && (value as RequestExtra).signal instanceof AbortSignal;
+}
+
+/** Run `fn` on behalf of the request described by `extra` (ignored if it is not a request extra). */
+export function runWithRequest<T>(extra: unknown, fn: () => T): T {
+  return isRequestExtra(extra) ? current.run({ extra, deadline: Date.now() + REQUEST_BUDGET_MS }, fn) : fn();
+}
+
+/** AbortSignal of the current request, if any. */
+export function currentSignal(): AbortSignal | undefined {
+  return current.getStore()?.extra.signal;
+}
+
+/** Deadline of the current request; outside of one, a full budget from now. */
+export function requestDeadline(): number {
+  return current.getStore()?.deadline ?? Date.now() + REQUEST_BUDGET_MS;
+}
+
+/** Send `notifications/progress` for the current request when the client asked for it. */
+export async function reportProgress(progress: number, total?: number, message?: string): Promise<void> {
+  const extra = current.getStore()?.extra;
+  const progressToken = extra?._meta?.progressToken;
+  if (!extra || progressToken === undefined || extra.signal.aborted) return;
+
+  const params = { progressToken, progress, total, message };
+  await extra.sendNotification({ method: "notifications/progress", params }).catch(() => {});
+}
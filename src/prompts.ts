@@ -0,0 +1,209 @@
+/**
+ * MCP prompts for recurring journalist and citizen workflows.
+ *
+ * Each prompt expands into a single user message that tells the model which
+ * tools to call, in which order, and how to present the result. Every prompt
+ * carries the sourcing and presumption-of-innocence rules, so that they no
+ * longer have to be pasted by hand. Steps that need a tool the configuration
+ * disables are left out; a prompt with no step left is not registered.
+ */
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { ToolFilter } from "./config.js";
+import { completePartyShortNames, completePoliticianSlugs } from "./completions.js";
+import { PRESUMPTION_NOTICE } from "./tools/affairs.js";
+
+const SOURCING_RULES = [
+  "- N'utilisez que les données renvoyées par les outils Poligraph ; signalez explicitement toute information manquante.",
+  "- Citez les sources (liens poligraph.fr, articles, fact-checks) à la fin de chaque section.",
+  "- Restez factuel et neutre : pas de jugement de valeur ni de spéculation.",
+].join("\n");
+
+const PRESUMPTION_RULES = [
+  "- Pour toute affaire sans condamnation définitive (enquête, mise en examen, procès ou appel en cours), précisez le statut exact et reproduisez ce rappel :",
+  `  > ${PRESUMPTION_NOTICE}`,
+  "- Ne qualifiez jamais de « coupable » une personne qui n'a pas été définitivement condamnée.",
+].join("\n");
+
+function userPrompt(...sections: string[]): GetPromptResult {
+  return {
+    messages: [
+      {
+        role: "user",
+        content: { type: "text", text: sections.join("\n\n") },
+      },
+    ],
+  };
+}
+
+/** A step of a prompt and the tools it calls. */
+type Step = [tools: string[], text: string];
+
+/** Whether at least one of `steps` only calls enabled tools. */
+function anyStep(tools: ToolFilter, steps: Step[]): boolean {
+  return steps.some(([names]) => names.every(tools));
+}
+
+/** Numbered list of the steps whose tools are all enabled. */
+function stepList(heading: string, tools: ToolFilter, steps: Step[]): string {
+  const enabled = steps.filter(([names]) => names.every(tools));
+  return [heading, ...enabled.map(([, text], i) => `${i + 1}. ${text}`)].join("\n");
+}
+
+function dossierSteps(politicien: string): Step[] {
+  return [
+    [
+      ["get_politician"],
+      `\`get_politician\` avec slug="${politicien}" : identité, parti, mandats, déclarations HATVP. Si l'outil propose plusieurs correspondances, demandez-moi laquelle retenir.`,
+    ],
+    [["get_politician_votes"], "`get_politician_votes` : taux de participation et votes marquants."],
+    [["get_politician_affairs"], "`get_politician_affairs` : affaires judiciaires et leur statut."],
+    [["get_politician_factchecks"], "`get_politician_factchecks` : déclarations vérifiées et verdicts."],
+    [["get_politician_relations"], "`get_politician_relations` : gouvernement, entreprises en commun, parcours partisan."],
+  ];
+}
+
+function comparisonSteps(theme: string | undefined): Step[] {
+  return [
+    [["get_politician"], "`get_politician` : parti, mandats en cours et passés."],
+    [["get_politician_votes"], "`get_politician_votes` : participation et positions de vote."],
+    [["get_politician_affairs"], "`get_politician_affairs` : affaires judiciaires."],
+    [["get_politician_factchecks"], "`get_politician_factchecks` : fact-checks."],
+    theme
+      ? [["list_votes"], `\`list_votes\` avec search="${theme}" pour repérer les scrutins du thème, puis comparez la position de chacun.`]
+      : [["get_politician_votes"], "Repérez les scrutins auxquels les deux ont participé et comparez leurs positions."],
+  ];
+}
+
+function partySteps(tools: ToolFilter, parti: string, legislature: string | undefined): Step[] {
+  const fallback = tools("list_parties") ? ` (si l'identifiant est inconnu, utilisez \`list_parties\` avec search="${parti}")` : "";
+  return [
+    [["get_party"], `\`get_party\` avec slug="${parti}"${fallback} : position, membres, filiation.`],
+    [["get_vote_stats"], "`get_vote_stats` : cohésion du groupe et scrutins les plus divisifs."],
+    [["list_votes"], `\`list_votes\`${legislature ? ` avec legislature=${legislature}` : ""} : principaux scrutins adoptés et rejetés.`],
+    [
+      ["search_advanced"],
+      "`search_advanced` avec le filtre de parti et hasAffairs=true : élus du parti concernés par des affaires judiciaires.",
+    ],
+  ];
+}
+
+function verificationSteps(auteur: string | undefined): Step[] {
+  return [
+    [["list_factchecks"], "`list_factchecks` avec les mots-clés principaux de la déclaration : fact-checks existants et verdicts."],
+    [
+      ["get_politician_factchecks"],
+      auteur
+        ? `\`get_politician_factchecks\` avec slug="${auteur}" : autres déclarations vérifiées de l'auteur.`
+        : "Si la déclaration est attribuée à un élu, `get_politician_factchecks` pour ses autres déclarations vérifiées.",
+    ],
+    [["list_votes"], "Si la déclaration porte sur un vote ou une loi, `list_votes` avec les mots-clés pour retrouver les scrutins concernés."],
+  ];
+}
+
+export function registerPrompts(server: McpServer, tools: ToolFilter = () => true): void {
+  if (anyStep(tools, dossierSteps(""))) {
+    server.registerPrompt(
+      "dossier_politicien",
+      {
+        title: "Dossier complet sur un politicien",
+        description: "Fiche, mandats, votes, affaires judiciaires, fact-checks et relations d'un politicien.",
+        argsSchema: {
+          politicien: completable(
+            z.string().describe("Nom ou identifiant du politicien (ex: 'Mélenchon', 'marine-le-pen')"),
+            completePoliticianSlugs,
+          ),
+        },
+      },
+      ({ politicien }) =>
+        userPrompt(
+          `Établissez un dossier complet sur « ${politicien} » à partir des données Poligraph.`,
+          stepList("**Étapes :**", tools, dossierSteps(politicien)),
+          "**Présentation :** une section par étape, précédée d'un résumé de cinq lignes maximum.",
+          `**Règles :**\n${SOURCING_RULES}\n${PRESUMPTION_RULES}`,
+        ),
+    );
+  }
+
+  // The steps with a theme cover those without one
+  if (anyStep(tools, comparisonSteps("…"))) {
+    server.registerPrompt(
+      "comparer_elus",
+      {
+        title: "Comparer deux élus",
+        description: "Comparaison de deux élus : parcours, votes, participation, affaires et fact-checks.",
+        argsSchema: {
+          elu1: completable(
+            z.string().describe("Nom ou identifiant du premier élu"),
+            completePoliticianSlugs,
+          ),
+          elu2: completable(
+            z.string().describe("Nom ou identifiant du second élu"),
+            completePoliticianSlugs,
+          ),
+          theme: z.string().optional().describe("Thème de comparaison facultatif (ex: 'retraites', 'immigration')"),
+        },
+      },
+      ({ elu1, elu2, theme }) =>
+        userPrompt(
+          `Comparez « ${elu1} » et « ${elu2} » à partir des données Poligraph${theme ? `, en particulier sur le thème « ${theme} »` : ""}.`,
+          stepList("**Étapes (pour chacun des deux élus) :**", tools, comparisonSteps(theme)),
+          "**Présentation :** un tableau comparatif (parti, mandats, participation, affaires, fact-checks), puis les points de convergence et de divergence.",
+          `**Règles :**\n${SOURCING_RULES}\n${PRESUMPTION_RULES}\n- Traitez les deux élus avec le même niveau de détail.`,
+        ),
+    );
+  }
+
+  if (anyStep(tools, partySteps(tools, "", undefined))) {
+    server.registerPrompt(
+      "bilan_parti",
+      {
+        title: "Bilan d'un parti sur une législature",
+        description: "Membres, élus en exercice, cohésion de vote et scrutins d'un parti sur une législature.",
+        argsSchema: {
+          parti: completable(
+            z.string().describe("Identifiant ou nom du parti (ex: 'renaissance', 'LFI')"),
+            completePartyShortNames,
+          ),
+          legislature: z.string().optional().describe("Numéro de législature (ex: '17'), par défaut la législature en cours"),
+        },
+      },
+      ({ parti, legislature }) => {
+        const scope = legislature ? `la ${legislature}e législature` : "la législature en cours";
+        return userPrompt(
+          `Dressez le bilan du parti « ${parti} » sur ${scope} à partir des données Poligraph.`,
+          stepList("**Étapes :**", tools, partySteps(tools, parti, legislature)),
+          "**Présentation :** composition et poids parlementaire, discipline de vote, scrutins marquants, puis affaires judiciaires le cas échéant.",
+          `**Règles :**\n${SOURCING_RULES}\n${PRESUMPTION_RULES}\n- Les affaires concernent des personnes : n'en tirez aucune conclusion sur le parti dans son ensemble.`,
+        );
+      },
+    );
+  }
+
+  if (anyStep(tools, verificationSteps(undefined))) {
+    server.registerPrompt(
+      "verifier_declaration",
+      {
+        title: "Vérifier une déclaration",
+        description: "Recherche de fact-checks et de votes en rapport avec une déclaration publique.",
+        argsSchema: {
+          declaration: z.string().describe("Déclaration à vérifier, citée telle quelle"),
+          auteur: completable(
+            z.string().optional().describe("Nom ou identifiant de l'auteur de la déclaration"),
+            (value) => completePoliticianSlugs(value ?? ""),
+          ),
+        },
+      },
+      ({ declaration, auteur }) =>
+        userPrompt(
+          `Vérifiez la déclaration suivante${auteur ? ` de « ${auteur} »` : ""} :\n\n> ${declaration}`,
+          stepList("**Étapes :**", tools, verificationSteps(auteur)),
+          "**Présentation :** verdict synthétique (vrai, faux, trompeur, invérifiable avec les données disponibles), puis les éléments qui le fondent.",
+          `**Règles :**\n${SOURCING_RULES}\n${PRESUMPTION_RULES}\n- Si aucun fact-check ne correspond, dites-le plutôt que de trancher vous-même.`,
+        ),
+    );
+  }
+}
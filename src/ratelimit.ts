@@ -0,0 +1,218 @@
+/**
+ * Per-client throttling for the HTTP transport.
+ *
+ * Three limits protect poligraph.fr from a single runaway client:
+ * - a token bucket on incoming MCP requests (rejected with a 429 JSON-RPC error),
+ * - a cap on concurrent upstream fetches (extra fetches wait for a slot),
+ * - a cap on paginated upstream requests per minute (rejected by `fetchAPI`
+ *   with a `ClientRateLimitError`, i.e. a RATE_LIMITED tool error).
+ *
+ * A client is identified by its API key when authenticated, by its IP
+ * otherwise. The HTTP entry points run each request inside `runAsClient`;
+ * `fetchAPI` reads that context through `acquireUpstream`. Outside of it
+ * (stdio, tests) nothing is throttled. Setting a limit to 0 disables it.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { QUOTA_EXCEEDED_CODE, sendRpcError } from "./auth.js";
+
+export interface RateLimitOptions {
+  /** Sustained MCP requests per second per client. */
+  requestsPerSecond: number;
+  /** Bucket capacity: requests allowed in a burst. */
+  burst: number;
+  /** Upstream fetches in flight per client. */
+  maxConcurrentFetches: number;
+  /** Paginated upstream requests per client over a sliding minute. */
+  pagesPerMinute: number;
+}
+
+/** Outcome of `acquire`: a release function, or the wait before the next page is allowed. */
+export type UpstreamSlot = { release: () => void } | { retryAfterMs: number };
+
+/** Refills continuously at `ratePerSecond`, up to `capacity` tokens. */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private capacity: number,
+    private ratePerSecond: number,
+    now = Date.now(),
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  /** Take one token. Returns 0 on success, otherwise the wait in ms until a token is available. */
+  take(now = Date.now()): number {
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+    if (this.tokens >= 1) {
+      this.tokens--;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000);
+  }
+
+  /** Whether the bucket has refilled completely (the client can be forgotten). */
+  isFull(now = Date.now()): boolean {
+    return this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond >= this.capacity;
+  }
+}
+
+interface ClientState {
+  bucket: TokenBucket;
+  active: number;
+  waiting: Array<() => void>;
+  pages: number[];
+}
+
+const MINUTE = 60_000;
+const PRUNE_INTERVAL_MS = MINUTE;
+
+export class RateLimiter {
+  private clients = new Map<string, ClientState>();
+  private prunedAt = Date.now();
+
+  constructor(readonly options: RateLimitOptions) {}
+
+  get size(): number {
+    return this.clients.size;
+  }
+
+  private state(client: string, now: number): ClientState {
+    let state = this.clients.get(client);
+    if (!state) {
+      const bucket = new TokenBucket(this.options.burst, this.options.requestsPerSecond, now);
+      state = { bucket, active: 0, waiting: [], pages: [] };
+      this.clients.set(client, state);
+    }
+    return state;
+  }
+
+  /** Count an incoming request. Returns 0 if admitted, otherwise the wait in ms. */
+  admit(client: string, now = Date.now()): number {
+    if (now - this.prunedAt >= PRUNE_INTERVAL_MS) this.prune(now);
+    if (this.options.requestsPerSecond <= 0) return 0;
+    return this.state(client, now).bucket.take(now);
+  }
+
+  /**
+   * Reserve an upstream slot. Waits while the client has `maxConcurrentFetches`
+   * fetches in flight; refuses a `page` request beyond the pages-per-minute
+   * cap. Call `release` when the fetch ends. When `signal` fires during the
+   * wait, the request leaves the queue and the promise rejects with its reason.
+   */
+  async acquire(client: string, page: boolean, now = Date.now(), signal?: AbortSignal): Promise<UpstreamSlot> {
+    const state = this.state(client, now);
+    const { maxConcurrentFetches, pagesPerMinute } = this.options;
+
+    if (page && pagesPerMinute > 0) {
+      state.pages = state.pages.filter((t) => now - t < MINUTE);
+      if (state.pages.length >= pagesPerMinute) {
+        return { retryAfterMs: state.pages[0] + MINUTE - now };
+      }
+      state.pages.push(now);
+    }
+
+    if (maxConcurrentFetches > 0 && state.active >= maxConcurrentFetches) {
+      await new Promise<void>((resolve, reject) => {
+        const wake = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          const index = state.waiting.indexOf(wake);
+          if (index >= 0) state.waiting.splice(index, 1);
+          reject(signal?.reason);
+        };
+        if (signal?.aborted) return onAbort();
+        state.waiting.push(wake);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    }
+    state.active++;
+
+    let released = false;
+    return {
+      release: () => {
+        if (released) return;
+        released = true;
+        state.active--;
+        state.waiting.shift()?.();
+      },
+    };
+  }
+
+  /** Forget clients with a full bucket and nothing in flight. */
+  prune(now = Date.now()): void {
+    this.prunedAt = now;
+    for (const [client, state] of this.clients) {
+      const recentPages = state.pages.some((t) => now - t < MINUTE);
+      if (state.active === 0 && !recentPages && state.bucket.isFull(now)) {
+        this.clients.delete(client);
+      }
+    }
+  }
+}
+
+function envInt(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+  const value = parseInt(env[name] ?? "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+export function loadRateLimitOptions(env: NodeJS.ProcessEnv = process.env): RateLimitOptions {
+  return {
+    requestsPerSecond: envInt(env, "POLIGRAPH_RATE_PER_SECOND", 2),
+    burst: envInt(env, "POLIGRAPH_RATE_BURST", 20),
+    maxConcurrentFetches: envInt(env, "POLIGRAPH_MAX_CONCURRENT_FETCHES", 4),
+    pagesPerMinute: envInt(env, "POLIGRAPH_PAGES_PER_MINUTE", 120),
+  };
+}
+
+// ─── Request context ───────────────────────────────────────────
+
+interface ClientContext {
+  limiter: RateLimiter;
+  client: string;
+}
+
+const context = new AsyncLocalStorage<ClientContext>();
+
+/** Run `fn` with upstream fetches throttled for `client`. */
+export function runAsClient<T>(limiter: RateLimiter, client: string, fn: () => T): T {
+  return context.run({ limiter, client }, fn);
+}
+
+/** Reserve an upstream slot for the current client; a no-op outside `runAsClient`. */
+export function acquireUpstream(page: boolean, signal?: AbortSignal): Promise<UpstreamSlot> {
+  const current = context.getStore();
+  if (!current) return Promise.resolve({ release: () => {} });
+  return current.limiter.acquire(current.client, page, Date.now(), signal);
+}
+
+// ─── HTTP ──────────────────────────────────────────────────────
+
+/**
+ * Identify the caller: API key id when authenticated, else the IP. The first
+ * `X-Forwarded-For` entry is only trusted behind a proxy that sets it. The
+ * `Mcp-Session-Id` header is left out: a client could mint a new one per
+ * request to get a fresh bucket.
+ */
+export function clientId(req: IncomingMessage & { auth?: AuthInfo }, trustProxy: boolean): string {
+  if (req.auth) return `key:${req.auth.clientId}`;
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0].trim();
+  return `ip:${(trustProxy && first) || req.socket.remoteAddress || "unknown"}`;
+}
+
+/** Apply the request bucket. Sends a 429 JSON-RPC error and returns false when the client is over its rate. */
+export function admitRequest(limiter: RateLimiter, client: string, res: ServerResponse): boolean {
+  const waitMs = limiter.admit(client);
+  if (waitMs === 0) return true;
+  sendRpcError(res, 429, QUOTA_EXCEEDED_CODE, "Too many requests", { "Retry-After": String(Math.ceil(waitMs / 1000)) });
+  return false;
+}
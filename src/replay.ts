@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+/**
+ * Replay requests from an audit file (see logging.ts) for debugging.
+ *
+ *   npm run replay -- audit.jsonl [audit.jsonl.1 …] [--session <id>] [--url <endpoint>] [--token <key>]
+ *
+ * Requests are sent in their original order to an in-process server, or to
+ * a running HTTP server with `--url`. Each line compares the logged outcome
+ * with the new one; the exit code is 1 if any outcome differs. Redacted
+ * arguments are sent as `[redacted]`.
+ */
+
+import { readFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpError, ResultSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "./server.js";
+import { REDACTED, resultErrorCode, type AuditEntry } from "./logging.js";
+
+/** Protocol handshake messages are replayed by `client.connect` itself. */
+const SKIPPED_METHODS = new Set(["initialize", "ping"]);
+
+export async function readAuditEntries(files: string[], session?: string): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = [];
+  for (const file of files) {
+    const text = await readFile(file, "utf8");
+    for (const line of text.split("\n")) {
+      if (!line.trim()) continue;
+      const entry = JSON.parse(line) as AuditEntry;
+      if (session === undefined || entry.session === session) entries.push(entry);
+    }
+  }
+  return entries
+    .filter((e) => !SKIPPED_METHODS.has(e.method))
+    .sort((a, b) => a.ts.localeCompare(b.ts));
+}
+
+export interface ReplayOutcome {
+  entry: AuditEntry;
+  error: string | null;
+  latencyMs: number;
+}
+
+export async function replay(client: Client, entries: AuditEntry[]): Promise<ReplayOutcome[]> {
+  const outcomes: ReplayOutcome[] = [];
+  for (const entry of entries) {
+    const start = Date.now();
+    let error: string | null;
+    try {
+      const params = entry.params as Record<string, unknown> | undefined;
+      const result = await client.request({ method: entry.method, params }, ResultSchema);
+      error = resultErrorCode(result);
+    } catch (e) {
+      if (!(e instanceof McpError)) throw e;
+      error = String(e.code);
+    }
+    outcomes.push({ entry, error, latencyMs: Date.now() - start });
+  }
+  return outcomes;
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      session: { type: "string" },
+      url: { type: "string" },
+      token: { type: "string" },
+    },
+  });
+  if (positionals.length === 0) {
+    console.error("Usage: replay <audit.jsonl>… [--session <id>] [--url <endpoint>] [--token <key>]");
+    process.exit(2);
+  }
+
+  const entries = await readAuditEntries(positionals, values.session);
+  const client = new Client({ name: "poligraph-replay", version: "1.0.0" });
+
+  let transport: Transport;
+  if (values.url) {
+    const headers: Record<string, string> = values.token ? { Authorization: `Bearer ${values.token}` } : {};
+    transport = new StreamableHTTPClientTransport(new URL(values.url), { requestInit: { headers } });
+  } else {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    transport = clientTransport;
+  }
+  await client.connect(transport);
+
+  let differences = 0;
+  for (const { entry, error, latencyMs } of await replay(client, entries)) {
+    const same = error === entry.error;
+    if (!same) differences++;
+    const redacted = JSON.stringify(entry.params ?? null).includes(REDACTED) ? " [arguments redacted]" : "";
+    console.log(
+      `${same ? "=" : "≠"} ${entry.ts} ${entry.method} ${entry.target ?? ""} — ` +
+        `logged: ${entry.error ?? "ok"} (${entry.latencyMs} ms), replay: ${error ?? "ok"} (${latencyMs} ms)${redacted}`,
+    );
+  }
+  console.log(`${entries.length} request(s) replayed, ${differences} difference(s)`);
+
+  await client.close();
+  process.exit(differences > 0 ? 1 : 0);
+}
+
+// Run only as a script, so the helpers can be imported by tests
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  await main();
+}
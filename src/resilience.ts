@@ -0,0 +1,99 @@
+/**
+ * Retry and circuit-breaker primitives used by the API client.
+ */
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * min(maxMs, baseMs * 2^attempt).
+ */
+export function backoffDelay(
+  attempt: number,
+  baseMs: number,
+  maxMs: number,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date) into milliseconds.
+ * Returns undefined when the header is missing or unparseable.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const trimmed = header.trim();
+
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before the circuit opens. */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is let through. */
+  cooldownMs: number;
+}
+
+/**
+ * Fails fast while the upstream is known to be down. After `cooldownMs`,
+ * a single trial request is allowed: success closes the circuit, failure
+ * reopens it for another cooldown.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  get state(): CircuitState {
+    return this.stateAt(Date.now());
+  }
+
+  stateAt(now: number): CircuitState {
+    if (this.openedAt === null) return "closed";
+    return now - this.openedAt >= this.options.cooldownMs ? "half-open" : "open";
+  }
+
+  /** Whether a request may go out now. In half-open state, only one trial at a time. */
+  canRequest(now = Date.now()): boolean {
+    const state = this.stateAt(now);
+    if (state === "closed") return true;
+    if (state === "open" || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  /** Milliseconds until the circuit lets a trial request through. */
+  retryInMs(now = Date.now()): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.options.cooldownMs - now);
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.options.failureThreshold) {
+      this.openedAt = now;
+    }
+    this.trialInFlight = false;
+  }
+
+  /** The request was cancelled before the upstream answered: it proves nothing either way. */
+  recordAbandoned(): void {
+    this.trialInFlight = false;
+  }
+}
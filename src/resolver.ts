@@ -0,0 +1,91 @@
+/**
+ * Resolve free-form politician names ("Mélenchon", "Le Pen Marine") to slugs.
+ *
+ * Inputs that already look like slugs are passed through. Otherwise the
+ * search endpoint is queried and candidates are matched on accent-free,
+ * order-independent name tokens: a single match resolves, several matches
+ * raise an `AmbiguousNameError` listing them with birth dates and parties.
+ */
+
+import { ApiError, fetchAPI, formatDate } from "./api.js";
+import { AmbiguousNameError, type Suggestion } from "./errors.js";
+import { defineMessages } from "./i18n.js";
+import { PoliticianListResponseSchema, type PoliticianListItem } from "./schemas.js";
+import { normalize, similarity } from "./suggestions.js";
+
+const MAX_CANDIDATES = 8;
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)+$/;
+
+function tokens(text: string): string[] {
+  return normalize(text).split(" ").filter(Boolean);
+}
+
+/**
+ * Search terms to try in order: the name as typed, then its longest word
+ * (usually the last name), which also matches when words are swapped.
+ */
+function searchTerms(name: string): string[] {
+  const trimmed = name.trim();
+  const words = trimmed.split(/[\s-]+/).filter(Boolean);
+  const longest = words.reduce((a, b) => (b.length > a.length ? b : a), "");
+  return longest && longest !== trimmed ? [trimmed, longest] : [trimmed];
+}
+
+const messages = defineMessages(
+  { born: (female: boolean, date: string) => `${female ? "née" : "né"} le ${date}` },
+  { born: (_female: boolean, date: string) => `born ${date}` },
+);
+
+function describe(p: PoliticianListItem): Suggestion {
+  const party = p.currentParty ? ` (${p.currentParty.shortName})` : "";
+  const born = p.birthDate ? `, ${messages().born(p.civility === "Mme", formatDate(p.birthDate))}` : "";
+  return { slug: p.slug, label: `${p.fullName}${party}${born}` };
+}
+
+/** Candidates whose name contains every token of the query, in any order. */
+function matching(name: string, candidates: PoliticianListItem[]): PoliticianListItem[] {
+  const wanted = tokens(name);
+  return candidates.filter((p) => {
+    const have = new Set(tokens(p.fullName));
+    return wanted.every((t) => have.has(t));
+  });
+}
+
+function ranked(name: string, candidates: PoliticianListItem[]): Suggestion[] {
+  return candidates
+    .map((p) => ({ p, score: similarity(name, p.fullName) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CANDIDATES)
+    .map(({ p }) => describe(p));
+}
+
+export async function resolvePoliticianSlug(input: string): Promise<string> {
+  const name = input.trim();
+  if (SLUG_PATTERN.test(name)) return name;
+
+  // Search hits that match no token set, offered as candidates if nothing better turns up
+  let loose: PoliticianListItem[] = [];
+
+  for (const term of searchTerms(name)) {
+    const data = await fetchAPI("/api/politiques", PoliticianListResponseSchema, { search: term, limit: 20 });
+    const matches = matching(name, data.data);
+    if (matches.length === 0) {
+      if (loose.length === 0) loose = data.data;
+      continue;
+    }
+    if (matches.length === 1) return matches[0].slug;
+
+    // Several matches: an exact token set ("Marine Le Pen") wins over longer names
+    const wanted = tokens(name).sort().join(" ");
+    const exact = matches.filter((p) => tokens(p.fullName).sort().join(" ") === wanted);
+    if (exact.length === 1) return exact[0].slug;
+
+    throw new AmbiguousNameError(name, ranked(name, matches));
+  }
+
+  if (loose.length > 0) {
+    throw new AmbiguousNameError(name, ranked(name, loose));
+  }
+  throw new ApiError(404, `API 404: no politician matches "${name}"`);
+}
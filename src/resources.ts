@@ -0,0 +1,209 @@
+/**
+ * MCP resources: politician, party, election and affair records addressable
+ * by URI, so that clients can attach them as context without a tool call.
+ *
+ * Each read returns two renditions of the record: the markdown produced by
+ * the tool formatters and the validated API payload as JSON. `resources/list`
+ * enumerates current deputies and senators, with one progress notification
+ * per page fetched; template variables are completed from the search
+ * endpoints (see completions.ts).
+ */
+
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ReadResourceResult, Resource } from "@modelcontextprotocol/sdk/types.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { fetchAPI } from "./api.js";
+import {
+  completeDepartments,
+  completeElectionSlugs,
+  completePartySlugs,
+  completePoliticianSlugs,
+} from "./completions.js";
+import {
+  AffairDetailSchema,
+  DeputiesResponseSchema,
+  ElectionDetailResponseSchema,
+  MandateListResponseSchema,
+  PartyDetailResponseSchema,
+  PoliticianDetailSchema,
+} from "./schemas.js";
+import { formatMandateType, type MandateType } from "./domain.js";
+import type { ToolFilter } from "./config.js";
+import { withResourceErrors } from "./errors.js";
+import { withLanguage, type Language } from "./i18n.js";
+import { reportProgress } from "./progress.js";
+import { formatPoliticianDetail } from "./tools/politicians.js";
+import { formatPartyDetail } from "./tools/parties.js";
+import { formatElectionDetail } from "./tools/elections.js";
+import { formatAffairDetail } from "./tools/affairs.js";
+import { formatDeputies } from "./tools/departments.js";
+
+/** Mandates whose current holders are listed by `resources/list`. */
+const LISTED_MANDATES: MandateType[] = ["DEPUTE", "SENATEUR"];
+
+const LIST_PAGE_SIZE = 100;
+
+function renditions(uri: URL, markdown: string, data: unknown): ReadResourceResult {
+  return {
+    contents: [
+      { uri: uri.href, mimeType: "text/markdown", text: markdown },
+      { uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) },
+    ],
+  };
+}
+
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+async function listParliamentarians(): Promise<{ resources: Resource[] }> {
+  const resources: Resource[] = [];
+  const seen = new Set<string>();
+  let pagesFetched = 0;
+
+  for (const type of LISTED_MANDATES) {
+    // Listings stay in French, whatever the server language
+    const label = withLanguage("fr", () => formatMandateType(type));
+    let page = 1;
+    let totalPages = 1;
+    do {
+      const data = await fetchAPI("/api/mandats", MandateListResponseSchema, {
+        type,
+        isCurrent: true,
+        page,
+        limit: LIST_PAGE_SIZE,
+      });
+
+      for (const m of data.data) {
+        if (seen.has(m.politician.slug)) continue;
+        seen.add(m.politician.slug);
+        const constituency = m.constituency ? ` — ${m.constituency}` : "";
+        resources.push({
+          uri: `poligraph://politiques/${m.politician.slug}`,
+          name: m.politician.slug,
+          title: m.politician.fullName,
+          description: `${label}${constituency}`,
+          mimeType: "text/markdown",
+        });
+      }
+
+      totalPages = data.pagination.totalPages;
+      await reportProgress(++pagesFetched, undefined, `${label} : page ${page}/${totalPages}`);
+      page++;
+    } while (page <= totalPages);
+  }
+
+  return { resources };
+}
+
+export interface ResourceOptions {
+  /** Expose poligraph://affaires/{slug}; off when the affairs tool group is disabled. */
+  affairs: boolean;
+  /** Tools the records may point to (see formatPoliticianDetail). */
+  tools: ToolFilter;
+  /** Language of the markdown renditions (resources take no `lang` argument). */
+  language: Language;
+}
+
+export function registerResources(
+  server: McpServer,
+  { affairs, tools, language }: ResourceOptions = { affairs: true, tools: () => true, language: "fr" },
+): void {
+  const localized =
+    <Args extends unknown[], R>(read: (...args: Args) => Promise<R>) =>
+    (...args: Args) =>
+      withLanguage(language, () => read(...args));
+
+  server.registerResource(
+    "politician",
+    new ResourceTemplate("poligraph://politiques/{slug}", {
+      list: withResourceErrors(listParliamentarians),
+      complete: { slug: completePoliticianSlugs },
+    }),
+    {
+      title: "Fiche politicien",
+      description: "Fiche complète d'un politicien : mandats, déclarations de patrimoine, nombre d'affaires.",
+      mimeType: "text/markdown",
+    },
+    localized(withResourceErrors(async (uri: URL, variables: Variables) => {
+      const data = await fetchAPI(
+        `/api/politiques/${encodeURIComponent(variable(variables, "slug"))}`,
+        PoliticianDetailSchema,
+      );
+      return renditions(uri, formatPoliticianDetail(data, tools), data);
+    })),
+  );
+
+  server.registerResource(
+    "party",
+    new ResourceTemplate("poligraph://partis/{slug}", {
+      list: undefined,
+      complete: { slug: completePartySlugs },
+    }),
+    {
+      title: "Fiche parti",
+      description: "Fiche complète d'un parti politique : membres, position, filiation.",
+      mimeType: "text/markdown",
+    },
+    localized(withResourceErrors(async (uri: URL, variables: Variables) => {
+      const data = await fetchAPI(`/api/partis/${encodeURIComponent(variable(variables, "slug"))}`, PartyDetailResponseSchema);
+      return renditions(uri, formatPartyDetail(data), data);
+    })),
+  );
+
+  server.registerResource(
+    "election",
+    new ResourceTemplate("poligraph://elections/{slug}", {
+      list: undefined,
+      complete: { slug: completeElectionSlugs },
+    }),
+    {
+      title: "Fiche élection",
+      description: "Détail d'une élection : candidatures, résultats par tour, participation.",
+      mimeType: "text/markdown",
+    },
+    localized(withResourceErrors(async (uri: URL, variables: Variables) => {
+      const data = await fetchAPI(
+        `/api/elections/${encodeURIComponent(variable(variables, "slug"))}`,
+        ElectionDetailResponseSchema,
+      );
+      return renditions(uri, formatElectionDetail(data), data);
+    })),
+  );
+
+  if (affairs) {
+    server.registerResource(
+      "affair",
+      new ResourceTemplate("poligraph://affaires/{slug}", { list: undefined }),
+      {
+        title: "Fiche affaire",
+        description: "Détail d'une affaire judiciaire avec statut, sources et rappel de la présomption d'innocence.",
+        mimeType: "text/markdown",
+      },
+      localized(withResourceErrors(async (uri: URL, variables: Variables) => {
+        const data = await fetchAPI(`/api/affaires/${encodeURIComponent(variable(variables, "slug"))}`, AffairDetailSchema);
+        const party = data.politician.currentParty ? ` (${data.politician.currentParty.shortName})` : "";
+        return renditions(uri, formatAffairDetail(data, `${data.politician.fullName}${party}`, "full"), data);
+      })),
+    );
+  }
+
+  server.registerResource(
+    "department",
+    new ResourceTemplate("poligraph://departements/{department}", {
+      list: undefined,
+      complete: { department: completeDepartments },
+    }),
+    {
+      title: "Députés d'un département",
+      description: "Députés en exercice dans un département (ex: 'Paris', 'Bouches-du-Rhône').",
+      mimeType: "text/markdown",
+    },
+    localized(withResourceErrors(async (uri: URL, variables: Variables) => {
+      const department = variable(variables, "department");
+      const data = await fetchAPI("/api/deputies/by-department", DeputiesResponseSchema, { department });
+      return renditions(uri, formatDeputies(department, data), data);
+    })),
+  );
+}
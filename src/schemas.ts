@@ -0,0 +1,647 @@
+/**
+ * Zod schemas for every Poligraph API response consumed by the tools.
+ *
+ * The API client validates each response against its schema. When fields
+ * are missing or have the wrong type, the response is repaired with neutral
+ * fallbacks ("—", 0, [], null) so that formatters still produce readable
+ * output, and the drift is reported on stderr. The contract tests use the
+ * same schemas against the live API.
+ */
+
+import { z } from "zod";
+
+// ─── Shared ────────────────────────────────────────────────────
+
+export const PaginationSchema = z.object({
+  page: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+});
+
+function paginated<T extends z.ZodTypeAny>(item: T) {
+  return z.object({
+    data: z.array(item),
+    pagination: PaginationSchema,
+  });
+}
+
+const PartyRefSchema = z.object({
+  shortName: z.string(),
+  name: z.string(),
+});
+
+const PoliticianPartySchema = z.object({
+  shortName: z.string(),
+  name: z.string(),
+  color: z.string().nullable(),
+});
+
+const PoliticianSummarySchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  fullName: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  photoUrl: z.string().nullable(),
+  party: PoliticianPartySchema.nullable(),
+});
+
+// ─── Politicians ───────────────────────────────────────────────
+
+export const PoliticianListItemSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  fullName: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  civility: z.string().nullable(),
+  birthDate: z.string().nullable(),
+  deathDate: z.string().nullable(),
+  birthPlace: z.string().nullable(),
+  photoUrl: z.string().nullable(),
+  currentParty: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      shortName: z.string(),
+      color: z.string(),
+    })
+    .nullable(),
+});
+export type PoliticianListItem = z.infer<typeof PoliticianListItemSchema>;
+
+export const PoliticianListResponseSchema = paginated(PoliticianListItemSchema);
+export type PoliticianListResponse = z.infer<typeof PoliticianListResponseSchema>;
+
+export const MandateSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  title: z.string(),
+  institution: z.string(),
+  constituency: z.string().nullable(),
+  startDate: z.string(),
+  endDate: z.string().nullable(),
+  isCurrent: z.boolean(),
+});
+export type Mandate = z.infer<typeof MandateSchema>;
+
+export const DeclarationSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  year: z.number(),
+  url: z.string(),
+});
+export type Declaration = z.infer<typeof DeclarationSchema>;
+
+export const PoliticianDetailSchema = PoliticianListItemSchema.extend({
+  mandates: z.array(MandateSchema),
+  declarations: z.array(DeclarationSchema),
+  affairsCount: z.number(),
+  factchecksCount: z.number().optional(),
+});
+export type PoliticianDetail = z.infer<typeof PoliticianDetailSchema>;
+
+export const RelationNodeSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  fullName: z.string(),
+  photoUrl: z.string().nullable(),
+  party: z.object({ shortName: z.string(), color: z.string().nullable() }).nullable(),
+  mandateType: z.string(),
+});
+export type RelationNode = z.infer<typeof RelationNodeSchema>;
+
+export const RelationClusterSchema = z.object({
+  type: z.string(),
+  label: z.string(),
+  nodes: z.array(RelationNodeSchema),
+  links: z.array(
+    z.object({
+      source: z.string(),
+      target: z.string(),
+      type: z.string(),
+      label: z.string().optional(),
+    }),
+  ),
+});
+export type RelationCluster = z.infer<typeof RelationClusterSchema>;
+
+export const RelationsResponseSchema = z.object({
+  center: RelationNodeSchema,
+  clusters: z.array(RelationClusterSchema),
+  stats: z.object({
+    totalConnections: z.number(),
+    byType: z.record(z.number()),
+  }),
+});
+export type RelationsResponse = z.infer<typeof RelationsResponseSchema>;
+
+// ─── Affairs ───────────────────────────────────────────────────
+
+export const SourceSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  title: z.string(),
+  publisher: z.string(),
+  publishedAt: z.string().nullable(),
+});
+export type Source = z.infer<typeof SourceSchema>;
+
+const AffairBaseSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  title: z.string(),
+  description: z.string(),
+  status: z.string(),
+  category: z.string(),
+  factsDate: z.string().nullable(),
+  startDate: z.string(),
+  verdictDate: z.string().nullable(),
+  sentence: z.string().nullable(),
+  appeal: z.string().nullable(),
+  partyAtTime: PartyRefSchema.nullable(),
+  sources: z.array(SourceSchema),
+});
+export type Affair = z.infer<typeof AffairBaseSchema>;
+
+export const AffairListItemSchema = AffairBaseSchema.extend({
+  politician: z.object({
+    id: z.string(),
+    slug: z.string(),
+    fullName: z.string(),
+    currentParty: PartyRefSchema.nullable(),
+  }),
+});
+export type AffairListItem = z.infer<typeof AffairListItemSchema>;
+
+export const AffairListResponseSchema = paginated(AffairListItemSchema);
+export type AffairListResponse = z.infer<typeof AffairListResponseSchema>;
+
+// GET /api/affaires/:slug returns a single affair in the list item shape
+export const AffairDetailSchema = AffairListItemSchema;
+export type AffairDetail = z.infer<typeof AffairDetailSchema>;
+
+export const PoliticianAffairsResponseSchema = z.object({
+  politician: PoliticianSummarySchema,
+  affairs: z.array(AffairBaseSchema),
+  total: z.number(),
+});
+export type PoliticianAffairsResponse = z.infer<typeof PoliticianAffairsResponseSchema>;
+
+// ─── Votes ─────────────────────────────────────────────────────
+
+export const ScrutinListItemSchema = z.object({
+  id: z.string(),
+  externalId: z.string(),
+  title: z.string(),
+  votingDate: z.string(),
+  legislature: z.number(),
+  votesFor: z.number(),
+  votesAgainst: z.number(),
+  votesAbstain: z.number(),
+  result: z.string(),
+  sourceUrl: z.string(),
+  totalVotes: z.number(),
+});
+export type ScrutinListItem = z.infer<typeof ScrutinListItemSchema>;
+
+export const VoteListResponseSchema = paginated(ScrutinListItemSchema);
+export type VoteListResponse = z.infer<typeof VoteListResponseSchema>;
+
+export const PartyStatsSchema = z.object({
+  partyId: z.string(),
+  partyName: z.string(),
+  partyShortName: z.string(),
+  partyColor: z.string(),
+  partySlug: z.string(),
+  totalVotes: z.number(),
+  pour: z.number(),
+  contre: z.number(),
+  abstention: z.number(),
+  nonVotant: z.number(),
+  absent: z.number(),
+  cohesionRate: z.number(),
+  participationRate: z.number(),
+});
+export type PartyStats = z.infer<typeof PartyStatsSchema>;
+
+export const DivisiveScrutinSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  title: z.string(),
+  votingDate: z.string(),
+  chamber: z.string(),
+  votesFor: z.number(),
+  votesAgainst: z.number(),
+  votesAbstain: z.number(),
+  divisionScore: z.number(),
+});
+export type DivisiveScrutin = z.infer<typeof DivisiveScrutinSchema>;
+
+export const VoteStatsResponseSchema = z.object({
+  parties: z.array(PartyStatsSchema),
+  divisiveScrutins: z.array(DivisiveScrutinSchema),
+  global: z.object({
+    totalScrutins: z.number(),
+    totalVotes: z.number(),
+    totalVotesFor: z.number(),
+    totalVotesAgainst: z.number(),
+    totalVotesAbstain: z.number(),
+    participationRate: z.number(),
+    adoptes: z.number(),
+    rejetes: z.number(),
+  }),
+});
+export type VoteStatsResponse = z.infer<typeof VoteStatsResponseSchema>;
+
+export const PoliticianVotesResponseSchema = z.object({
+  politician: PoliticianSummarySchema,
+  stats: z.object({
+    total: z.number(),
+    pour: z.number(),
+    contre: z.number(),
+    abstention: z.number(),
+    nonVotant: z.number(),
+    absent: z.number(),
+    participationRate: z.number(),
+  }),
+  votes: z.array(
+    z.object({
+      id: z.string(),
+      position: z.string(),
+      scrutin: ScrutinListItemSchema.omit({ totalVotes: true }),
+    }),
+  ),
+  pagination: PaginationSchema,
+});
+export type PoliticianVotesResponse = z.infer<typeof PoliticianVotesResponseSchema>;
+
+// ─── Advanced search ───────────────────────────────────────────
+
+export const SearchResultSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  fullName: z.string(),
+  photoUrl: z.string().nullable(),
+  currentParty: z.object({ shortName: z.string(), color: z.string() }).nullable(),
+  currentMandate: z.object({ type: z.string(), constituency: z.string() }).nullable(),
+  affairsCount: z.number(),
+});
+export type SearchResult = z.infer<typeof SearchResultSchema>;
+
+export const AdvancedSearchResponseSchema = z.object({
+  results: z.array(SearchResultSchema),
+  total: z.number(),
+  page: z.number(),
+  totalPages: z.number(),
+  suggestions: z.array(z.string()).optional(),
+});
+export type AdvancedSearchResponse = z.infer<typeof AdvancedSearchResponseSchema>;
+
+// ─── Fact-checks ───────────────────────────────────────────────
+
+const VerdictCountsSchema = z.record(z.number());
+
+export const FactCheckStatsResponseSchema = z.object({
+  global: z.object({
+    totalFactChecks: z.number(),
+    byVerdict: VerdictCountsSchema,
+  }),
+  byParty: z.array(
+    z.object({
+      partyId: z.string(),
+      partyName: z.string(),
+      partyShortName: z.string(),
+      partyColor: z.string().nullable(),
+      partySlug: z.string().nullable(),
+      totalMentions: z.number(),
+      byVerdict: VerdictCountsSchema,
+    }),
+  ),
+  byPolitician: z.array(
+    z.object({
+      politicianId: z.string(),
+      fullName: z.string(),
+      slug: z.string(),
+      partyShortName: z.string().nullable(),
+      totalMentions: z.number(),
+      byVerdict: VerdictCountsSchema,
+    }),
+  ),
+  bySource: z.array(
+    z.object({
+      source: z.string(),
+      total: z.number(),
+      byVerdict: VerdictCountsSchema,
+    }),
+  ),
+});
+export type FactCheckStatsResponse = z.infer<typeof FactCheckStatsResponseSchema>;
+
+const FactCheckBaseSchema = z.object({
+  id: z.string(),
+  claimText: z.string(),
+  claimant: z.string().nullable(),
+  title: z.string(),
+  verdict: z.string(),
+  verdictRating: z.string(),
+  source: z.string(),
+  sourceUrl: z.string(),
+  publishedAt: z.string(),
+  claimDate: z.string().nullable(),
+});
+export type FactCheck = z.infer<typeof FactCheckBaseSchema>;
+
+export const FactCheckItemSchema = FactCheckBaseSchema.extend({
+  politicians: z.array(
+    z.object({
+      id: z.string(),
+      slug: z.string(),
+      fullName: z.string(),
+      currentParty: PartyRefSchema.nullable(),
+    }),
+  ),
+});
+export type FactCheckItem = z.infer<typeof FactCheckItemSchema>;
+
+export const FactCheckListResponseSchema = paginated(FactCheckItemSchema);
+export type FactCheckListResponse = z.infer<typeof FactCheckListResponseSchema>;
+
+export const PoliticianFactChecksResponseSchema = z.object({
+  politician: PoliticianSummarySchema,
+  factchecks: z.array(FactCheckBaseSchema),
+  total: z.number(),
+  pagination: PaginationSchema,
+});
+export type PoliticianFactChecksResponse = z.infer<typeof PoliticianFactChecksResponseSchema>;
+
+// ─── Parties ───────────────────────────────────────────────────
+
+export const PartyListItemSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  name: z.string(),
+  shortName: z.string(),
+  color: z.string(),
+  politicalPosition: z.string().nullable(),
+  logoUrl: z.string().nullable(),
+  foundedDate: z.string().nullable(),
+  dissolvedDate: z.string().nullable(),
+  website: z.string().nullable(),
+  memberCount: z.number(),
+});
+export type PartyListItem = z.infer<typeof PartyListItemSchema>;
+
+export const PartyListResponseSchema = paginated(PartyListItemSchema);
+export type PartyListResponse = z.infer<typeof PartyListResponseSchema>;
+
+const PartyLinkSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  name: z.string(),
+  shortName: z.string(),
+});
+
+export const PartyMemberSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  fullName: z.string(),
+  photoUrl: z.string().nullable(),
+  currentMandate: z.object({ type: z.string(), title: z.string() }).nullable(),
+  affairsCount: z.number(),
+});
+export type PartyMember = z.infer<typeof PartyMemberSchema>;
+
+export const PartyDetailResponseSchema = PartyListItemSchema.extend({
+  description: z.string().nullable(),
+  ideology: z.string().nullable(),
+  members: z.array(PartyMemberSchema),
+  externalIds: z.array(
+    z.object({
+      source: z.string(),
+      externalId: z.string(),
+      url: z.string().nullable(),
+    }),
+  ),
+  predecessor: PartyLinkSchema.nullable(),
+  successors: z.array(PartyLinkSchema),
+});
+export type PartyDetailResponse = z.infer<typeof PartyDetailResponseSchema>;
+
+// ─── Elections ─────────────────────────────────────────────────
+
+const ElectionBaseSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  type: z.string(),
+  title: z.string(),
+  shortTitle: z.string().nullable(),
+  status: z.string(),
+  scope: z.string().nullable(),
+  suffrage: z.string().nullable(),
+  round1Date: z.string().nullable(),
+  round2Date: z.string().nullable(),
+  dateConfirmed: z.boolean(),
+  totalSeats: z.number().nullable(),
+});
+
+export const ElectionListItemSchema = ElectionBaseSchema.extend({
+  candidacyCount: z.number(),
+});
+export type ElectionListItem = z.infer<typeof ElectionListItemSchema>;
+
+export const ElectionListResponseSchema = paginated(ElectionListItemSchema);
+export type ElectionListResponse = z.infer<typeof ElectionListResponseSchema>;
+
+export const CandidacySchema = z.object({
+  id: z.string(),
+  candidateName: z.string(),
+  partyLabel: z.string().nullable(),
+  constituencyName: z.string().nullable(),
+  isElected: z.boolean().nullable(),
+  round1Votes: z.number().nullable(),
+  round1Pct: z.number().nullable(),
+  round2Votes: z.number().nullable(),
+  round2Pct: z.number().nullable(),
+  politician: z
+    .object({
+      id: z.string(),
+      slug: z.string(),
+      fullName: z.string(),
+      photoUrl: z.string().nullable(),
+    })
+    .nullable(),
+  party: z
+    .object({
+      id: z.string(),
+      slug: z.string(),
+      shortName: z.string(),
+      color: z.string(),
+    })
+    .nullable(),
+});
+export type Candidacy = z.infer<typeof CandidacySchema>;
+
+export const RoundSchema = z.object({
+  round: z.number(),
+  date: z.string().nullable(),
+  registeredVoters: z.number().nullable(),
+  actualVoters: z.number().nullable(),
+  participationRate: z.number().nullable(),
+  blankVotes: z.number().nullable(),
+  nullVotes: z.number().nullable(),
+});
+export type Round = z.infer<typeof RoundSchema>;
+
+export const ElectionDetailResponseSchema = ElectionBaseSchema.extend({
+  candidacies: z.array(CandidacySchema),
+  rounds: z.array(RoundSchema),
+});
+export type ElectionDetailResponse = z.infer<typeof ElectionDetailResponseSchema>;
+
+// ─── Mandates ──────────────────────────────────────────────────
+
+export const MandateItemSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  title: z.string(),
+  institution: z.string().nullable(),
+  role: z.string().nullable(),
+  constituency: z.string().nullable(),
+  departmentCode: z.string().nullable(),
+  startDate: z.string(),
+  endDate: z.string().nullable(),
+  isCurrent: z.boolean(),
+  politician: z.object({
+    id: z.string(),
+    slug: z.string(),
+    fullName: z.string(),
+    photoUrl: z.string().nullable(),
+  }),
+});
+export type MandateItem = z.infer<typeof MandateItemSchema>;
+
+export const MandateListResponseSchema = paginated(MandateItemSchema);
+export type MandateListResponse = z.infer<typeof MandateListResponseSchema>;
+
+// ─── Departments ───────────────────────────────────────────────
+
+export const PartyCountSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  shortName: z.string(),
+  color: z.string().nullable(),
+  count: z.number(),
+});
+export type PartyCount = z.infer<typeof PartyCountSchema>;
+
+export const DepartmentStatsSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  region: z.string(),
+  totalElus: z.number(),
+  deputes: z.number(),
+  senateurs: z.number(),
+  dominantParty: PartyCountSchema.nullable(),
+  parties: z.array(PartyCountSchema),
+});
+export type DepartmentStats = z.infer<typeof DepartmentStatsSchema>;
+
+export const DepartmentStatsResponseSchema = z.object({
+  departments: z.array(DepartmentStatsSchema),
+  stats: z.object({
+    totalDepartments: z.number(),
+    totalElus: z.number(),
+    totalDeputes: z.number(),
+    totalSenateurs: z.number(),
+  }),
+  filter: z.string(),
+});
+export type DepartmentStatsResponse = z.infer<typeof DepartmentStatsResponseSchema>;
+
+export const DeputyItemSchema = z.object({
+  id: z.string(),
+  slug: z.string(),
+  fullName: z.string(),
+  photoUrl: z.string().nullable(),
+  constituency: z.string().nullable(),
+  party: z
+    .object({
+      name: z.string(),
+      shortName: z.string(),
+      color: z.string().nullable(),
+    })
+    .nullable(),
+});
+export type DeputyItem = z.infer<typeof DeputyItemSchema>;
+
+export const DeputiesResponseSchema = z.array(DeputyItemSchema);
+
+// ─── Validation ────────────────────────────────────────────────
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/** Placeholder for a missing or malformed value, by expected type. */
+function fallbackFor(schema: z.ZodTypeAny): unknown {
+  if (schema instanceof z.ZodNullable || schema instanceof z.ZodOptional) {
+    return schema instanceof z.ZodNullable ? null : undefined;
+  }
+  if (schema instanceof z.ZodString) return "—";
+  if (schema instanceof z.ZodNumber) return 0;
+  if (schema instanceof z.ZodBoolean) return false;
+  if (schema instanceof z.ZodArray) return [];
+  if (schema instanceof z.ZodRecord) return {};
+  if (schema instanceof z.ZodObject) return repair(schema, {});
+  return undefined;
+}
+
+/** Rebuild `value` along `schema`, replacing every invalid leaf with its fallback. */
+function repair(schema: z.ZodTypeAny, value: unknown): unknown {
+  if (schema.safeParse(value).success) return value;
+
+  if (schema instanceof z.ZodNullable || schema instanceof z.ZodOptional) {
+    if (value === null || value === undefined) return fallbackFor(schema);
+    return repair(schema.unwrap(), value);
+  }
+  if (schema instanceof z.ZodObject && typeof value === "object" && value !== null && !Array.isArray(value)) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const out: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    for (const [key, field] of Object.entries(shape)) {
+      out[key] = repair(field, out[key]);
+    }
+    return out;
+  }
+  if (schema instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map((item) => repair(schema.element, item));
+  }
+  return fallbackFor(schema);
+}
+
+/**
+ * Validate `value` against `schema`. Invalid fields are replaced by neutral
+ * fallbacks and reported in `issues`; `rootMismatch` is set when the payload
+ * does not even have the expected top-level shape.
+ */
+export function parseResponse<S extends z.ZodTypeAny>(
+  schema: S,
+  value: unknown,
+): { data: z.infer<S>; issues: SchemaIssue[]; rootMismatch: boolean } {
+  const result = schema.safeParse(value);
+  if (result.success) {
+    return { data: result.data, issues: [], rootMismatch: false };
+  }
+
+  const issues = result.error.issues.map((issue) => ({
+    path: issue.path.join(".") || "(racine)",
+    message: issue.message,
+  }));
+  const rootMismatch = result.error.issues.some((issue) => issue.path.length === 0);
+
+  const repaired = repair(schema, value);
+  const reparsed = schema.safeParse(repaired);
+  return { data: reparsed.success ? reparsed.data : repaired, issues, rootMismatch };
+}
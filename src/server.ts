@@ -1,4 +1,5 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, type RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
 import { registerPoliticianTools } from "./tools/politicians.js";
 import { registerAffairTools } from "./tools/affairs.js";
 import { registerVoteTools } from "./tools/votes.js";
@@ -8,22 +9,133 @@ import { registerPartyTools } from "./tools/parties.js";
 import { registerElectionTools } from "./tools/elections.js";
 import { registerMandateTools } from "./tools/mandates.js";
 import { registerDepartmentTools } from "./tools/departments.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { traceToolHandlers } from "./tracing.js";
+import {
+  ConfigError,
+  TOOL_GROUPS,
+  getConfig,
+  type ServerConfig,
+  type ToolFilter,
+  type ToolGroup,
+  type ToolsConfig,
+} from "./config.js";
+import { langInputs, withLanguage, type Language } from "./i18n.js";
 
-export function createServer(): McpServer {
+const GROUP_REGISTRARS: Record<ToolGroup, (server: McpServer, tools: ToolFilter) => void> = {
+  politicians: registerPoliticianTools,
+  affairs: registerAffairTools,
+  votes: registerVoteTools,
+  legislation: registerLegislationTools,
+  factchecks: registerFactCheckTools,
+  parties: registerPartyTools,
+  elections: registerElectionTools,
+  mandates: registerMandateTools,
+  departments: registerDepartmentTools,
+};
+
+interface ToolDefinition {
+  inputSchema?: z.ZodRawShape;
+}
+
+type ToolCallback = (args: Record<string, unknown>, extra: unknown) => unknown;
+
+/** Replace the default of the tool's `limit` argument, within the bounds the tool accepts. */
+function withDefaultLimit<T extends ToolDefinition>(name: string, definition: T, limit: number | undefined): T {
+  if (limit === undefined) return definition;
+  const schema = definition.inputSchema?.limit;
+  if (!(schema instanceof z.ZodDefault)) {
+    throw new ConfigError(`tools.limits.${name} : ce tool n'a pas d'argument limit`);
+  }
+  const bounds = schema.removeDefault();
+  if (!bounds.safeParse(limit).success) {
+    throw new ConfigError(`tools.limits.${name} : ${limit} est hors des bornes acceptées par le tool`);
+  }
+  const withDefault = bounds.default(limit);
+  return {
+    ...definition,
+    inputSchema: { ...definition.inputSchema, limit: schema.description ? withDefault.describe(schema.description) : withDefault },
+  };
+}
+
+/**
+ * Add the `lang` argument to a tool and run its handler in the requested
+ * language, or the server's (see i18n.ts). The handler does not see `lang`.
+ */
+function withLang<T extends ToolDefinition>(definition: T, cb: ToolCallback, language: Language): [T, ToolCallback] {
+  const localized: ToolCallback = ({ lang, ...args }, extra) =>
+    withLanguage((lang as Language | undefined) ?? language, () => cb(args, extra));
+  return [{ ...definition, inputSchema: { ...definition.inputSchema, ...langInputs } }, localized];
+}
+
+/** Whether `group` is enabled, i.e. listed in `groups` and not disabled. */
+function groupEnabled({ groups, disabled }: ToolsConfig, group: ToolGroup): boolean {
+  return groups.includes(group) && !disabled.includes(group);
+}
+
+/**
+ * Register every tool group, then remove the groups and tools the
+ * configuration disables. All of them are registered first so that an
+ * unknown name in the configuration is reported rather than ignored.
+ * Every tool gets the `lang` argument on the way. Returns the filter of the
+ * tools left, which registrars also receive to leave out references to the
+ * others (it is only meaningful once this function has returned).
+ */
+function registerTools(server: McpServer, tools: ToolsConfig, language: Language): ToolFilter {
+  const { disabled, limits } = tools;
+  const registered = new Map<string, { group: ToolGroup; tool: RegisteredTool }>();
+  const exposed = new Set<string>();
+  const isExposed: ToolFilter = (name) => exposed.has(name);
+  const register = server.registerTool.bind(server) as (name: string, definition: unknown, cb: unknown) => RegisteredTool;
+  let group: ToolGroup;
+
+  server.registerTool = ((name: string, definition: ToolDefinition, cb: ToolCallback) => {
+    const tool = register(name, ...withLang(withDefaultLimit(name, definition, limits[name]), cb, language));
+    registered.set(name, { group, tool });
+    return tool;
+  }) as McpServer["registerTool"];
+
+  for (group of TOOL_GROUPS) {
+    GROUP_REGISTRARS[group](server, isExposed);
+  }
+
+  const isGroup = (name: string) => (TOOL_GROUPS as readonly string[]).includes(name);
+  const unknown = [...disabled.filter((name) => !isGroup(name)), ...Object.keys(limits)].filter((name) => !registered.has(name));
+  if (unknown.length > 0) {
+    throw new ConfigError(`Tool(s) inconnu(s) dans la configuration : ${unknown.join(", ")}`);
+  }
+
+  for (const [name, entry] of registered) {
+    if (!groupEnabled(tools, entry.group) || disabled.includes(name)) {
+      entry.tool.remove();
+    } else {
+      exposed.add(name);
+    }
+  }
+  return isExposed;
+}
+
+/** Tools left exposed on each server built by `createServer`. */
+const exposedTools = new WeakMap<McpServer, ToolFilter>();
+
+/** Whether a tool name is exposed on `server` (false for any name on a server not built here). */
+export function toolFilter(server: McpServer): ToolFilter {
+  return exposedTools.get(server) ?? (() => false);
+}
+
+export function createServer(config: ServerConfig = getConfig()): McpServer {
   const server = new McpServer({
     name: "poligraph",
     version: "2.0.0",
   });
 
-  registerPoliticianTools(server);
-  registerAffairTools(server);
-  registerVoteTools(server);
-  registerLegislationTools(server);
-  registerFactCheckTools(server);
-  registerPartyTools(server);
-  registerElectionTools(server);
-  registerMandateTools(server);
-  registerDepartmentTools(server);
+  traceToolHandlers(server);
+  const tools = registerTools(server, config.tools, config.language);
+  exposedTools.set(server, tools);
+
+  registerResources(server, { affairs: groupEnabled(config.tools, "affairs"), tools, language: config.language });
+  registerPrompts(server, tools);
 
   return server;
 }
@@ -0,0 +1,137 @@
+/**
+ * Stateful Streamable HTTP sessions.
+ *
+ * In stateful mode, an `initialize` request creates a server and transport
+ * pair identified by a generated `Mcp-Session-Id`. Later POSTs, GET (SSE
+ * stream for server-to-client messages) and DELETE (termination) requests
+ * are routed to that pair. Sessions idle for longer than `idleTimeoutMs` are
+ * closed by a periodic sweep. A session belongs to the API key that opened
+ * it: other clients get the same 404 as for an unknown session. Beyond
+ * `maxSessions` (sessions being opened included), `initialize` gets a 503;
+ * a pair whose `initialize` fails is closed at once.
+ *
+ * The store lives in process memory: it suits the long-running Express
+ * server, not serverless functions, which stay stateless (see api/mcp.ts).
+ */
+
+import { randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { sendRpcError } from "./auth.js";
+
+export interface SessionOptions {
+  createServer: () => McpServer;
+  idleTimeoutMs: number;
+  /** Open sessions allowed at once; 0 or unset for no limit. */
+  maxSessions?: number;
+  /** Called once the server is connected to a new session's transport (e.g. to attach logging). */
+  onConnect?: (transport: StreamableHTTPServerTransport) => void;
+  /** Interval between idle sweeps; 0 disables the timer (call `sweep` yourself). */
+  sweepIntervalMs?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastSeen: number;
+  /** API key id of the client that opened the session; undefined without authentication. */
+  clientId: string | undefined;
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+  /** `initialize` requests being handled, whose session is not stored yet. */
+  private opening = 0;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(private options: SessionOptions) {
+    const interval = options.sweepIntervalMs ?? Math.min(options.idleTimeoutMs, 60_000);
+    if (interval > 0) {
+      this.timer = setInterval(() => this.sweep(), interval);
+      this.timer.unref();
+    }
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /** Route a request to its session, or open one on `initialize`. `body` is the parsed JSON body, if any. */
+  async handleRequest(req: IncomingMessage & { auth?: AuthInfo }, res: ServerResponse, body?: unknown): Promise<void> {
+    const sessionId = headerValue(req, "mcp-session-id");
+    const clientId = req.auth?.clientId;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.clientId !== clientId) {
+        sendRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      session.lastSeen = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendRpcError(res, 400, -32000, "Bad Request: No valid session ID provided");
+      return;
+    }
+
+    const { maxSessions = 0 } = this.options;
+    if (maxSessions > 0 && this.sessions.size + this.opening >= maxSessions) {
+      sendRpcError(res, 503, -32000, "Too many open sessions", { "Retry-After": "60" });
+      return;
+    }
+
+    const server = this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { transport, lastSeen: Date.now(), clientId });
+      },
+    });
+    // Closing the transport also closes the server it is connected to
+    transport.onclose = () => {
+      if (transport.sessionId) this.sessions.delete(transport.sessionId);
+    };
+
+    this.opening++;
+    try {
+      await server.connect(transport);
+      this.options.onConnect?.(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      this.opening--;
+      // Without a stored session, nothing would ever close the pair
+      if (!transport.sessionId || !this.sessions.has(transport.sessionId)) {
+        transport.close().catch(() => {});
+      }
+    }
+  }
+
+  /** Close sessions idle since before `now - idleTimeoutMs`. Returns the number closed. */
+  sweep(now = Date.now()): number {
+    let closed = 0;
+    for (const [id, session] of this.sessions) {
+      if (now - session.lastSeen < this.options.idleTimeoutMs) continue;
+      this.sessions.delete(id);
+      session.transport.close().catch(() => {});
+      closed++;
+    }
+    return closed;
+  }
+
+  async closeAll(): Promise<void> {
+    if (this.timer) clearInterval(this.timer);
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map((s) => s.transport.close().catch(() => {})));
+  }
+}
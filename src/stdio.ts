@@ -0,0 +1,18 @@
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { createServer } from "./server.js";
+import { RequestLogger, loadLoggerOptions } from "./logging.js";
+import { initTracing, instrumentTransport } from "./tracing.js";
+
+/** Serve MCP over stdin/stdout. The configuration must be loaded first (see config.ts). */
+export async function serveStdio(): Promise<void> {
+  await initTracing();
+
+  const server = createServer();
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  // Off by default on stdio: stderr usually ends up in the client's own logs
+  new RequestLogger(loadLoggerOptions(process.env, false)).instrument(transport);
+  instrumentTransport(transport);
+
+  console.error("Poligraph MCP server running on stdio");
+}
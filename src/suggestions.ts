@@ -0,0 +1,103 @@
+/**
+ * "Did you mean" lookups used when a slug-based tool gets a 404.
+ *
+ * Candidates come from the search endpoints (or the election list) and are
+ * ranked by edit distance to the requested slug.
+ */
+
+import { fetchAPI } from "./api.js";
+import type { Suggestion } from "./errors.js";
+import {
+  ElectionListResponseSchema,
+  PartyListResponseSchema,
+  PoliticianListResponseSchema,
+} from "./schemas.js";
+
+const MAX_SUGGESTIONS = 5;
+
+/** Lowercase, strip accents and collapse everything but letters and digits to single spaces. */
+export function normalize(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+/** Similarity in [0, 1] between two strings, after normalization. */
+export function similarity(a: string, b: string): number {
+  const x = normalize(a);
+  const y = normalize(b);
+  const longest = Math.max(x.length, y.length);
+  return longest === 0 ? 1 : 1 - levenshtein(x, y) / longest;
+}
+
+/**
+ * Search terms derived from a slug: the full phrase, then a prefix of its
+ * longest word, which still matches when the typo is near the end.
+ */
+function searchTerms(slug: string): string[] {
+  const phrase = normalize(slug);
+  const longest = phrase.split(" ").reduce((a, b) => (b.length > a.length ? b : a), "");
+  const prefix = longest.slice(0, Math.max(3, Math.ceil(longest.length * 0.6)));
+  return prefix.length >= 3 && prefix !== phrase ? [phrase, prefix] : [phrase];
+}
+
+function rank<T>(slug: string, candidates: T[], key: (c: T) => string, toSuggestion: (c: T) => Suggestion): Suggestion[] {
+  return candidates
+    .map((c) => ({ c, score: similarity(slug, key(c)) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ c }) => toSuggestion(c));
+}
+
+export async function suggestPoliticians({ slug }: { slug: string }): Promise<Suggestion[]> {
+  for (const term of searchTerms(slug)) {
+    const data = await fetchAPI("/api/politiques", PoliticianListResponseSchema, { search: term, limit: 10 });
+    if (data.data.length > 0) {
+      return rank(slug, data.data, (p) => p.slug, (p) => ({
+        slug: p.slug,
+        label: p.currentParty ? `${p.fullName} (${p.currentParty.shortName})` : p.fullName,
+      }));
+    }
+  }
+  return [];
+}
+
+export async function suggestParties({ slug }: { slug: string }): Promise<Suggestion[]> {
+  for (const term of searchTerms(slug)) {
+    const data = await fetchAPI("/api/partis", PartyListResponseSchema, { search: term, limit: 10 });
+    if (data.data.length > 0) {
+      return rank(slug, data.data, (p) => p.slug, (p) => ({
+        slug: p.slug,
+        label: `${p.name} (${p.shortName})`,
+      }));
+    }
+  }
+  return [];
+}
+
+export async function suggestElections({ slug }: { slug: string }): Promise<Suggestion[]> {
+  // Few enough elections to rank the whole list
+  const data = await fetchAPI("/api/elections", ElectionListResponseSchema, { limit: 100 });
+  return rank(slug, data.data, (e) => e.slug, (e) => ({ slug: e.slug, label: e.title }));
+}
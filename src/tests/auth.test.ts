@@ -0,0 +1,172 @@
+/**
+ * Auth tests — API keys, quotas and rate limits on the HTTP transport
+ *
+ * The HTTP tests use a minimal MCP server with a single tool that echoes the
+ * caller's identity, so the Poligraph API is never called.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { createServer as createHttpServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { ApiKeyAuth, QUOTA_EXCEEDED_CODE, UNAUTHORIZED_CODE, authorizeRequest, loadApiKeys, type ApiKey } from "../auth.js";
+
+const NEWSROOM: ApiKey = { id: "redaction", token: "tok-redaction-0123456789", dailyQuota: 1000, perMinute: 5 };
+const INTERN: ApiKey = { id: "stagiaire", token: "tok-stagiaire-0123456789", dailyQuota: 2, perMinute: 100 };
+
+describe("ApiKeyAuth", () => {
+  it("rejects missing and unknown keys", () => {
+    const auth = new ApiKeyAuth([NEWSROOM]);
+    assert.equal(auth.check(undefined).ok, false);
+    assert.equal(auth.check("Bearer nope").ok, false);
+    assert.equal(auth.check(`Basic ${NEWSROOM.token}`).ok, false);
+
+    const ok = auth.check(`Bearer ${NEWSROOM.token}`);
+    assert.ok(ok.ok);
+    assert.equal(ok.key.id, "redaction");
+  });
+
+  it("enforces the per-minute rate limit", () => {
+    const auth = new ApiKeyAuth([NEWSROOM]);
+    const now = Date.parse("2026-03-01T10:00:10Z");
+    for (let i = 0; i < NEWSROOM.perMinute; i++) {
+      assert.ok(auth.check(`Bearer ${NEWSROOM.token}`, now).ok);
+    }
+
+    const limited = auth.check(`Bearer ${NEWSROOM.token}`, now);
+    assert.ok(!limited.ok);
+    assert.equal(limited.status, 429);
+    assert.equal(limited.retryAfterMs, 50_000);
+
+    assert.ok(auth.check(`Bearer ${NEWSROOM.token}`, now + 50_000).ok, "a new minute resets the window");
+  });
+
+  it("enforces the daily quota and resets it at UTC midnight", () => {
+    const auth = new ApiKeyAuth([INTERN]);
+    const now = Date.parse("2026-03-01T23:00:00Z");
+    assert.ok(auth.check(`Bearer ${INTERN.token}`, now).ok);
+    assert.ok(auth.check(`Bearer ${INTERN.token}`, now).ok);
+
+    const exhausted = auth.check(`Bearer ${INTERN.token}`, now);
+    assert.ok(!exhausted.ok);
+    assert.equal(exhausted.status, 429);
+    assert.equal(exhausted.retryAfterMs, 3_600_000);
+
+    assert.ok(auth.check(`Bearer ${INTERN.token}`, now + 3_600_000).ok);
+    assert.deepEqual(auth.usage("stagiaire"), { id: "stagiaire", day: "2026-03-02", today: 1, total: 3, rejected: 1 });
+  });
+
+  it("loads keys from a file and from the environment", () => {
+    const dir = mkdtempSync(join(tmpdir(), "poligraph-auth-"));
+    const file = join(dir, "keys.json");
+    writeFileSync(file, JSON.stringify({ keys: [{ id: "redaction", token: NEWSROOM.token, perMinute: 10 }] }));
+
+    const keys = loadApiKeys({
+      POLIGRAPH_API_KEYS_FILE: file,
+      POLIGRAPH_API_KEYS: `stagiaire:${INTERN.token}`,
+      POLIGRAPH_API_KEY_DAILY_QUOTA: "50",
+    });
+    assert.deepEqual(keys, [
+      { id: "redaction", token: NEWSROOM.token, dailyQuota: 50, perMinute: 10 },
+      { id: "stagiaire", token: INTERN.token, dailyQuota: 50, perMinute: 60 },
+    ]);
+    assert.deepEqual(loadApiKeys({}), []);
+    assert.throws(() => loadApiKeys({ POLIGRAPH_API_KEYS: "court:abc" }), "tokens shorter than 16 characters are refused");
+  });
+
+  it("refuses entries without an id, without echoing the token", () => {
+    for (const value of ["s3cr3t-token-without-id-xyz", ":s3cr3t-token-without-id-xyz", `stagiaire:${INTERN.token},s3cr3t-token-without-id-xyz`]) {
+      assert.throws(
+        () => loadApiKeys({ POLIGRAPH_API_KEYS: value }),
+        (e: Error) => /not an id:token pair/.test(e.message) && !e.message.includes("s3cr3t"),
+      );
+    }
+  });
+});
+
+describe("authorizeRequest over HTTP", () => {
+  const auth = new ApiKeyAuth([NEWSROOM, INTERN]);
+  let http: Server;
+  let url: URL;
+
+  function whoamiServer(): McpServer {
+    const server = new McpServer({ name: "auth-test", version: "1.0.0" });
+    server.registerTool("whoami", { description: "Identité de l'appelant" }, async (extra) => ({
+      content: [{ type: "text", text: extra.authInfo?.clientId ?? "anonyme" }],
+    }));
+    return server;
+  }
+
+  before(async () => {
+    http = createHttpServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString()) : undefined;
+      if (!authorizeRequest(auth, req, res)) return;
+
+      const server = whoamiServer();
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+      res.on("close", () => {
+        transport.close().catch(() => {});
+      });
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    });
+    await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+    url = new URL(`http://127.0.0.1:${(http.address() as AddressInfo).port}/mcp`);
+  });
+
+  after(async () => {
+    http.closeAllConnections();
+    await new Promise((resolve) => http.close(resolve));
+  });
+
+  function post(headers: Record<string, string>): Promise<Response> {
+    return fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "ping" }),
+    });
+  }
+
+  it("answers 401 with a JSON-RPC error without a valid key", async () => {
+    const res = await post({});
+    assert.equal(res.status, 401);
+    assert.match(res.headers.get("www-authenticate") ?? "", /^Bearer/);
+    const body = await res.json();
+    assert.equal(body.jsonrpc, "2.0");
+    assert.equal(body.error.code, UNAUTHORIZED_CODE);
+  });
+
+  it("passes the key identity to tool handlers", async () => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit: { headers: { Authorization: `Bearer ${NEWSROOM.token}` } },
+    });
+    await client.connect(transport);
+
+    const result = await client.callTool({ name: "whoami", arguments: {} });
+    assert.deepEqual(result.content, [{ type: "text", text: "redaction" }]);
+    await client.close();
+  });
+
+  it("answers 429 with Retry-After once the quota is spent", async () => {
+    let res = await post({ Authorization: `Bearer ${INTERN.token}` });
+    while (res.status === 200) res = await post({ Authorization: `Bearer ${INTERN.token}` });
+
+    assert.equal(res.status, 429);
+    assert.ok(Number(res.headers.get("retry-after")) > 0);
+    const body = await res.json();
+    assert.equal(body.error.code, QUOTA_EXCEEDED_CODE);
+    assert.equal(auth.usage("stagiaire")?.today, INTERN.dailyQuota);
+  });
+});
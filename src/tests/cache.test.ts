@@ -0,0 +1,59 @@
+/**
+ * Unit tests — ResponseCache (LRU, TTL, stale-while-revalidate)
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ResponseCache } from "../cache.js";
+
+describe("ResponseCache", () => {
+  it("serves fresh, then stale, then misses as time passes", () => {
+    const cache = new ResponseCache({ maxEntries: 10, maxBytes: 1000 });
+    cache.set("a", { ok: 1 }, 10, 100, 50, 0);
+
+    assert.deepEqual(cache.get("a", 99), { state: "fresh", value: { ok: 1 } });
+    assert.deepEqual(cache.get("a", 120), { state: "stale", value: { ok: 1 } });
+    assert.deepEqual(cache.get("a", 150), { state: "miss" });
+    assert.equal(cache.stats().entries, 0);
+  });
+
+  it("evicts the least recently used entry when over the entry limit", () => {
+    const cache = new ResponseCache({ maxEntries: 2, maxBytes: 1000 });
+    cache.set("a", 1, 1, 100, 0, 0);
+    cache.set("b", 2, 1, 100, 0, 0);
+    cache.get("a", 1);
+    cache.set("c", 3, 1, 100, 0, 0);
+
+    assert.equal(cache.get("b", 1).state, "miss");
+    assert.equal(cache.get("a", 1).state, "fresh");
+    assert.equal(cache.get("c", 1).state, "fresh");
+  });
+
+  it("enforces the byte limit and skips oversized values", () => {
+    const cache = new ResponseCache({ maxEntries: 10, maxBytes: 100 });
+    cache.set("a", "x", 60, 100, 0, 0);
+    cache.set("b", "y", 60, 100, 0, 0);
+    cache.set("huge", "z", 500, 100, 0, 0);
+
+    const stats = cache.stats();
+    assert.equal(stats.entries, 1);
+    assert.equal(stats.bytes, 60);
+    assert.equal(cache.get("b", 1).state, "fresh");
+    assert.equal(cache.get("huge", 1).state, "miss");
+  });
+
+  it("counts hits, stale hits and misses", () => {
+    const cache = new ResponseCache({ maxEntries: 10, maxBytes: 1000 });
+    cache.set("a", 1, 1, 10, 10, 0);
+    cache.get("a", 5);
+    cache.get("a", 15);
+    cache.get("b", 15);
+
+    const stats = cache.stats();
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.staleHits, 1);
+    assert.equal(stats.misses, 1);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Cancellation tests — aborting API calls and tool calls mid-flight
+ *
+ * A local HTTP server stands in for poligraph.fr and holds every request
+ * until the test answers it, so cancellation is observed on the wire.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer as createHttpServer, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { z } from "zod";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+/** Requests received by the stand-in upstream, by path and query. */
+const held = new Map<string, ServerResponse>();
+const aborted: string[] = [];
+
+const upstream = createHttpServer((req, res) => {
+  const url = req.url ?? "";
+  held.set(url, res);
+  res.on("close", () => {
+    if (!res.writableFinished) aborted.push(url);
+  });
+});
+
+await new Promise<void>((resolve) => upstream.listen(0, "127.0.0.1", resolve));
+
+process.env.POLIGRAPH_FIXTURES_MODE = "off";
+process.env.POLIGRAPH_BASE_URL = `http://127.0.0.1:${(upstream.address() as AddressInfo).port}`;
+
+// Imported after the environment is set: the API client reads it at load time
+const { createServer } = await import("../server.js");
+const { fetchAPI, ApiError, RequestCancelledError } = await import("../api.js");
+const { requestDeadline, runWithRequest } = await import("../progress.js");
+
+const OkSchema = z.object({ ok: z.boolean() });
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.ok(condition(), "condition not met in time");
+}
+
+function heldRequest(prefix: string): string | undefined {
+  return [...held.keys()].find((url) => url.startsWith(prefix));
+}
+
+after(() => {
+  upstream.closeAllConnections();
+  upstream.close();
+});
+
+describe("fetchAPI cancellation", () => {
+  it("rejects right away when the signal is already aborted", async () => {
+    await assert.rejects(
+      fetchAPI("/api/ping", OkSchema, undefined, { signal: AbortSignal.abort() }),
+      RequestCancelledError,
+    );
+    assert.equal(heldRequest("/api/ping"), undefined);
+  });
+
+  it("aborts the upstream request when the caller cancels", async () => {
+    const controller = new AbortController();
+    const call = fetchAPI("/api/slow", OkSchema, undefined, { signal: controller.signal });
+    await waitFor(() => heldRequest("/api/slow") !== undefined);
+
+    controller.abort();
+    await assert.rejects(call, RequestCancelledError);
+    await waitFor(() => aborted.includes("/api/slow"));
+  });
+
+  it("keeps a shared request alive while another caller waits for it", async () => {
+    const controller = new AbortController();
+    const first = fetchAPI("/api/shared", OkSchema, undefined, { signal: controller.signal });
+    const second = fetchAPI("/api/shared", OkSchema, undefined, { signal: new AbortController().signal });
+    await waitFor(() => heldRequest("/api/shared") !== undefined);
+
+    controller.abort();
+    await assert.rejects(first, RequestCancelledError);
+
+    held.get("/api/shared")!.end(JSON.stringify({ ok: true }));
+    assert.deepEqual(await second, { ok: true });
+    assert.ok(!aborted.includes("/api/shared"));
+  });
+});
+
+describe("request deadline", () => {
+  const extra = { signal: new AbortController().signal, sendNotification: async () => {} };
+
+  it("is set once per request and shared by all its calls", async () => {
+    await runWithRequest(extra, async () => {
+      const deadline = requestDeadline();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      assert.equal(requestDeadline(), deadline);
+    });
+  });
+
+  it("stops API calls once it has passed, without reaching the upstream", async () => {
+    await assert.rejects(
+      fetchAPI("/api/late", OkSchema, undefined, { deadline: Date.now() - 1 }),
+      (e: InstanceType<typeof ApiError>) => e instanceof ApiError && e.status === 504,
+    );
+    assert.equal(heldRequest("/api/late"), undefined);
+  });
+});
+
+describe("tool cancellation", () => {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+
+  before(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("stops fetching when the client cancels the call", async () => {
+    const controller = new AbortController();
+    const call = client.callTool({ name: "list_parties", arguments: {} }, undefined, { signal: controller.signal });
+    await waitFor(() => heldRequest("/api/partis") !== undefined);
+
+    controller.abort();
+    await assert.rejects(call);
+    await waitFor(() => aborted.some((url) => url.startsWith("/api/partis")));
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * CLI tests — `tools list` and `call` against recorded fixtures
+ *
+ * Same setup as tools.test.ts: the API client runs in replay mode and never
+ * touches the network. `serve` is left out, it does not return.
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+
+process.env.POLIGRAPH_FIXTURES_MODE = "replay";
+process.env.POLIGRAPH_FIXTURES_DIR = fileURLToPath(new URL("../../fixtures", import.meta.url));
+
+// Imported after the environment is set: the API client reads it at load time
+const { parseToolArgs, runCli } = await import("../cli.js");
+
+async function run(...argv: string[]): Promise<{ code: number | undefined; stdout: string; stderr: string }> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const code = await runCli(argv, {
+    log: (text: string) => stdout.push(text),
+    error: (text: string) => stderr.push(text),
+  });
+  return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+}
+
+describe("tools list", () => {
+  it("lists the tools of the enabled groups", async () => {
+    const { code, stdout } = await run("--groups", "votes", "tools", "list");
+
+    assert.equal(code, 0);
+    assert.match(stdout, /^list_votes\s+Lister les scrutins/m);
+    assert.doesNotMatch(stdout, /search_politicians/);
+  });
+
+  it("prints the tool definitions as JSON", async () => {
+    const { stdout } = await run("tools", "list", "--json", "--disable", "affairs");
+    const tools = JSON.parse(stdout) as Array<{ name: string; inputSchema: unknown }>;
+
+    assert.ok(tools.some((t) => t.name === "list_votes"));
+    assert.ok(!tools.some((t) => t.name === "list_affairs"));
+  });
+});
+
+describe("call", () => {
+  it("prints the markdown of a tool", async () => {
+    const { code, stdout } = await run("call", "list_votes", "--legislature", "17", "--all");
+
+    assert.equal(code, 0);
+    assert.match(stdout, /^\*\*2 scrutins\*\* \(liste complète\)/);
+  });
+
+  it("prints structuredContent with --json", async () => {
+    const { stdout } = await run("call", "list_votes", "--legislature=17", "--max-results", "1", "--json");
+    const data = JSON.parse(stdout) as { items: unknown[]; truncated?: string };
+
+    assert.equal(data.items.length, 1);
+    assert.equal(data.truncated, "maxResults");
+  });
+
+  it("reports tool errors on stderr with exit code 1", async () => {
+    const { code, stdout, stderr } = await run("call", "get_politician", "--slug", "jean-inconnu");
+
+    assert.equal(code, 1);
+    assert.equal(stdout, "");
+    assert.match(stderr, /Aucun résultat/);
+  });
+
+  it("rejects unknown tools and arguments with exit code 2", async () => {
+    assert.equal((await run("call", "list_sports")).code, 2);
+
+    const { code, stderr } = await run("call", "list_votes", "--legislatur", "17");
+    assert.equal(code, 2);
+    assert.match(stderr, /Argument inconnu pour list_votes : --legislatur/);
+  });
+});
+
+describe("parseToolArgs", () => {
+  const tool = {
+    name: "list_votes",
+    inputSchema: {
+      type: "object" as const,
+      properties: { search: { type: "string" }, legislature: { type: "integer" }, all: { type: "boolean" } },
+    },
+  };
+
+  it("types values after the input schema", () => {
+    assert.deepEqual(parseToolArgs(tool, ["--search", "budget", "--all", "--legislature", "17"]), {
+      search: "budget",
+      all: true,
+      legislature: 17,
+    });
+    assert.deepEqual(parseToolArgs(tool, ["--all=false"]), { all: false });
+  });
+
+  it("rejects values of the wrong type", () => {
+    assert.throws(() => parseToolArgs(tool, ["--legislature", "dix-septième"]), /attend un nombre/);
+    assert.throws(() => parseToolArgs(tool, ["--search"]), /attend une valeur/);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Completion tests — prompt and resource template arguments completed
+ * against recorded fixtures
+ *
+ * Same setup as tools.test.ts: the API client runs in replay mode and never
+ * touches the network.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+process.env.POLIGRAPH_FIXTURES_MODE = "replay";
+process.env.POLIGRAPH_FIXTURES_DIR = fileURLToPath(new URL("../../fixtures", import.meta.url));
+
+// Imported after the environment is set: the API client reads it at load time
+const { createServer } = await import("../server.js");
+
+const client = new Client({ name: "test-client", version: "1.0.0" });
+
+before(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+});
+
+async function completeResource(uri: string, name: string, value: string): Promise<string[]> {
+  const { completion } = await client.complete({ ref: { type: "ref/resource", uri }, argument: { name, value } });
+  return completion.values;
+}
+
+describe("completion/complete", () => {
+  it("completes politician slugs from the search endpoint", async () => {
+    const values = await completeResource("poligraph://politiques/{slug}", "slug", "Le Pen");
+    assert.deepEqual(values, ["marine-le-pen", "jean-marie-le-pen"]);
+  });
+
+  it("completes department names, prefix matches first", async () => {
+    assert.deepEqual(await completeResource("poligraph://departements/{department}", "department", "bouches"), [
+      "Bouches-du-Rhône",
+    ]);
+    assert.deepEqual(await completeResource("poligraph://departements/{department}", "department", "ca"), [
+      "Pas-de-Calais",
+    ]);
+  });
+
+  it("completes prompt arguments", async () => {
+    const { completion } = await client.complete({
+      ref: { type: "ref/prompt", name: "dossier_politicien" },
+      argument: { name: "politicien", value: "Le Pen" },
+    });
+    assert.deepEqual(completion.values, ["marine-le-pen", "jean-marie-le-pen"]);
+  });
+
+  it("returns no values when the lookup fails", async () => {
+    // No fixture is recorded for this search: the replay backend answers 404
+    const values = await completeResource("poligraph://partis/{slug}", "slug", "zzz");
+    assert.deepEqual(values, []);
+  });
+});
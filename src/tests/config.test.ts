@@ -0,0 +1,166 @@
+/**
+ * Configuration tests — config file, environment and CLI overrides, tool groups
+ *
+ * Servers are built from explicit configurations and inspected through an
+ * in-memory client; no tool is called, so the Poligraph API is never hit
+ * (the politician detail is formatted from a recorded fixture).
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CONFIG_FILE, ConfigError, loadConfig, type ServerConfig } from "../config.js";
+import { createServer } from "../server.js";
+import { PoliticianDetailSchema } from "../schemas.js";
+import { formatPoliticianDetail } from "../tools/politicians.js";
+
+const macron = JSON.parse(
+  readFileSync(new URL("../../fixtures/api/politiques/emmanuel-macron/index.json", import.meta.url), "utf8"),
+).body;
+
+function configDir(content: unknown): string {
+  const dir = mkdtempSync(join(tmpdir(), "poligraph-config-"));
+  writeFileSync(join(dir, CONFIG_FILE), typeof content === "string" ? content : JSON.stringify(content));
+  return dir;
+}
+
+function withTools(tools: Partial<ServerConfig["tools"]>): ServerConfig {
+  const base = loadConfig({ env: {}, cwd: tmpdir() });
+  return { ...base, tools: { ...base.tools, ...tools } };
+}
+
+async function connect(config: ServerConfig): Promise<Client> {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer(config).connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+describe("loadConfig", () => {
+  it("uses the defaults without a file", () => {
+    const config = loadConfig({ env: {}, cwd: tmpdir() });
+    assert.equal(config.baseUrl, "https://poligraph.fr");
+    assert.equal(config.tools.groups.length, 9);
+    assert.deepEqual(config.cache, { enabled: true, maxEntries: 500, maxBytes: 50 * 1024 * 1024 });
+  });
+
+  it("lets the environment override the file, and the command line override both", () => {
+    const cwd = configDir({
+      baseUrl: "https://staging.poligraph.fr",
+      tools: { groups: ["politicians", "factchecks"], limits: { list_factchecks: 50 } },
+      cache: { maxEntries: 100 },
+    });
+
+    const fromEnv = loadConfig({ cwd, env: { POLIGRAPH_BASE_URL: "http://localhost:3000", POLIGRAPH_CACHE: "off" } });
+    assert.equal(fromEnv.baseUrl, "http://localhost:3000");
+    assert.deepEqual(fromEnv.tools.groups, ["politicians", "factchecks"]);
+    assert.deepEqual(fromEnv.tools.limits, { list_factchecks: 50 });
+    assert.deepEqual(fromEnv.cache, { enabled: false, maxEntries: 100, maxBytes: 50 * 1024 * 1024 });
+
+    const fromCli = loadConfig({
+      cwd,
+      env: { POLIGRAPH_TOOL_GROUPS: "votes" },
+      argv: ["--groups", "affairs,votes", "--disable", "get_vote_stats", "--limit", "list_votes=10"],
+    });
+    assert.deepEqual(fromCli.tools.groups, ["affairs", "votes"]);
+    assert.deepEqual(fromCli.tools.disabled, ["get_vote_stats"]);
+    assert.deepEqual(fromCli.tools.limits, { list_factchecks: 50, list_votes: 10 });
+  });
+
+  it("reads the file named by --config", () => {
+    const dir = configDir({ language: "fr" });
+    const config = loadConfig({ env: {}, cwd: tmpdir(), argv: ["--config", join(dir, CONFIG_FILE)] });
+    assert.equal(config.language, "fr");
+
+    assert.throws(() => loadConfig({ env: {}, argv: ["--config", join(dir, "absent.json")] }), /introuvable/);
+  });
+
+  it("reports invalid fields, unknown keys and options", () => {
+    assert.throws(
+      () => loadConfig({ env: {}, cwd: configDir({ tools: { groups: ["sports"] }, cache: { size: 1 } }) }),
+      (e: unknown) => e instanceof ConfigError && /tools\.groups\.0/.test(e.message) && /cache/.test(e.message),
+    );
+    assert.throws(() => loadConfig({ env: {}, cwd: configDir("{ not json") }), ConfigError);
+    assert.throws(() => loadConfig({ env: { POLIGRAPH_TOOL_LIMITS: "list_votes" }, cwd: tmpdir() }), /tool=nombre/);
+    assert.throws(() => loadConfig({ env: {}, cwd: tmpdir(), argv: ["--verbose"] }), ConfigError);
+  });
+});
+
+describe("createServer with a configuration", () => {
+  it("registers only the enabled groups", async () => {
+    const client = await connect(withTools({ groups: ["politicians", "factchecks"] }));
+    const { tools } = await client.listTools();
+    const names = tools.map((t) => t.name);
+
+    assert.ok(names.includes("search_politicians"));
+    assert.ok(names.includes("list_factchecks"));
+    assert.ok(!names.includes("list_affairs"));
+    assert.ok(!names.includes("list_votes"));
+    await client.close();
+  });
+
+  it("hides a disabled group entirely, its resource template included", async () => {
+    const client = await connect(withTools({ disabled: ["affairs", "get_vote_stats"] }));
+    const { tools } = await client.listTools();
+    const names = tools.map((t) => t.name);
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    assert.ok(!names.some((n) => n.includes("affairs")));
+    assert.ok(!names.includes("get_vote_stats"));
+    assert.ok(names.includes("list_votes"));
+    assert.ok(!resourceTemplates.some((t) => t.uriTemplate.startsWith("poligraph://affaires/")));
+
+    const result = await client.callTool({ name: "list_affairs", arguments: {} });
+    assert.equal(result.isError, true);
+    await client.close();
+  });
+
+  it("changes the default limit of a tool", async () => {
+    const client = await connect(withTools({ limits: { list_votes: 50 } }));
+    const { tools } = await client.listTools();
+    const limit = tools.find((t) => t.name === "list_votes")?.inputSchema.properties?.limit as { default?: number };
+
+    assert.equal(limit.default, 50);
+    await client.close();
+  });
+
+  it("leaves disabled tools out of the prompts", async () => {
+    const client = await connect(withTools({ disabled: ["affairs", "get_politician_relations"] }));
+    const { messages } = await client.getPrompt({ name: "dossier_politicien", arguments: { politicien: "Marine Le Pen" } });
+    const text = messages[0].content.type === "text" ? messages[0].content.text : "";
+
+    assert.doesNotMatch(text, /get_politician_affairs|get_politician_relations/);
+    assert.match(text, /^3\. `get_politician_factchecks`/m);
+    assert.doesNotMatch(text, /^4\./m);
+    await client.close();
+
+    const votesOnly = await connect(withTools({ groups: ["votes"] }));
+    const { prompts } = await votesOnly.listPrompts();
+    assert.deepEqual(prompts.map((p) => p.name).sort(), ["bilan_parti", "comparer_elus", "dossier_politicien", "verifier_declaration"]);
+    const bilan = await votesOnly.getPrompt({ name: "bilan_parti", arguments: { parti: "RN" } });
+    assert.doesNotMatch(bilan.messages[0].content.type === "text" ? bilan.messages[0].content.text : "", /get_party|search_advanced/);
+    await votesOnly.close();
+  });
+
+  it("leaves sections pointing to disabled tools out of the politician detail", () => {
+    const data = PoliticianDetailSchema.parse({ ...macron, affairsCount: 2 });
+
+    assert.match(formatPoliticianDetail(data), /get_politician_affairs/);
+    const detail = formatPoliticianDetail(data, (name) => name !== "get_politician_affairs");
+    assert.doesNotMatch(detail, /Affaires judiciaires|get_politician_affairs/);
+    assert.match(detail, /get_politician_factchecks/);
+  });
+
+  it("rejects unknown tools and limits out of bounds", () => {
+    assert.throws(() => createServer(withTools({ disabled: ["list_sports"] })), /list_sports/);
+    assert.throws(() => createServer(withTools({ limits: { get_politician: 10 } })), /pas d'argument limit/);
+    assert.throws(() => createServer(withTools({ limits: { list_votes: 500 } })), /hors des bornes/);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Language tests — `lang` argument, server language and bilingual output
+ *
+ * Tools run against recorded fixtures, as in tools.test.ts; the same calls
+ * are made in several languages to check that only the text changes.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { tmpdir } from "node:os";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+process.env.POLIGRAPH_FIXTURES_MODE = "replay";
+process.env.POLIGRAPH_FIXTURES_DIR = fileURLToPath(new URL("../../fixtures", import.meta.url));
+
+// Imported after the environment is set: the API client reads it at load time
+const { createServer } = await import("../server.js");
+const { loadConfig } = await import("../config.js");
+
+type Result = Awaited<ReturnType<Client["callTool"]>>;
+
+async function connect(language: "fr" | "en" | "bilingual"): Promise<Client> {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer({ ...loadConfig({ env: {}, cwd: tmpdir() }), language }).connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+function textOf(result: Result): string {
+  const content = result.content as Array<{ type: string; text?: string }>;
+  return content.map((c) => c.text ?? "").join("\n");
+}
+
+describe("lang argument", () => {
+  let client: Client;
+
+  before(async () => {
+    client = await connect("fr");
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("is accepted by every tool", async () => {
+    const { tools } = await client.listTools();
+    for (const tool of tools) {
+      assert.ok(tool.inputSchema.properties?.lang, `${tool.name} should accept lang`);
+    }
+  });
+
+  it("renders labels and headings in English, with the same structured content", async () => {
+    const fr = await client.callTool({ name: "list_parties", arguments: {} });
+    const en = await client.callTool({ name: "list_parties", arguments: { lang: "en" } });
+
+    assert.match(textOf(en), /^\*\*\d+ parties\*\* \(page 1\/1\)/);
+    assert.match(textOf(en), /\*\*Rassemblement national\*\* \(RN\) — Far right/);
+    assert.doesNotMatch(textOf(en), /Extrême droite/);
+    assert.deepEqual(en.structuredContent, fr.structuredContent);
+  });
+
+  it("translates fields, dates and pagination notes", async () => {
+    const politician = textOf(await client.callTool({ name: "get_politician", arguments: { slug: "jean-dupont", lang: "en" } }));
+    assert.match(politician, /- Mayor: — \(since 3 July 2020\)/);
+
+    const mandates = await client.callTool({
+      name: "list_mandates",
+      arguments: { type: "DEPUTE", isCurrent: true, maxResults: 1, lang: "en" },
+    });
+    const { nextCursor } = mandates.structuredContent as { nextCursor: string };
+    assert.match(textOf(mandates), /^\*\*2 terms of office\*\* \(no\. 1 to 1\)/);
+    assert.ok(textOf(mandates).includes(`_1 of 2 results (maxResults). Continue with: cursor="${nextCursor}"_`));
+  });
+
+  it("translates CSV headers but not the codes", async () => {
+    const result = await client.callTool({
+      name: "list_votes",
+      arguments: { legislature: 17, all: true, format: "csv", lang: "en" },
+    });
+
+    const [header, row] = textOf(result).split("\r\n");
+    assert.match(header, /^For,Against,Abstention,Title,Vote date,Legislature,Result,/);
+    assert.match(row, /,(ADOPTED|REJECTED),/);
+  });
+
+  it("translates errors and suggestions", async () => {
+    const missing = await client.callTool({ name: "get_politician", arguments: { slug: "jean-inconnu", lang: "en" } });
+    assert.match(textOf(missing), /^No result: the requested identifier does not exist on Poligraph\./);
+
+    const ambiguous = textOf(await client.callTool({ name: "get_politician", arguments: { slug: "Le Pen", lang: "en" } }));
+    assert.match(ambiguous, /Several politicians match “Le Pen”/);
+    assert.match(ambiguous, /`marine-le-pen` — Marine Le Pen \(RN\), born 5 August 1968/);
+  });
+
+  it("gives both languages in bilingual mode", async () => {
+    const text = textOf(await client.callTool({ name: "get_politician", arguments: { slug: "emmanuel-macron", lang: "bilingual" } }));
+
+    assert.match(text, /\*\*Parti \/ Party\*\* : Renaissance \(RE\)/);
+    assert.match(text, /## Mandats \/ Terms of office/);
+  });
+});
+
+describe("server language", () => {
+  let client: Client;
+
+  before(async () => {
+    client = await connect("en");
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("is the default of every call, lang still overriding it", async () => {
+    const en = textOf(await client.callTool({ name: "get_politician", arguments: { slug: "emmanuel-macron" } }));
+    assert.match(en, /\*\*Party\*\*: Renaissance \(RE\)/);
+
+    const fr = textOf(await client.callTool({ name: "get_politician", arguments: { slug: "emmanuel-macron", lang: "fr" } }));
+    assert.match(fr, /\*\*Parti\*\* : Renaissance \(RE\)/);
+  });
+
+  it("applies to resources, presumption of innocence notice included", async () => {
+    const { contents } = await client.readResource({ uri: "poligraph://affaires/assistants-parlementaires-fn" });
+    const markdown = contents.find((c) => c.mimeType === "text/markdown") as { text: string };
+
+    assert.match(markdown.text, /\*\*Status\*\*: Appeal pending/);
+    assert.match(markdown.text, /\*\*Reminder\*\*: Anyone under formal investigation is presumed innocent/);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Logging tests — JSON-line entries, redaction, audit rotation and replay
+ *
+ * Tools run against recorded fixtures, so the Poligraph API is never called.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, readdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+process.env.POLIGRAPH_FIXTURES_MODE = "replay";
+process.env.POLIGRAPH_FIXTURES_DIR = fileURLToPath(new URL("../../fixtures", import.meta.url));
+
+// Imported after the environment is set: the API client reads it at load time
+const { createServer } = await import("../server.js");
+const { AuditLog, REDACTED, RequestLogger, hashArguments, redact } = await import("../logging.js");
+const { readAuditEntries, replay } = await import("../replay.js");
+type LogEntry = import("../logging.js").LogEntry;
+type AuditEntry = import("../logging.js").AuditEntry;
+
+describe("redaction", () => {
+  it("hashes arguments independently of key order", () => {
+    assert.equal(hashArguments({ a: 1, b: "x" }), hashArguments({ b: "x", a: 1 }));
+    assert.notEqual(hashArguments({ a: 1 }), hashArguments({ a: 2 }));
+  });
+
+  it("redacts listed argument names only inside arguments", () => {
+    const params = { name: "search_politicians", arguments: { query: "Macron", limit: 5 } };
+    assert.deepEqual(redact(params, new Set(["query"])), {
+      name: "search_politicians",
+      arguments: { query: REDACTED, limit: 5 },
+    });
+    assert.deepEqual(redact(params, new Set(["*"])), {
+      name: "search_politicians",
+      arguments: { query: REDACTED, limit: REDACTED },
+    });
+    assert.deepEqual(redact(params, new Set(["name"])), params);
+  });
+
+  it("redacts the value being completed by its argument name", () => {
+    const params = {
+      ref: { type: "ref/prompt", name: "comparer_elus" },
+      argument: { name: "elu1", value: "Macr" },
+      context: { arguments: { elu2: "Le Pen" } },
+    };
+    assert.deepEqual(redact(params, new Set(["elu1", "elu2"])), {
+      ref: { type: "ref/prompt", name: "comparer_elus" },
+      argument: { name: "elu1", value: REDACTED },
+      context: { arguments: { elu2: REDACTED } },
+    });
+    assert.deepEqual(redact(params, new Set(["*"])), {
+      ref: { type: "ref/prompt", name: "comparer_elus" },
+      argument: { name: "elu1", value: REDACTED },
+      context: { arguments: { elu2: REDACTED } },
+    });
+    assert.deepEqual((redact(params, new Set(["elu2"])) as typeof params).argument, params.argument);
+  });
+});
+
+describe("AuditLog", () => {
+  it("rotates the file once it exceeds maxBytes", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "poligraph-audit-"));
+    const audit = new AuditLog({ path: join(dir, "audit.jsonl"), maxBytes: 300, maxFiles: 2 });
+    const entry: AuditEntry = {
+      ts: new Date(0).toISOString(),
+      session: null,
+      client: null,
+      method: "tools/call",
+      target: "list_parties",
+      argsHash: null,
+      latencyMs: 1,
+      upstreamCalls: 0,
+      cacheHits: 0,
+      error: null,
+      status: null,
+      params: { name: "list_parties", arguments: {} },
+    };
+
+    for (let i = 0; i < 10; i++) audit.append(entry);
+    await audit.flush();
+
+    assert.deepEqual(readdirSync(dir).sort(), ["audit.jsonl", "audit.jsonl.1", "audit.jsonl.2"]);
+    for (const file of readdirSync(dir)) {
+      assert.ok(readFileSync(join(dir, file)).length <= 300);
+    }
+  });
+});
+
+describe("RequestLogger", () => {
+  const lines: LogEntry[] = [];
+  const auditPath = join(mkdtempSync(join(tmpdir(), "poligraph-audit-")), "audit.jsonl");
+  const audit = new AuditLog({ path: auditPath, maxBytes: 1024 * 1024, maxFiles: 1 });
+  const logger = new RequestLogger({
+    enabled: true,
+    redact: [],
+    audit,
+    write: (line) => lines.push(JSON.parse(line)),
+  });
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+
+  before(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    logger.instrument(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("logs one entry per request with upstream and cache counters", async () => {
+    lines.length = 0;
+    await client.callTool({ name: "list_parties", arguments: {} });
+    await client.callTool({ name: "list_parties", arguments: {} });
+
+    assert.equal(lines.length, 2);
+    const [first, second] = lines;
+    assert.equal(first.method, "tools/call");
+    assert.equal(first.target, "list_parties");
+    assert.equal(first.argsHash, hashArguments({}));
+    assert.equal(first.error, null);
+    assert.equal(first.upstreamCalls, 1);
+    assert.equal(second.upstreamCalls, 0);
+    assert.equal(second.cacheHits, 1);
+    assert.ok(first.latencyMs >= 0);
+  });
+
+  it("records tool error codes", async () => {
+    lines.length = 0;
+    await client.callTool({ name: "get_politician", arguments: { slug: "jean-inconnu" } });
+    assert.equal(lines.at(-1)?.error, "NOT_FOUND");
+    assert.equal(lines.at(-1)?.status, 404);
+  });
+
+  it("writes an audit file that replays with the same outcomes", async () => {
+    await audit.flush();
+    const entries = await readAuditEntries([auditPath]);
+    assert.ok(entries.length >= 3);
+    assert.ok(entries.every((e) => e.method !== "initialize"));
+
+    const outcomes = await replay(client, entries);
+    for (const { entry, error } of outcomes) {
+      assert.equal(error, entry.error, `${entry.method} ${entry.target} should replay identically`);
+    }
+  });
+});
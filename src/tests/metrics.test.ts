@@ -0,0 +1,115 @@
+/**
+ * Metrics and health tests — Prometheus rendering and the readiness probe
+ *
+ * Tools run against recorded fixtures; the readiness probe uses a stub, so
+ * the Poligraph API is never called.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+process.env.POLIGRAPH_FIXTURES_MODE = "replay";
+process.env.POLIGRAPH_FIXTURES_DIR = fileURLToPath(new URL("../../fixtures", import.meta.url));
+
+// Imported after the environment is set: the API client reads it at load time
+const { createServer, toolFilter } = await import("../server.js");
+const { RequestLogger } = await import("../logging.js");
+const { Metrics } = await import("../metrics.js");
+const { ReadinessProbe } = await import("../health.js");
+const { ApiError } = await import("../api.js");
+
+describe("Metrics", () => {
+  const server = createServer();
+  const metrics = new Metrics(toolFilter(server));
+  const logger = new RequestLogger({ enabled: false, redact: [], onEntry: (entry) => metrics.observe(entry) });
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+
+  before(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    logger.instrument(serverTransport);
+    await client.connect(clientTransport);
+
+    await client.callTool({ name: "list_parties", arguments: {} });
+    await client.callTool({ name: "list_parties", arguments: {} });
+    await client.callTool({ name: "get_politician", arguments: { slug: "jean-inconnu" } });
+    await client.listTools();
+    await client.callTool({ name: "no_such_tool", arguments: {} }).catch(() => {});
+    await client.callTool({ name: "another_made_up_tool", arguments: {} }).catch(() => {});
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("counts calls and errors per tool", () => {
+    const text = metrics.render();
+    assert.match(text, /^poligraph_tool_calls_total\{tool="list_parties"\} 2$/m);
+    assert.match(text, /^poligraph_tool_calls_total\{tool="get_politician"\} 1$/m);
+    assert.match(text, /^poligraph_tool_errors_total\{tool="get_politician",status="404"\} 1$/m);
+    assert.doesNotMatch(text, /tools\/list/);
+  });
+
+  it("folds names that are not exposed tools into tool=\"unknown\"", () => {
+    const text = metrics.render();
+    assert.match(text, /^poligraph_tool_calls_total\{tool="unknown"\} 2$/m);
+    assert.doesNotMatch(text, /no_such_tool|another_made_up_tool/);
+  });
+
+  it("renders latency histograms with cumulative buckets", () => {
+    const text = metrics.render();
+    assert.match(text, /^# TYPE poligraph_tool_duration_seconds histogram$/m);
+    assert.match(text, /^poligraph_tool_duration_seconds_bucket\{tool="list_parties",le="\+Inf"\} 2$/m);
+    assert.match(text, /^poligraph_tool_duration_seconds_count\{tool="list_parties"\} 2$/m);
+  });
+
+  it("reports cache and upstream gauges", () => {
+    const text = metrics.render();
+    assert.match(text, /^poligraph_cache_hits_total [1-9]\d*$/m);
+    assert.match(text, /^poligraph_cache_hit_ratio 0\.\d+$/m);
+    assert.match(text, /^poligraph_upstream_in_flight 0$/m);
+    assert.match(text, /^poligraph_circuit_open 0$/m);
+  });
+});
+
+describe("ReadinessProbe", () => {
+  it("caches the probe result for ttlMs", async () => {
+    let probes = 0;
+    const readiness = new ReadinessProbe({
+      ttlMs: 30_000,
+      timeoutMs: 1000,
+      probe: async () => {
+        probes++;
+      },
+    });
+
+    const now = Date.now();
+    const [a, b] = await Promise.all([readiness.check(now), readiness.check(now)]);
+    assert.equal(a.ready, true);
+    assert.equal(b, a);
+    await readiness.check(now + 10_000);
+    assert.equal(probes, 1);
+
+    await readiness.check(now + 30_000);
+    assert.equal(probes, 2);
+  });
+
+  it("reports the upstream status when the probe fails", async () => {
+    const readiness = new ReadinessProbe({
+      ttlMs: 30_000,
+      timeoutMs: 1000,
+      probe: async () => {
+        throw new ApiError(503, "API 503: down");
+      },
+    });
+
+    const result = await readiness.check();
+    assert.equal(result.ready, false);
+    assert.equal(result.error, "upstream 503");
+  });
+});
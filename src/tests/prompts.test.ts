@@ -0,0 +1,65 @@
+/**
+ * Prompt tests — prompts expand into tool-orchestrating instructions
+ *
+ * Prompts do not call the API, so no fixtures are needed.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "../server.js";
+import { PRESUMPTION_NOTICE } from "../tools/affairs.js";
+
+const client = new Client({ name: "test-client", version: "1.0.0" });
+
+before(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+});
+
+async function promptText(name: string, args: Record<string, string>): Promise<string> {
+  const { messages } = await client.getPrompt({ name, arguments: args });
+  assert.equal(messages.length, 1);
+  const content = messages[0].content;
+  assert.equal(content.type, "text");
+  return content.type === "text" ? content.text : "";
+}
+
+describe("prompts", () => {
+  it("lists the workflow prompts", async () => {
+    const { prompts } = await client.listPrompts();
+
+    assert.deepEqual(prompts.map((p) => p.name).sort(), [
+      "bilan_parti",
+      "comparer_elus",
+      "dossier_politicien",
+      "verifier_declaration",
+    ]);
+  });
+
+  it("orchestrates the politician tools and carries the presumption notice", async () => {
+    const text = await promptText("dossier_politicien", { politicien: "Marine Le Pen" });
+
+    assert.match(text, /« Marine Le Pen »/);
+    for (const tool of ["get_politician", "get_politician_votes", "get_politician_affairs", "get_politician_factchecks"]) {
+      assert.ok(text.includes(`\`${tool}\``), `should mention ${tool}`);
+    }
+    assert.ok(text.includes(PRESUMPTION_NOTICE));
+  });
+
+  it("adapts the steps to optional arguments", async () => {
+    const withTheme = await promptText("comparer_elus", { elu1: "Macron", elu2: "Mélenchon", theme: "retraites" });
+    assert.match(withTheme, /`list_votes` avec search="retraites"/);
+
+    const withoutTheme = await promptText("comparer_elus", { elu1: "Macron", elu2: "Mélenchon" });
+    assert.doesNotMatch(withoutTheme, /search=/);
+  });
+});
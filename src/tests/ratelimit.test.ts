@@ -0,0 +1,151 @@
+/**
+ * Rate limiting tests — token bucket, upstream slots and the page cap
+ *
+ * The end-to-end test runs list_parties against recorded fixtures with the
+ * cache off, so every call goes through the upstream throttle.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+process.env.POLIGRAPH_FIXTURES_MODE = "replay";
+process.env.POLIGRAPH_FIXTURES_DIR = fileURLToPath(new URL("../../fixtures", import.meta.url));
+process.env.POLIGRAPH_CACHE = "off";
+
+// Imported after the environment is set: the API client reads it at load time
+const { createServer } = await import("../server.js");
+const { ERROR_META_KEY } = await import("../errors.js");
+const { RateLimiter, TokenBucket, runAsClient } = await import("../ratelimit.js");
+
+const NO_LIMITS = { requestsPerSecond: 0, burst: 0, maxConcurrentFetches: 0, pagesPerMinute: 0 };
+
+describe("TokenBucket", () => {
+  it("allows a burst, then refills at the configured rate", () => {
+    const now = 1_000_000;
+    const bucket = new TokenBucket(3, 2, now);
+    assert.equal(bucket.take(now), 0);
+    assert.equal(bucket.take(now), 0);
+    assert.equal(bucket.take(now), 0);
+    assert.equal(bucket.take(now), 500);
+
+    assert.equal(bucket.take(now + 500), 0);
+    assert.equal(bucket.isFull(now + 500), false);
+    assert.equal(bucket.isFull(now + 2000), true);
+  });
+});
+
+describe("RateLimiter", () => {
+  it("rejects requests beyond the burst for one client only", () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, requestsPerSecond: 1, burst: 2 });
+    const now = Date.now();
+    assert.equal(limiter.admit("ip:a", now), 0);
+    assert.equal(limiter.admit("ip:a", now), 0);
+    assert.equal(limiter.admit("ip:a", now), 1000);
+    assert.equal(limiter.admit("ip:b", now), 0);
+  });
+
+  it("queues upstream fetches beyond the concurrency cap", async () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, maxConcurrentFetches: 1 });
+    const first = await limiter.acquire("ip:a", false);
+    assert.ok("release" in first);
+
+    let started = false;
+    const second = limiter.acquire("ip:a", false).then((slot) => {
+      started = true;
+      return slot;
+    });
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(started, false, "the second fetch should wait for a slot");
+
+    first.release();
+    const slot = await second;
+    assert.ok("release" in slot);
+    slot.release();
+  });
+
+  it("drops a queued fetch from the queue when it is aborted", async () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, maxConcurrentFetches: 1 });
+    const first = await limiter.acquire("ip:a", false);
+    assert.ok("release" in first);
+
+    const controller = new AbortController();
+    const aborted = limiter.acquire("ip:a", false, Date.now(), controller.signal);
+    const next = limiter.acquire("ip:a", false);
+    controller.abort(new Error("cancelled"));
+    await assert.rejects(aborted, /cancelled/);
+
+    // The slot goes to the fetch queued after the aborted one
+    first.release();
+    const slot = await next;
+    assert.ok("release" in slot);
+    slot.release();
+    assert.ok("release" in (await limiter.acquire("ip:a", false)), "no slot should stay held by the aborted fetch");
+  });
+
+  it("keys clients by API key or IP, whatever their MCP session header", async () => {
+    const { clientId } = await import("../ratelimit.js");
+    const request = (headers: Record<string, string>, auth?: { clientId: string }) =>
+      ({ headers, socket: { remoteAddress: "10.0.0.1" }, auth }) as unknown as Parameters<typeof clientId>[0];
+
+    assert.equal(clientId(request({}), false), "ip:10.0.0.1");
+    assert.equal(clientId(request({ "mcp-session-id": "s1" }), false), "ip:10.0.0.1");
+    assert.equal(clientId(request({ "mcp-session-id": "s2" }, { clientId: "ci" }), false), "key:ci");
+  });
+
+  it("caps paginated requests over a sliding minute", async () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, pagesPerMinute: 2 });
+    const now = Date.now();
+    for (let i = 0; i < 2; i++) {
+      const slot = await limiter.acquire("ip:a", true, now);
+      assert.ok("release" in slot);
+      slot.release();
+    }
+
+    assert.deepEqual(await limiter.acquire("ip:a", true, now + 1000), { retryAfterMs: 59_000 });
+    assert.ok("release" in (await limiter.acquire("ip:a", false, now + 1000)), "non-paged fetches are not counted");
+    assert.ok("release" in (await limiter.acquire("ip:a", true, now + 60_000)));
+  });
+
+  it("forgets idle clients", () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, requestsPerSecond: 1, burst: 1 });
+    const now = Date.now();
+    limiter.admit("ip:a", now);
+    assert.equal(limiter.size, 1);
+    limiter.prune(now + 1000);
+    assert.equal(limiter.size, 0);
+  });
+});
+
+describe("page cap on tool calls", () => {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+
+  before(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    await client.connect(clientTransport);
+  });
+
+  after(async () => {
+    await client.close();
+  });
+
+  it("returns a RATE_LIMITED tool error once the client is over its cap", async () => {
+    const limiter = new RateLimiter({ ...NO_LIMITS, pagesPerMinute: 1 });
+    const call = () => runAsClient(limiter, "ip:a", () => client.callTool({ name: "list_parties", arguments: {} }));
+
+    const first = await call();
+    assert.equal(first.isError, undefined);
+
+    const second = await call();
+    assert.equal(second.isError, true);
+    assert.equal((second._meta?.[ERROR_META_KEY] as { code: string }).code, "RATE_LIMITED");
+
+    const other = await runAsClient(limiter, "ip:b", () => client.callTool({ name: "list_parties", arguments: {} }));
+    assert.equal(other.isError, undefined, "other clients keep their own budget");
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests — backoff, Retry-After parsing and circuit breaker
+ *
+ * Run: npm test
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CircuitBreaker, backoffDelay, parseRetryAfter } from "../resilience.js";
+
+describe("backoffDelay", () => {
+  it("grows exponentially up to the cap", () => {
+    const max = () => 1;
+    assert.equal(backoffDelay(0, 500, 8000, max), 500);
+    assert.equal(backoffDelay(2, 500, 8000, max), 2000);
+    assert.equal(backoffDelay(10, 500, 8000, max), 8000);
+  });
+
+  it("applies full jitter", () => {
+    assert.equal(backoffDelay(3, 500, 8000, () => 0), 0);
+    assert.equal(backoffDelay(3, 500, 8000, () => 0.5), 2000);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("parses delay-seconds", () => {
+    assert.equal(parseRetryAfter("3"), 3000);
+  });
+
+  it("parses HTTP dates relative to now", () => {
+    const now = Date.parse("2026-01-01T00:00:00Z");
+    assert.equal(parseRetryAfter("Thu, 01 Jan 2026 00:00:10 GMT", now), 10_000);
+  });
+
+  it("ignores missing or invalid values", () => {
+    assert.equal(parseRetryAfter(null), undefined);
+    assert.equal(parseRetryAfter("soon"), undefined);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  it("opens after the failure threshold and fails fast", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 });
+    breaker.recordFailure(0);
+    assert.equal(breaker.stateAt(0), "closed");
+    breaker.recordFailure(0);
+    assert.equal(breaker.stateAt(0), "open");
+    assert.equal(breaker.canRequest(500), false);
+    assert.equal(breaker.retryInMs(500), 500);
+  });
+
+  it("lets a single trial through after the cooldown", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(0);
+    assert.equal(breaker.stateAt(1000), "half-open");
+    assert.equal(breaker.canRequest(1000), true);
+    assert.equal(breaker.canRequest(1000), false);
+
+    breaker.recordSuccess();
+    assert.equal(breaker.stateAt(1000), "closed");
+  });
+
+  it("reopens when the trial fails", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 });
+    for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+    assert.equal(breaker.canRequest(1000), true);
+    breaker.recordFailure(1000);
+    assert.equal(breaker.stateAt(1500), "open");
+  });
+
+  it("frees the trial slot when the trial is abandoned", () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure(0);
+    assert.equal(breaker.canRequest(1000), true);
+    breaker.recordAbandoned();
+    assert.equal(breaker.stateAt(1000), "half-open");
+    assert.equal(breaker.canRequest(1000), true);
+  });
+});
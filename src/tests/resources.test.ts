@@ -0,0 +1,109 @@
+/**
+ * Resource tests — resources and templates read against recorded fixtures
+ *
+ * Same setup as tools.test.ts: the API client runs in replay mode and never
+ * touches the network.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+
+process.env.POLIGRAPH_FIXTURES_MODE = "replay";
+process.env.POLIGRAPH_FIXTURES_DIR = fileURLToPath(new URL("../../fixtures", import.meta.url));
+
+// Imported after the environment is set: the API client reads it at load time
+const { createServer } = await import("../server.js");
+
+const client = new Client({ name: "test-client", version: "1.0.0" });
+
+before(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+});
+
+function textOf(contents: Array<{ mimeType?: string; text?: unknown }>, mimeType: string): string {
+  const content = contents.find((c) => c.mimeType === mimeType);
+  assert.ok(content, `missing ${mimeType} rendition`);
+  return String(content.text);
+}
+
+describe("resource templates", () => {
+  it("exposes politicians, parties, elections, affairs and departments", async () => {
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    assert.deepEqual(resourceTemplates.map((t) => t.uriTemplate).sort(), [
+      "poligraph://affaires/{slug}",
+      "poligraph://departements/{department}",
+      "poligraph://elections/{slug}",
+      "poligraph://partis/{slug}",
+      "poligraph://politiques/{slug}",
+    ]);
+  });
+});
+
+describe("resources/list", () => {
+  it("pages through current deputies and senators", async () => {
+    const { resources } = await client.listResources();
+
+    assert.deepEqual(
+      resources.map((r) => r.uri),
+      [
+        "poligraph://politiques/marine-le-pen",
+        "poligraph://politiques/manuel-bompard",
+        "poligraph://politiques/bruno-retailleau",
+      ],
+    );
+    assert.equal(resources[0].title, "Marine Le Pen");
+    assert.equal(resources[2].description, "Sénateur/trice — Vendée");
+  });
+
+  it("reports progress once per page when asked", async () => {
+    const updates: Array<{ progress: number; message?: string }> = [];
+    await client.listResources(undefined, { onprogress: (p) => updates.push(p) });
+
+    assert.deepEqual(
+      updates.map((u) => [u.progress, u.message]),
+      [
+        [1, "Député(e) : page 1/2"],
+        [2, "Député(e) : page 2/2"],
+        [3, "Sénateur/trice : page 1/1"],
+      ],
+    );
+  });
+});
+
+describe("resources/read", () => {
+  it("returns markdown and JSON renditions of a politician", async () => {
+    const { contents } = await client.readResource({ uri: "poligraph://politiques/emmanuel-macron" });
+
+    assert.match(textOf(contents, "text/markdown"), /^# Emmanuel Macron/);
+    const data = JSON.parse(textOf(contents, "application/json"));
+    assert.equal(data.slug, "emmanuel-macron");
+  });
+
+  it("carries the presumption of innocence notice on pending affairs", async () => {
+    const { contents } = await client.readResource({ uri: "poligraph://affaires/assistants-parlementaires-fn" });
+
+    const markdown = textOf(contents, "text/markdown");
+    assert.match(markdown, /\*\*Politicien\*\* : Marine Le Pen \(RN\)/);
+    assert.match(markdown, /présumée innocente/);
+  });
+
+  it("reports unknown slugs as resource-not-found errors", async () => {
+    await assert.rejects(
+      client.readResource({ uri: "poligraph://politiques/jean-inconnu" }),
+      (e: unknown) => e instanceof McpError && e.code === -32002 && /Aucun résultat/.test(e.message),
+    );
+  });
+});
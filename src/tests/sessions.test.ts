@@ -0,0 +1,204 @@
+/**
+ * Session tests — stateful Streamable HTTP sessions over a local HTTP server
+ *
+ * Only protocol-level requests are made (initialize, tools/list), so the
+ * Poligraph API is never called.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer as createHttpServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ResourceListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "../server.js";
+import { SessionStore } from "../sessions.js";
+
+const IDLE_MS = 60_000;
+
+const servers: McpServer[] = [];
+const store = new SessionStore({
+  createServer: () => {
+    const server = createServer();
+    servers.push(server);
+    return server;
+  },
+  idleTimeoutMs: IDLE_MS,
+  sweepIntervalMs: 0,
+});
+
+// Capped at one session; counts the pairs it closes (served under /limited)
+let closedPairs = 0;
+const limited = new SessionStore({
+  createServer: () => {
+    const server = createServer();
+    server.server.onclose = () => closedPairs++;
+    return server;
+  },
+  idleTimeoutMs: IDLE_MS,
+  maxSessions: 1,
+  sweepIntervalMs: 0,
+});
+
+let http: Server;
+let url: URL;
+
+before(async () => {
+  http = createHttpServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString()) : undefined;
+    // Stands in for authorizeRequest: the key id comes from a test header
+    const key = req.headers["x-test-key"];
+    const auth = typeof key === "string" ? { token: key, clientId: key, scopes: [] } : undefined;
+    const target = req.url?.startsWith("/limited") ? limited : store;
+    await target.handleRequest(Object.assign(req, { auth }), res, body);
+  });
+  await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+  url = new URL(`http://127.0.0.1:${(http.address() as AddressInfo).port}/mcp`);
+});
+
+after(async () => {
+  await store.closeAll();
+  await limited.closeAll();
+  http.closeAllConnections();
+  await new Promise((resolve) => http.close(resolve));
+});
+
+async function connect(headers: Record<string, string> = {}): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  const transport = new StreamableHTTPClientTransport(url, { requestInit: { headers } });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+function post(headers: Record<string, string>, body: unknown): Promise<Response> {
+  return fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream", ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("stateful sessions", () => {
+  it("opens a session on initialize and routes later requests to it", async () => {
+    const { client, transport } = await connect();
+
+    assert.ok(transport.sessionId, "the server should assign an Mcp-Session-Id");
+    const { tools } = await client.listTools();
+    assert.ok(tools.length > 0);
+    assert.equal(store.size, 1);
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it("closes the session on DELETE", async () => {
+    const { client, transport } = await connect();
+    const before = store.size;
+
+    await transport.terminateSession();
+    assert.equal(store.size, before - 1);
+    await client.close();
+  });
+
+  it("rejects requests without a session or with an unknown one", async () => {
+    const ping = { jsonrpc: "2.0", id: 1, method: "ping" };
+
+    const missing = await post({}, ping);
+    assert.equal(missing.status, 400);
+
+    const unknown = await post({ "Mcp-Session-Id": "00000000-0000-0000-0000-000000000000" }, ping);
+    assert.equal(unknown.status, 404);
+  });
+
+  it("rejects requests from another client than the one that opened the session", async () => {
+    const { client, transport } = await connect({ "X-Test-Key": "alice" });
+    const ping = { jsonrpc: "2.0", id: 1, method: "ping" };
+    const sessionId = transport.sessionId!;
+
+    const other = await post({ "Mcp-Session-Id": sessionId, "X-Test-Key": "bob" }, ping);
+    assert.equal(other.status, 404);
+    const anonymous = await post({ "Mcp-Session-Id": sessionId }, ping);
+    assert.equal(anonymous.status, 404);
+    const owner = await post({ "Mcp-Session-Id": sessionId, "X-Test-Key": "alice" }, ping);
+    assert.equal(owner.status, 200);
+    await owner.body?.cancel();
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  it("expires idle sessions", async () => {
+    const { client, transport } = await connect();
+    const sessionId = transport.sessionId!;
+
+    assert.equal(store.sweep(Date.now() + IDLE_MS + 1), 1);
+    const res = await post({ "Mcp-Session-Id": sessionId }, { jsonrpc: "2.0", id: 1, method: "ping" });
+    assert.equal(res.status, 404);
+    await client.close();
+  });
+
+  it("delivers server-initiated notifications over the GET stream", async () => {
+    const { client, transport } = await connect();
+    const server = servers[servers.length - 1];
+
+    const received = new Promise<void>((resolve) => {
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve());
+    });
+
+    // The client opens its GET stream asynchronously after initialization
+    const timer = setInterval(() => server.sendResourceListChanged(), 50);
+    try {
+      await received;
+    } finally {
+      clearInterval(timer);
+    }
+
+    await transport.terminateSession();
+    await client.close();
+  });
+});
+
+describe("session limits", () => {
+  const initialize = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test-client", version: "1.0.0" } },
+  };
+  const open = (accept: string) =>
+    fetch(new URL("/limited", url), {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: accept },
+      body: JSON.stringify(initialize),
+    });
+
+  it("closes the pair when initialize does not complete", async () => {
+    // Without text/event-stream in Accept, the transport refuses the request
+    const res = await open("application/json");
+    assert.equal(res.status, 406);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    assert.equal(limited.size, 0);
+    assert.equal(closedPairs, 1);
+  });
+
+  it("answers 503 to initialize once maxSessions are open", async () => {
+    const client = new Client({ name: "test-client", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(new URL("/limited", url));
+    await client.connect(transport);
+    assert.equal(limited.size, 1);
+
+    const res = await open("application/json, text/event-stream");
+    assert.equal(res.status, 503);
+    assert.equal(limited.size, 1);
+
+    await transport.terminateSession();
+    await client.close();
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * Handler tests — tools run end-to-end against recorded fixtures
+ *
+ * The API client runs in replay mode, so these tests never touch the
+ * network. Fixtures live in fixtures/ at the repository root; record new
+ * ones with POLIGRAPH_FIXTURES_MODE=record.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+process.env.POLIGRAPH_FIXTURES_MODE = "replay";
+process.env.POLIGRAPH_FIXTURES_DIR = fileURLToPath(new URL("../../fixtures", import.meta.url));
+
+// Imported after the environment is set: the API client reads it at load time
+const { createServer } = await import("../server.js");
+const { ERROR_META_KEY } = await import("../errors.js");
+
+const client = new Client({ name: "test-client", version: "1.0.0" });
+
+before(async () => {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+});
+
+function errorOf(result: Awaited<ReturnType<typeof client.callTool>>): unknown {
+  return result._meta?.[ERROR_META_KEY];
+}
+
+function textOf(result: Awaited<ReturnType<typeof client.callTool>>): string {
+  const content = result.content as Array<{ type: string; text?: string }>;
+  return content.map((c) => c.text ?? "").join("\n");
+}
+
+describe("tools/list", () => {
+  it("declares an output schema for every tool", async () => {
+    const { tools } = await client.listTools();
+
+    assert.equal(tools.length, 19);
+    for (const tool of tools) {
+      assert.equal(tool.outputSchema?.type, "object", `${tool.name} should declare an output schema`);
+    }
+  });
+});
+
+describe("domain vocabulary", () => {
+  it("accepts the same mandate types in every tool that filters on them", async () => {
+    const { tools } = await client.listTools();
+    const enumOf = (tool: string, field: string) => {
+      const schema = tools.find((t) => t.name === tool)?.inputSchema.properties?.[field] as { enum?: string[] };
+      return schema.enum;
+    };
+
+    const mandateTypes = enumOf("list_mandates", "type");
+    assert.ok(mandateTypes?.includes("MINISTRE_DELEGUE") && mandateTypes.includes("MAIRE"));
+    assert.deepEqual(enumOf("search_politicians", "mandateType"), mandateTypes);
+    assert.deepEqual(enumOf("search_advanced", "mandate"), mandateTypes);
+  });
+
+  it("still accepts PRESIDENT for the President of the Republic", async () => {
+    const { formatMandateType, MandateTypeSchema } = await import("../domain.js");
+    const { tools } = await client.listTools();
+    const mandate = tools.find((t) => t.name === "search_advanced")?.inputSchema.properties?.mandate as { enum: string[] };
+
+    assert.ok(mandate.enum.includes("PRESIDENT"));
+    assert.equal(MandateTypeSchema.parse("PRESIDENT"), "PRESIDENT_REPUBLIQUE");
+    assert.equal(formatMandateType("PRESIDENT"), formatMandateType("PRESIDENT_REPUBLIQUE"));
+  });
+});
+
+describe("get_politician", () => {
+  it("renders the politician detail", async () => {
+    const result = await client.callTool({ name: "get_politician", arguments: { slug: "emmanuel-macron" } });
+
+    const text = textOf(result);
+    assert.match(text, /^# Emmanuel Macron/);
+    assert.match(text, /\*\*Parti\*\* : Renaissance \(RE\)/);
+    assert.match(text, /## Fact-checks : 12/);
+    assert.match(text, /- Président\(e\) de la République : Président de la République/);
+
+    const data = result.structuredContent as Record<string, unknown>;
+    assert.equal(data.slug, "emmanuel-macron");
+    assert.equal((data.mandates as unknown[]).length, 2);
+  });
+
+  it("degrades gracefully when the API drops or renames fields", async () => {
+    const result = await client.callTool({ name: "get_politician", arguments: { slug: "jean-dupont" } });
+
+    assert.notEqual(result.isError, true);
+    const text = textOf(result);
+    assert.match(text, /^# Jean Dupont/);
+    assert.match(text, /- Maire : — \(depuis 3 juillet 2020\)/);
+
+    const data = result.structuredContent as Record<string, unknown>;
+    assert.equal(data.party, null);
+    assert.equal(data.affairsCount, 0);
+    assert.deepEqual(data.declarations, []);
+  });
+
+  it("reports unknown slugs as NOT_FOUND tool errors", async () => {
+    const result = await client.callTool({ name: "get_politician", arguments: { slug: "jean-inconnu" } });
+
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Aucun résultat/);
+    const error = errorOf(result) as { code: string; status: number };
+    assert.equal(error.code, "NOT_FOUND");
+    assert.equal(error.status, 404);
+  });
+
+  it("suggests the closest slugs after a typo", async () => {
+    const result = await client.callTool({ name: "get_politician", arguments: { slug: "emmanuel-macrn" } });
+
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Vouliez-vous dire/);
+    const error = errorOf(result) as { suggestions: Array<{ slug: string; label: string }> };
+    assert.deepEqual(error.suggestions[0], { slug: "emmanuel-macron", label: "Emmanuel Macron (RE)" });
+  });
+});
+
+describe("politician name resolution", () => {
+  it("resolves a name to its slug", async () => {
+    const result = await client.callTool({ name: "get_politician", arguments: { slug: "Macron" } });
+
+    assert.notEqual(result.isError, true);
+    assert.match(textOf(result), /^# Emmanuel Macron/);
+    assert.equal((result.structuredContent as { slug: string }).slug, "emmanuel-macron");
+  });
+
+  it("lists the candidates when a name is ambiguous", async () => {
+    const result = await client.callTool({ name: "get_politician", arguments: { slug: "Le Pen" } });
+
+    assert.equal(result.isError, true);
+    const text = textOf(result);
+    assert.match(text, /Plusieurs politiciens correspondent à « Le Pen »/);
+    assert.match(text, /`marine-le-pen` — Marine Le Pen \(RN\), née le 5 août 1968/);
+    assert.match(text, /`jean-marie-le-pen` — Jean-Marie Le Pen, né le 20 juin 1928/);
+
+    const error = errorOf(result) as { code: string; suggestions: Array<{ slug: string }> };
+    assert.equal(error.code, "AMBIGUOUS");
+    assert.deepEqual(error.suggestions.map((s) => s.slug).sort(), ["jean-marie-le-pen", "marine-le-pen"]);
+  });
+});
+
+describe("search_politicians", () => {
+  it("lists matching politicians", async () => {
+    const result = await client.callTool({ name: "search_politicians", arguments: { query: "Macron" } });
+
+    assert.match(textOf(result), /\*\*Emmanuel Macron\*\* \(RE\)/);
+    const data = result.structuredContent as { total: number; items: Array<{ slug: string }> };
+    assert.equal(data.total, 1);
+    assert.equal(data.items[0].slug, "emmanuel-macron");
+  });
+});
+
+describe("list_parties", () => {
+  it("lists parties with their position", async () => {
+    const result = await client.callTool({ name: "list_parties", arguments: {} });
+
+    const text = textOf(result);
+    assert.match(text, /\*\*Renaissance\*\* \(RE\) — Centre/);
+    assert.match(text, /\*\*Rassemblement national\*\* \(RN\) — Extrême droite/);
+  });
+});
+
+describe("list_mandates", () => {
+  const deputies = { type: "DEPUTE", isCurrent: true };
+
+  it("fetches every page with all=true and reports progress", async () => {
+    const updates: number[] = [];
+    const result = await client.callTool(
+      { name: "list_mandates", arguments: { ...deputies, all: true } },
+      undefined,
+      { onprogress: (p) => updates.push(p.progress) },
+    );
+
+    assert.match(textOf(result), /^\*\*2 mandats\*\* \(liste complète\)/);
+    assert.doesNotMatch(textOf(result), /Suite/);
+    const data = result.structuredContent as {
+      pagesFetched: number;
+      truncated?: string;
+      items: Array<{ politician: { slug: string } }>;
+    };
+    assert.deepEqual(data.items.map((m) => m.politician.slug), ["marine-le-pen", "manuel-bompard"]);
+    assert.equal(data.pagesFetched, 2);
+    assert.equal(data.truncated, undefined);
+    assert.deepEqual(updates, [1, 2]);
+  });
+
+  it("stops at maxResults and says where to resume", async () => {
+    const result = await client.callTool({ name: "list_mandates", arguments: { ...deputies, maxResults: 1 } });
+
+    const data = result.structuredContent as { truncated?: string; nextCursor?: string; items: unknown[] };
+    assert.equal(data.items.length, 1);
+    assert.equal(data.truncated, "maxResults");
+    assert.ok(data.nextCursor);
+    assert.ok(textOf(result).includes(`_1 sur 2 résultats (maxResults). Suite : cursor="${data.nextCursor}"_`));
+  });
+});
+
+describe("fetchPages", () => {
+  it("keeps the pages already read when the time budget runs out", async () => {
+    const { fetchPages } = await import("../pagination.js");
+    const { MandateListResponseSchema } = await import("../schemas.js");
+
+    const result = await fetchPages(
+      "/api/mandats",
+      MandateListResponseSchema,
+      { type: "DEPUTE", isCurrent: true },
+      { page: 1, limit: 20, all: true },
+      { tool: "list_mandates", budgetMs: 0 },
+    );
+    assert.equal(result.items.length, 1);
+    assert.equal(result.truncated, "budget");
+    assert.ok(result.nextCursor);
+  });
+});
+
+describe("list_votes cursors", () => {
+  type VotePage = { items: Array<{ title: string }>; nextCursor?: string };
+
+  it("resumes a single-page listing with the original filters", async () => {
+    const first = await client.callTool({ name: "list_votes", arguments: { legislature: 17, limit: 1 } });
+    const { items, nextCursor } = first.structuredContent as VotePage;
+    assert.match(items[0].title, /projet de loi de finances/);
+    assert.ok(nextCursor);
+
+    const second = await client.callTool({ name: "list_votes", arguments: { cursor: nextCursor } });
+    const next = second.structuredContent as VotePage;
+    assert.match(next.items[0].title, /sécurité sociale/);
+    assert.equal(next.nextCursor, undefined);
+  });
+
+  it("resumes a maxResults listing from the next offset", async () => {
+    const first = await client.callTool({ name: "list_votes", arguments: { legislature: 17, maxResults: 1 } });
+    const { nextCursor } = first.structuredContent as VotePage;
+
+    const second = await client.callTool({ name: "list_votes", arguments: { cursor: nextCursor } });
+    assert.match(textOf(second), /^\*\*2 scrutins\*\* \(n° 2 à 2\)/);
+    assert.match((second.structuredContent as VotePage).items[0].title, /sécurité sociale/);
+  });
+
+  it("rejects cursors from another tool, tampered or out of date", async () => {
+    const { encodeCursor } = await import("../pagination.js");
+    const base = { v: 2 as const, params: {}, offset: 1, limit: 1, total: 2 };
+    const mandates = encodeCursor({ ...base, tool: "list_mandates", snapshot: Date.now() });
+    const injected = encodeCursor({ ...base, tool: "list_votes", params: { legislature: 17, secret: "x" }, snapshot: Date.now() });
+    const expired = encodeCursor({ ...base, tool: "list_votes", snapshot: 0 });
+
+    for (const [cursor, code] of [
+      [mandates, "INVALID_CURSOR"],
+      [injected, "INVALID_CURSOR"],
+      ["not-a-cursor", "INVALID_CURSOR"],
+      [expired, "STALE_CURSOR"],
+    ]) {
+      const result = await client.callTool({ name: "list_votes", arguments: { cursor } });
+      assert.equal(result.isError, true);
+      assert.equal((errorOf(result) as { code: string }).code, code);
+    }
+  });
+
+  it("detects a list that changed since the first page", async () => {
+    const { encodeCursor } = await import("../pagination.js");
+    const cursor = encodeCursor({
+      v: 2,
+      tool: "list_votes",
+      params: { legislature: 17 },
+      offset: 1,
+      limit: 1,
+      total: 3,
+      snapshot: Date.now(),
+    });
+
+    const result = await client.callTool({ name: "list_votes", arguments: { cursor } });
+    assert.equal((errorOf(result) as { code: string }).code, "STALE_CURSOR");
+  });
+});
+
+describe("verbosity and maxChars", () => {
+  it("prints one line per vote in summary mode and keeps structuredContent whole", async () => {
+    const result = await client.callTool({ name: "list_votes", arguments: { legislature: 17, all: true, verbosity: "summary" } });
+
+    assert.match(textOf(result), /^- \*\*l'ensemble du projet de loi de finances pour 2025 \(première lecture\)\*\* \(.+\) — Rejeté$/m);
+    assert.doesNotMatch(textOf(result), /Pour: \d+/);
+    assert.equal((result.structuredContent as { items: unknown[] }).items.length, 2);
+  });
+
+  it("drops the blocks past maxChars with a cursor to the first one omitted", async () => {
+    const { fetchPages, renderPage } = await import("../pagination.js");
+    const { VoteListResponseSchema } = await import("../schemas.js");
+
+    const data = await fetchPages(
+      "/api/votes",
+      VoteListResponseSchema,
+      { search: undefined, result: undefined, legislature: 17 },
+      { page: 1, limit: 20, all: true },
+      { tool: "list_votes" },
+    );
+    const blocks = data.items.map((s) => `- ${s.title} ${"·".repeat(300)}`);
+    const text = renderPage(data, "scrutins", blocks, 500);
+
+    assert.ok(text.length <= 500);
+    assert.match(text, /projet de loi de finances/);
+    assert.doesNotMatch(text, /sécurité sociale/);
+    const cursor = /_1 autre\(s\) résultat\(s\) omis \(maxChars\)\. Suite : cursor="([^"]+)"_/.exec(text)?.[1];
+    assert.ok(cursor);
+
+    const next = await client.callTool({ name: "list_votes", arguments: { cursor } });
+    assert.match((next.structuredContent as { items: Array<{ title: string }> }).items[0].title, /sécurité sociale/);
+  });
+
+  it("keeps the presumption of innocence notice within maxChars", async () => {
+    for (const maxChars of [500, 800]) {
+      const result = await client.callTool({ name: "list_affairs", arguments: { status: "APPEL_EN_COURS", maxChars } });
+      const text = textOf(result);
+
+      assert.ok(text.length <= maxChars);
+      assert.match(text, /\*\*Rappel\*\* : Toute personne mise en examen est présumée innocente/);
+      // The only affair is cut, not omitted: it ends with a note, without an omitted count
+      assert.match(text, /_Élément tronqué \(maxChars\)/);
+      assert.doesNotMatch(text, /omis/);
+      assert.ok(text.length > maxChars - 150, "the cut block should use most of the budget");
+    }
+  });
+
+  it("fits the fact-checks of a politician in maxChars", async () => {
+    const slug = "emmanuel-macron";
+    const full = await client.callTool({ name: "get_politician_factchecks", arguments: { slug, verbosity: "full" } });
+    assert.match(textOf(full), /quelles que soient les majorités/);
+
+    const cut = await client.callTool({ name: "get_politician_factchecks", arguments: { slug, maxChars: 500 } });
+    assert.ok(textOf(cut).length <= 500);
+    assert.match(textOf(cut), /_2 autre\(s\) fact-check\(s\) omis \(maxChars\)/);
+    assert.match(textOf(cut), /https:\/\/poligraph\.fr\/politiques\/emmanuel-macron$/);
+    assert.equal((cut.structuredContent as { factchecks: unknown[] }).factchecks.length, 3);
+
+    const summary = await client.callTool({ name: "get_politician_factchecks", arguments: { slug, verbosity: "summary" } });
+    assert.match(textOf(summary), /^- \*\*La dette publique a baissé pendant le quinquennat\*\* — .+ \(Les Décodeurs, .+\)$/m);
+    assert.doesNotMatch(textOf(summary), /^> /m);
+  });
+});
+
+describe("format", () => {
+  const votes = { legislature: 17, all: true };
+
+  it("flattens the items into CSV with French headers", async () => {
+    const result = await client.callTool({ name: "list_votes", arguments: { ...votes, format: "csv" } });
+    const [header, first, ...rest] = textOf(result).split("\r\n");
+
+    // Columns follow the output schema: vote counts first, then the vote fields
+    assert.equal(header, "Pour,Contre,Abstention,Titre,Date du scrutin,Législature,Résultat,URL de la source");
+    assert.equal(
+      first,
+      "192,362,3,l'ensemble du projet de loi de finances pour 2025 (première lecture),2024-11-12T00:00:00.000Z,17,REJECTED,https://www.assemblee-nationale.fr/dyn/17/scrutins/512",
+    );
+    assert.equal(rest.length, 1);
+  });
+
+  it("joins nested arrays and quotes cells when needed", async () => {
+    const { toCsv } = await import("../formats.js");
+    const { ListFactChecksOutputSchema } = await import("../outputs.js");
+
+    const csv = toCsv(
+      [
+        {
+          title: 'Le "chiffre" du chômage',
+          claimText: "Le chômage baisse, dit-il",
+          claimant: null,
+          verdictRating: "FALSE",
+          verdict: "Faux",
+          source: "AFP",
+          sourceUrl: "https://factuel.afp.com/x",
+          publishedAt: "2025-01-01",
+          politicians: [
+            { slug: "a", fullName: "A" },
+            { slug: "b", fullName: "B" },
+          ],
+        },
+      ],
+      ListFactChecksOutputSchema.shape.items.element,
+    );
+    const [header, row] = csv.split("\r\n");
+
+    assert.ok(header.endsWith(",Politiciens — Identifiant,Politiciens — Nom"));
+    assert.ok(row.startsWith('"Le ""chiffre"" du chômage","Le chômage baisse, dit-il",,FALSE,'));
+    assert.ok(row.endsWith(",a | b,A | B"));
+  });
+
+  it("strips markdown in text mode and prints structuredContent in json mode", async () => {
+    const text = textOf(await client.callTool({ name: "list_votes", arguments: { ...votes, format: "text" } }));
+    assert.match(text, /^2 scrutins \(liste complète\)/);
+    assert.doesNotMatch(text, /\*\*/);
+
+    const json = await client.callTool({ name: "list_votes", arguments: { ...votes, format: "json" } });
+    assert.deepEqual(JSON.parse(textOf(json)), json.structuredContent);
+  });
+
+  it("keeps the presumption of innocence notice in CSV and JSON", async () => {
+    const pending = { status: "APPEL_EN_COURS" };
+
+    const csv = textOf(await client.callTool({ name: "list_affairs", arguments: { ...pending, format: "csv" } }));
+    const [notice, header] = csv.split("\r\n");
+    assert.match(notice, /^Rappel : Toute personne mise en examen est présumée innocente/);
+    assert.match(header, /^Identifiant,Titre,Statut,/);
+
+    const json = await client.callTool({ name: "list_affairs", arguments: { ...pending, format: "json" } });
+    const { notice: jsonNotice, ...rest } = JSON.parse(textOf(json)) as { notice: string };
+    assert.match(jsonNotice, /^Rappel : Toute personne mise en examen/);
+    assert.deepEqual(rest, json.structuredContent);
+  });
+
+  it("removes emphasis, headings and link syntax", async () => {
+    const { stripMarkdown } = await import("../formats.js");
+    assert.equal(
+      stripMarkdown("## Sources\n- [Le Monde](https://lemonde.fr) — _12 mars_\n---\n**Statut** : `ADOPTED`"),
+      "Sources\n- Le Monde (https://lemonde.fr) — 12 mars\nStatut : ADOPTED",
+    );
+  });
+});
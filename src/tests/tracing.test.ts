@@ -0,0 +1,93 @@
+/**
+ * Tracing tests — span hierarchy and W3C context propagation
+ *
+ * Spans go to an in-memory exporter; tools run against recorded fixtures,
+ * so the Poligraph API is never called.
+ *
+ * Run: npm test
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { SpanKind, SpanStatusCode } from "@opentelemetry/api";
+import { InMemorySpanExporter, type ReadableSpan } from "@opentelemetry/sdk-trace-base";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+process.env.POLIGRAPH_FIXTURES_MODE = "replay";
+process.env.POLIGRAPH_FIXTURES_DIR = fileURLToPath(new URL("../../fixtures", import.meta.url));
+process.env.POLIGRAPH_CACHE = "off";
+
+// Imported after the environment is set: the API client reads it at load time
+const { createServer } = await import("../server.js");
+const { initTracing, instrumentTransport, withIncomingContext } = await import("../tracing.js");
+
+const exporter = new InMemorySpanExporter();
+const client = new Client({ name: "test-client", version: "1.0.0" });
+
+before(async () => {
+  assert.equal(await initTracing({ exporter }), true);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer().connect(serverTransport);
+  instrumentTransport(serverTransport);
+  await client.connect(clientTransport);
+});
+
+after(async () => {
+  await client.close();
+});
+
+function parentOf(span: ReadableSpan): string | undefined {
+  return span.parentSpanContext?.spanId;
+}
+
+describe("tracing", () => {
+  it("nests the tool span and the upstream span under the request span", async () => {
+    exporter.reset();
+    await client.callTool({ name: "list_parties", arguments: {} });
+
+    const spans = exporter.getFinishedSpans();
+    const request = spans.find((s) => s.name === "tools/call list_parties");
+    const tool = spans.find((s) => s.name === "execute_tool list_parties");
+    const upstream = spans.find((s) => s.name === "GET /api/partis");
+    assert.ok(request && tool && upstream, `unexpected spans: ${spans.map((s) => s.name).join(", ")}`);
+
+    assert.equal(request.kind, SpanKind.SERVER);
+    assert.equal(request.attributes["mcp.method.name"], "tools/call");
+    assert.equal(parentOf(tool), request.spanContext().spanId);
+    assert.equal(parentOf(upstream), tool.spanContext().spanId);
+
+    assert.equal(upstream.kind, SpanKind.CLIENT);
+    assert.match(String(upstream.attributes["url.full"]), /\/api\/partis\?.*limit=20/);
+    assert.ok(Number(upstream.attributes["http.response.body.size"]) > 0);
+  });
+
+  it("marks failed tool calls and upstream errors", async () => {
+    exporter.reset();
+    await client.callTool({ name: "get_politician", arguments: { slug: "jean-inconnu" } });
+
+    const spans = exporter.getFinishedSpans();
+    const tool = spans.find((s) => s.name === "execute_tool get_politician");
+    const upstream = spans.find((s) => s.name === "GET /api/politiques/jean-inconnu");
+    assert.ok(tool && upstream);
+    assert.equal(tool.status.code, SpanStatusCode.ERROR);
+    assert.equal(tool.attributes["poligraph.error.code"], "NOT_FOUND");
+    assert.equal(upstream.status.code, SpanStatusCode.ERROR);
+    assert.equal(upstream.attributes["http.response.status_code"], 404);
+  });
+
+  it("continues the W3C trace context of the incoming request", async () => {
+    exporter.reset();
+    const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+    const parentId = "00f067aa0ba902b7";
+    await withIncomingContext({ traceparent: `00-${traceId}-${parentId}-01` }, () =>
+      client.callTool({ name: "list_parties", arguments: {} }),
+    );
+
+    const request = exporter.getFinishedSpans().find((s) => s.name === "tools/call list_parties");
+    assert.ok(request);
+    assert.equal(request.spanContext().traceId, traceId);
+    assert.equal(parentOf(request), parentId);
+  });
+});
@@ -1,268 +1,207 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { fetchAPI, formatDate } from "../api.js";
+import {
+  AffairListResponseSchema,
+  PoliticianAffairsResponseSchema,
+  type AffairListItem,
+  type PoliticianAffairsResponse,
+} from "../schemas.js";
+import {
+  ListAffairsOutputSchema,
+  type ListAffairsOutput,
+  GetPoliticianAffairsOutputSchema,
+  type GetPoliticianAffairsOutput,
+} from "../outputs.js";
+import {
+  AffairCategorySchema,
+  AffairStatusSchema,
+  formatAffairCategory,
+  formatAffairStatus,
+  PENDING_AFFAIR_STATUSES,
+} from "../domain.js";
+import { withToolErrors } from "../errors.js";
+import { colon, defineMessages, field } from "../i18n.js";
+import { formatInputs, renderFormat } from "../formats.js";
+import { fetchPages, listVerbosity, pageFields, paginationInputs, renderPage } from "../pagination.js";
+import { charBudget, detailLevel, fitBlocks, truncateText, verbosityInputs, type Verbosity } from "../verbosity.js";
+import { resolvePoliticianSlug } from "../resolver.js";
+import { suggestPoliticians } from "../suggestions.js";
 
-interface Source {
-  id: string;
-  url: string;
-  title: string;
-  publisher: string;
-  publishedAt: string | null;
-}
-
-interface AffairListItem {
-  id: string;
-  slug: string;
-  title: string;
-  description: string;
-  status: string;
-  category: string;
-  factsDate: string | null;
-  startDate: string;
-  verdictDate: string | null;
-  sentence: string | null;
-  appeal: string | null;
-  politician: {
-    id: string;
-    slug: string;
-    fullName: string;
-    currentParty: {
-      shortName: string;
-      name: string;
-    } | null;
-  };
-  partyAtTime: {
-    shortName: string;
-    name: string;
-  } | null;
-  sources: Source[];
-}
-
-interface AffairListResponse {
-  data: AffairListItem[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
-
-interface PoliticianAffairsResponse {
-  politician: {
-    id: string;
-    slug: string;
-    fullName: string;
-    firstName: string;
-    lastName: string;
-    photoUrl: string | null;
-    party: {
-      shortName: string;
-      name: string;
-      color: string;
-    } | null;
-  };
-  affairs: Array<{
-    id: string;
-    slug: string;
-    title: string;
-    description: string;
-    status: string;
-    category: string;
-    factsDate: string | null;
-    startDate: string;
-    verdictDate: string | null;
-    sentence: string | null;
-    appeal: string | null;
-    partyAtTime: {
-      shortName: string;
-      name: string;
-    } | null;
-    sources: Source[];
-  }>;
-  total: number;
-}
-
-const PRESUMPTION_NOTICE =
+export const PRESUMPTION_NOTICE =
   "**Rappel** : Toute personne mise en examen est présumée innocente jusqu'à ce que sa culpabilité ait été établie par une décision de justice définitive.";
 
-function formatStatus(status: string): string {
-  const labels: Record<string, string> = {
-    ENQUETE_PRELIMINAIRE: "Enquête préliminaire",
-    MISE_EN_EXAMEN: "Mise en examen",
-    PROCES_EN_COURS: "Procès en cours",
-    CONDAMNATION_PREMIERE_INSTANCE: "Condamnation (1ère instance)",
-    CONDAMNATION_DEFINITIVE: "Condamnation définitive",
-    APPEL_EN_COURS: "Appel en cours",
-    RELAXE: "Relaxe",
-    NON_LIEU: "Non-lieu",
-    PRESCRIPTION: "Prescription",
-  };
-  return labels[status] || status;
-}
-
-function formatCategory(category: string): string {
-  const labels: Record<string, string> = {
-    CORRUPTION: "Corruption",
-    FRAUDE_FISCALE: "Fraude fiscale",
-    BLANCHIMENT: "Blanchiment",
-    TRAFIC_INFLUENCE: "Trafic d'influence",
-    PRISE_ILLEGALE_INTERET: "Prise illégale d'intérêts",
-    VIOLENCE: "Violence",
-    HARCELEMENT_SEXUEL: "Harcèlement sexuel",
-    AGRESSION_SEXUELLE: "Agression sexuelle",
-    VIOL: "Viol",
-    DIFFAMATION: "Diffamation",
-    ABUS_BIENS_SOCIAUX: "Abus de biens sociaux",
-    DETOURNEMENT_FONDS: "Détournement de fonds",
-    EMPLOI_FICTIF: "Emploi fictif",
-    FINANCEMENT_ILLEGAL: "Financement illégal",
-    HARCELEMENT_MORAL: "Harcèlement moral",
-    MENACE: "Menace",
-    OUTRAGE: "Outrage",
-    RECEL: "Recel",
-  };
-  return labels[category] || category;
-}
+const messages = defineMessages(
+  {
+    presumption: PRESUMPTION_NOTICE,
+    politician: "Politicien",
+    statusLabel: "Statut",
+    categoryLabel: "Catégorie",
+    factsDate: "Date des faits",
+    startDate: "Début de procédure",
+    verdictDate: "Verdict",
+    sentence: "Peine",
+    appeal: "Appel",
+    partyAtTime: "Parti au moment des faits",
+    sources: "Sources",
+    moreSources: (count: number) => `… et ${count} autre(s) source(s)`,
+    noun: "affaires",
+    heading: "Affaires judiciaires",
+    count: (count: number) => `${count} affaire(s)`,
+    omitted: (count: number) =>
+      `_${count} autre(s) affaire(s) omise(s) (maxChars) : relancez avec verbosity="summary" pour toutes les voir._`,
+  },
+  {
+    presumption:
+      "**Reminder**: Anyone under formal investigation is presumed innocent until proven guilty by a final court decision.",
+    politician: "Politician",
+    statusLabel: "Status",
+    categoryLabel: "Category",
+    factsDate: "Date of the facts",
+    startDate: "Proceedings opened",
+    verdictDate: "Verdict",
+    sentence: "Sentence",
+    appeal: "Appeal",
+    partyAtTime: "Party at the time of the facts",
+    sources: "Sources",
+    moreSources: (count: number) => `… and ${count} more source(s)`,
+    noun: "affairs",
+    heading: "Judicial affairs",
+    count: (count: number) => `${count} affair(s)`,
+    omitted: (count: number) =>
+      `_${count} more affair(s) left out (maxChars): call again with verbosity="summary" to see them all._`,
+  },
+);
 
 function needsPresumption(status: string): boolean {
-  return [
-    "ENQUETE_PRELIMINAIRE",
-    "MISE_EN_EXAMEN",
-    "PROCES_EN_COURS",
-    "APPEL_EN_COURS",
-  ].includes(status);
+  return (PENDING_AFFAIR_STATUSES as readonly string[]).includes(status);
 }
 
-function formatAffairDetail(affair: AffairListItem | PoliticianAffairsResponse["affairs"][0], politicianName?: string): string {
+export function formatAffairDetail(
+  affair: AffairListItem | PoliticianAffairsResponse["affairs"][0],
+  politicianName?: string,
+  verbosity: Verbosity = "standard",
+): string {
+  const t = messages();
+  const level = detailLevel(verbosity);
   const lines: string[] = [];
 
   lines.push(`### ${affair.title}`);
   if (politicianName) {
-    lines.push(`**Politicien** : ${politicianName}`);
+    lines.push(field(t.politician, politicianName));
   }
-  lines.push(`**Statut** : ${formatStatus(affair.status)}`);
-  lines.push(`**Catégorie** : ${formatCategory(affair.category)}`);
+  lines.push(field(t.statusLabel, formatAffairStatus(affair.status)));
+  lines.push(field(t.categoryLabel, formatAffairCategory(affair.category)));
 
-  if (affair.factsDate) lines.push(`**Date des faits** : ${formatDate(affair.factsDate)}`);
-  if (affair.startDate) lines.push(`**Début de procédure** : ${formatDate(affair.startDate)}`);
-  if (affair.verdictDate) lines.push(`**Verdict** : ${formatDate(affair.verdictDate)}`);
-  if (affair.sentence) lines.push(`**Peine** : ${affair.sentence}`);
-  if (affair.appeal) lines.push(`**Appel** : ${affair.appeal}`);
+  if (affair.factsDate) lines.push(field(t.factsDate, formatDate(affair.factsDate)));
+  if (affair.startDate) lines.push(field(t.startDate, formatDate(affair.startDate)));
+  if (affair.verdictDate) lines.push(field(t.verdictDate, formatDate(affair.verdictDate)));
+  if (affair.sentence) lines.push(field(t.sentence, affair.sentence));
+  if (affair.appeal) lines.push(field(t.appeal, affair.appeal));
 
   if (affair.partyAtTime) {
-    lines.push(`**Parti au moment des faits** : ${affair.partyAtTime.name} (${affair.partyAtTime.shortName})`);
+    lines.push(field(t.partyAtTime, `${affair.partyAtTime.name} (${affair.partyAtTime.shortName})`));
   }
 
   lines.push("");
-  lines.push(affair.description);
+  lines.push(truncateText(affair.description, level.descriptionChars));
 
   if (affair.sources.length > 0) {
     lines.push("");
-    lines.push("**Sources** :");
-    for (const s of affair.sources) {
+    lines.push(`**${t.sources}**${colon()}`.trimEnd());
+    for (const s of affair.sources.slice(0, level.sources)) {
       const date = s.publishedAt ? ` (${formatDate(s.publishedAt)})` : "";
       lines.push(`- [${s.title}](${s.url}) — ${s.publisher}${date}`);
     }
+    if (affair.sources.length > level.sources) {
+      lines.push(`- _${t.moreSources(affair.sources.length - level.sources)}_`);
+    }
   }
 
   if (needsPresumption(affair.status)) {
     lines.push("");
-    lines.push(PRESUMPTION_NOTICE);
+    lines.push(t.presumption);
   }
 
   return lines.join("\n");
 }
 
+function formatAffairLine(affair: AffairListItem | PoliticianAffairsResponse["affairs"][0], politicianName?: string): string {
+  const who = politicianName ? ` — ${politicianName}` : "";
+  return `- **${affair.title}**${who} — ${formatAffairStatus(affair.status)}, ${formatAffairCategory(affair.category)} — /affaires/${affair.slug}`;
+}
+
+/** One block per affair: a line in summary mode, else the detail followed by a rule. */
+function formatAffairBlock(
+  affair: AffairListItem | PoliticianAffairsResponse["affairs"][0],
+  verbosity: Verbosity,
+  politicianName?: string,
+): string {
+  if (verbosity === "summary") return formatAffairLine(affair, politicianName);
+  return `${formatAffairDetail(affair, politicianName, verbosity)}\n\n---\n`;
+}
+
 export function registerAffairTools(server: McpServer): void {
   server.registerTool(
     "list_affairs",
     {
       description: "Lister les affaires judiciaires impliquant des politiciens français, avec filtres par statut et catégorie.",
       inputSchema: {
-        status: z
-          .enum([
-            "ENQUETE_PRELIMINAIRE",
-            "MISE_EN_EXAMEN",
-            "PROCES_EN_COURS",
-            "CONDAMNATION_PREMIERE_INSTANCE",
-            "CONDAMNATION_DEFINITIVE",
-            "APPEL_EN_COURS",
-            "RELAXE",
-            "NON_LIEU",
-            "PRESCRIPTION",
-          ])
-          .optional()
-          .describe("Filtrer par statut judiciaire"),
-        category: z
-          .enum([
-            "CORRUPTION",
-            "FRAUDE_FISCALE",
-            "BLANCHIMENT",
-            "TRAFIC_INFLUENCE",
-            "PRISE_ILLEGALE_INTERET",
-            "VIOLENCE",
-            "HARCELEMENT_SEXUEL",
-            "DIFFAMATION",
-          ])
-          .optional()
-          .describe("Filtrer par catégorie d'infraction"),
-        page: z.number().int().min(1).default(1).describe("Numéro de page"),
-        limit: z.number().int().min(1).max(100).default(20).describe("Résultats par page (max 100)"),
+        status: AffairStatusSchema.optional().describe("Filtrer par statut judiciaire"),
+        category: AffairCategorySchema.optional().describe("Filtrer par catégorie d'infraction"),
+        ...paginationInputs,
+        ...verbosityInputs,
+        ...formatInputs,
       },
+      outputSchema: ListAffairsOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Recherche d'affaires judiciaires...",
         "openai/toolInvocation/invoked": "Affaires trouvées",
       },
     },
-    async ({ status, category, page, limit }) => {
-      const data = await fetchAPI<AffairListResponse>("/api/affaires", {
-        status,
-        category,
-        page,
-        limit,
-      });
-
-      const lines: string[] = [];
-      lines.push(`**${data.pagination.total} affaires** (page ${data.pagination.page}/${data.pagination.totalPages})`);
-      lines.push("");
+    withToolErrors(async ({ status, category, verbosity, maxChars, format, ...paging }) => {
+      const data = await fetchPages(
+        "/api/affaires",
+        AffairListResponseSchema,
+        { status, category },
+        paging,
+        { tool: "list_affairs" },
+      );
 
-      for (const affair of data.data) {
+      const level = listVerbosity(data, verbosity);
+      const blocks = data.items.map((affair) => {
         const party = affair.politician.currentParty
           ? ` (${affair.politician.currentParty.shortName})`
           : "";
-        lines.push(formatAffairDetail(affair, `${affair.politician.fullName}${party}`));
-        lines.push("");
-        lines.push("---");
-        lines.push("");
-      }
+        return formatAffairBlock(affair, level, `${affair.politician.fullName}${party}`);
+      });
+      const notice = data.items.some((a) => needsPresumption(a.status)) ? messages().presumption : undefined;
+      // Given once above the list, where maxChars cannot cut it
+      const preamble = notice ? [notice, ""] : [];
 
-      if (data.pagination.page < data.pagination.totalPages) {
-        lines.push(`_Page suivante : page=${data.pagination.page + 1}_`);
-      }
+      const structuredContent = {
+        ...pageFields(data),
+        items: data.items.map((a) => ({
+          slug: a.slug,
+          title: a.title,
+          status: a.status,
+          category: a.category,
+          politician: { slug: a.politician.slug, fullName: a.politician.fullName },
+          factsDate: a.factsDate,
+          startDate: a.startDate,
+          verdictDate: a.verdictDate,
+          sentence: a.sentence,
+          sources: a.sources.map((s) => ({ url: s.url, title: s.title, publisher: s.publisher })),
+        })),
+      } satisfies ListAffairsOutput;
 
+      const markdown = renderPage(data, messages().noun, blocks, maxChars, preamble);
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
-        structuredContent: {
-          total: data.pagination.total,
-          page: data.pagination.page,
-          totalPages: data.pagination.totalPages,
-          items: data.data.map((a) => ({
-            slug: a.slug,
-            title: a.title,
-            status: a.status,
-            category: a.category,
-            politician: { slug: a.politician.slug, fullName: a.politician.fullName },
-            factsDate: a.factsDate,
-            startDate: a.startDate,
-            verdictDate: a.verdictDate,
-            sentence: a.sentence,
-            sources: a.sources.map((s) => ({ url: s.url, title: s.title, publisher: s.publisher })),
-          })),
-        },
+        content: [{ type: "text" as const, text: renderFormat(format, markdown, structuredContent, ListAffairsOutputSchema, notice) }],
+        structuredContent,
       };
-    },
+    }),
   );
 
   server.registerTool(
@@ -270,43 +209,47 @@ export function registerAffairTools(server: McpServer): void {
     {
       description: "Obtenir les affaires judiciaires d'un politicien spécifique, avec sources et détails.",
       inputSchema: {
-        slug: z.string().describe("Identifiant du politicien (ex: 'nicolas-sarkozy')"),
+        slug: z.string().describe("Nom ou identifiant du politicien (ex: 'Sarkozy', 'nicolas-sarkozy')"),
+        ...verbosityInputs,
       },
+      outputSchema: GetPoliticianAffairsOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Chargement des affaires...",
         "openai/toolInvocation/invoked": "Affaires chargées",
       },
     },
-    async ({ slug }) => {
-      const data = await fetchAPI<PoliticianAffairsResponse>(
-        `/api/politiques/${encodeURIComponent(slug)}/affaires`,
+    withToolErrors(async ({ slug, verbosity, maxChars }) => {
+      const resolved = await resolvePoliticianSlug(slug);
+      const data = await fetchAPI(
+        `/api/politiques/${encodeURIComponent(resolved)}/affaires`,
+        PoliticianAffairsResponseSchema,
       );
 
+      const t = messages();
       const lines: string[] = [];
       const party = data.politician.party
         ? ` (${data.politician.party.name})`
         : "";
-      lines.push(`# Affaires judiciaires — ${data.politician.fullName}${party}`);
-      lines.push(`**${data.total} affaire(s)**`);
+      lines.push(`# ${t.heading} — ${data.politician.fullName}${party}`);
+      lines.push(`**${t.count(data.total)}**`);
       lines.push("");
 
       if (data.affairs.some((a) => needsPresumption(a.status))) {
-        lines.push(PRESUMPTION_NOTICE);
+        lines.push(t.presumption);
         lines.push("");
       }
 
-      for (const affair of data.affairs) {
-        lines.push(formatAffairDetail(affair));
-        lines.push("");
-        lines.push("---");
-        lines.push("");
-      }
-
-      lines.push(`https://poligraph.fr/politiques/${data.politician.slug}`);
+      const { text } = fitBlocks(
+        lines,
+        data.affairs.map((affair) => formatAffairBlock(affair, verbosity)),
+        ["", `https://poligraph.fr/politiques/${data.politician.slug}`],
+        charBudget(maxChars),
+        t.omitted,
+      );
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text }],
         structuredContent: {
           politician: {
             slug: data.politician.slug,
@@ -326,8 +269,8 @@ export function registerAffairTools(server: McpServer): void {
             sources: a.sources.map((s) => ({ url: s.url, title: s.title, publisher: s.publisher })),
           })),
           url: `https://poligraph.fr/politiques/${data.politician.slug}`,
-        },
+        } satisfies GetPoliticianAffairsOutput,
       };
-    },
+    }, suggestPoliticians),
   );
 }
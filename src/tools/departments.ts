@@ -1,48 +1,75 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { fetchAPI } from "../api.js";
-
-interface PartyCount {
-  id: string;
-  name: string;
-  shortName: string;
-  color: string | null;
-  count: number;
-}
-
-interface DepartmentStats {
-  code: string;
-  name: string;
-  region: string;
-  totalElus: number;
-  deputes: number;
-  senateurs: number;
-  dominantParty: PartyCount | null;
-  parties: PartyCount[];
-}
-
-interface DepartmentStatsResponse {
-  departments: DepartmentStats[];
-  stats: {
-    totalDepartments: number;
-    totalElus: number;
-    totalDeputes: number;
-    totalSenateurs: number;
-  };
-  filter: string;
-}
-
-interface DeputyItem {
-  id: string;
-  slug: string;
-  fullName: string;
-  photoUrl: string | null;
-  constituency: string | null;
-  party: {
-    name: string;
-    shortName: string;
-    color: string | null;
-  } | null;
+import {
+  DepartmentStatsResponseSchema,
+  DeputiesResponseSchema,
+  type DeputyItem,
+} from "../schemas.js";
+import {
+  GetDepartmentStatsOutputSchema,
+  type GetDepartmentStatsOutput,
+  GetDeputiesByDepartmentOutputSchema,
+  type GetDeputiesByDepartmentOutput,
+} from "../outputs.js";
+import { withToolErrors } from "../errors.js";
+import { colon, defineMessages, field } from "../i18n.js";
+import { charBudget, detailLevel, fitBlocks, fitText, truncationNote, verbosityInputs, type Verbosity } from "../verbosity.js";
+
+const messages = defineMessages(
+  {
+    deputies: "Députés",
+    serving: (count: number) => `${count} député(s) en exercice`,
+    none: "_Aucun député trouvé pour ce département. Vérifiez l'orthographe (ex: 'Bouches-du-Rhône', pas 'Bouches du Rhône')._",
+    filter: { deputes: "Députés", senateurs: "Sénateurs", all: "Tous les élus" } as Record<string, string>,
+    statsHeading: "Statistiques par département",
+    totals: (departments: number, elus: number, deputes: number, senateurs: number) =>
+      `**${departments} départements** — ${elus} élus (${deputes} députés, ${senateurs} sénateurs)`,
+    omitted: (count: number) => `_${count} autre(s) député(s) omis (maxChars) : relancez avec verbosity="summary" pour tous les voir._`,
+    top: (count: number) => `Top ${count} départements`,
+    dominant: "Dominant",
+    elus: (count: number, deputes: number, senateurs: number) => `${count} élus (${deputes}D, ${senateurs}S)`,
+    dominance: "Parti dominant par nombre de départements",
+    departments: (count: number) => `${count} départements`,
+  },
+  {
+    deputies: "Members of the National Assembly",
+    serving: (count: number) => `${count} serving member(s)`,
+    none: "_No member found for this department. Check the spelling (e.g. 'Bouches-du-Rhône', not 'Bouches du Rhône')._",
+    filter: { deputes: "Members of the National Assembly", senateurs: "Senators", all: "All elected officials" },
+    statsHeading: "Statistics by department",
+    totals: (departments: number, elus: number, deputes: number, senateurs: number) =>
+      `**${departments} departments** — ${elus} elected officials (${deputes} MPs, ${senateurs} senators)`,
+    omitted: (count: number) => `_${count} more member(s) left out (maxChars): call again with verbosity="summary" to see them all._`,
+    top: (count: number) => `Top ${count} departments`,
+    dominant: "Dominant",
+    elus: (count: number, deputes: number, senateurs: number) => `${count} officials (${deputes} MPs, ${senateurs} senators)`,
+    dominance: "Dominant party by number of departments",
+    departments: (count: number) => `${count} departments`,
+  },
+);
+
+export function formatDeputies(
+  department: string,
+  deputies: DeputyItem[],
+  verbosity: Verbosity = "standard",
+  maxChars = Infinity,
+): string {
+  const t = messages();
+  const lines: string[] = [];
+  lines.push(`# ${t.deputies} — ${department}`);
+  lines.push(`**${t.serving(deputies.length)}**`);
+  lines.push("");
+
+  // Summary mode leaves out the link line of each member
+  const blocks = deputies.map((d) => {
+    const party = d.party ? ` (${d.party.shortName})` : "";
+    const circ = d.constituency || "";
+    const line = `- **${d.fullName}**${party} — ${circ}`;
+    return verbosity === "summary" ? line : `${line}\n  /politiques/${d.slug}`;
+  });
+
+  return fitBlocks(lines, blocks, deputies.length === 0 ? [t.none] : [], maxChars, t.omitted).text;
 }
 
 export function registerDepartmentTools(server: McpServer): void {
@@ -56,31 +83,39 @@ export function registerDepartmentTools(server: McpServer): void {
           .optional()
           .default("all")
           .describe("Filtrer par type : all (députés + sénateurs), députés, sénateurs"),
+        ...verbosityInputs,
       },
+      outputSchema: GetDepartmentStatsOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Calcul des statistiques par département...",
         "openai/toolInvocation/invoked": "Statistiques calculées",
       },
     },
-    async ({ filter }) => {
-      const data = await fetchAPI<DepartmentStatsResponse>("/api/stats/departments", {
+    withToolErrors(async ({ filter, verbosity, maxChars }) => {
+      const data = await fetchAPI("/api/stats/departments", DepartmentStatsResponseSchema, {
         filter,
       });
 
+      const t = messages();
       const lines: string[] = [];
-      const filterLabel = filter === "deputes" ? "Députés" : filter === "senateurs" ? "Sénateurs" : "Tous les élus";
-      lines.push(`# Statistiques par département — ${filterLabel}`);
+      lines.push(`# ${t.statsHeading} — ${t.filter[filter]}`);
       lines.push("");
-      lines.push(`**${data.stats.totalDepartments} départements** — ${data.stats.totalElus} élus (${data.stats.totalDeputes} députés, ${data.stats.totalSenateurs} sénateurs)`);
+      const { totalDepartments, totalElus, totalDeputes, totalSenateurs } = data.stats;
+      lines.push(t.totals(totalDepartments, totalElus, totalDeputes, totalSenateurs));
       lines.push("");
 
-      // Top 10 departments by number of elected officials
+      // Top departments by number of elected officials; summary mode keeps the totals only
+      const { listItems } = detailLevel(verbosity);
       const sorted = [...data.departments].sort((a, b) => b.totalElus - a.totalElus);
-      lines.push("## Top 10 départements");
-      for (const d of sorted.slice(0, 10)) {
-        const dominant = d.dominantParty ? ` — Dominant : ${d.dominantParty.shortName} (${d.dominantParty.count})` : "";
-        lines.push(`- **${d.name}** (${d.code}) : ${d.totalElus} élus (${d.deputes}D, ${d.senateurs}S)${dominant}`);
+      const top = sorted.slice(0, listItems);
+      if (top.length > 0) {
+        lines.push(`## ${t.top(top.length)}`);
+        for (const d of top) {
+          const dominant = d.dominantParty ? ` — ${t.dominant}${colon()}${d.dominantParty.shortName} (${d.dominantParty.count})` : "";
+          lines.push(`- **${d.name}** (${d.code})${colon()}${t.elus(d.totalElus, d.deputes, d.senateurs)}${dominant}`);
+        }
+        lines.push("");
       }
 
       // Party dominance summary
@@ -92,16 +127,15 @@ export function registerDepartmentTools(server: McpServer): void {
         }
       }
 
-      if (partyDominance.size > 0) {
-        lines.push("");
-        lines.push("## Parti dominant par nombre de départements");
+      if (listItems > 0 && partyDominance.size > 0) {
+        lines.push(`## ${t.dominance}`);
         const dominanceSorted = [...partyDominance.entries()].sort((a, b) => b[1] - a[1]);
-        for (const [party, count] of dominanceSorted) {
-          lines.push(`- **${party}** : ${count} départements`);
+        for (const [party, count] of dominanceSorted.slice(0, listItems)) {
+          lines.push(`- ${field(party, t.departments(count))}`);
         }
+        lines.push("");
       }
 
-      lines.push("");
       lines.push(`https://poligraph.fr/carte`);
 
       const partyDominanceObj: Record<string, number> = {};
@@ -110,7 +144,9 @@ export function registerDepartmentTools(server: McpServer): void {
       }
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [
+          { type: "text" as const, text: fitText(lines.join("\n"), charBudget(maxChars), truncationNote("https://poligraph.fr/carte")) },
+        ],
         structuredContent: {
           stats: data.stats,
           topDepartments: sorted.slice(0, 10).map((d) => ({
@@ -124,9 +160,9 @@ export function registerDepartmentTools(server: McpServer): void {
           })),
           partyDominance: partyDominanceObj,
           url: "https://poligraph.fr/carte",
-        },
+        } satisfies GetDepartmentStatsOutput,
       };
-    },
+    }),
   );
 
   server.registerTool(
@@ -135,36 +171,22 @@ export function registerDepartmentTools(server: McpServer): void {
       description: "Obtenir la liste des députés en exercice dans un département donné.",
       inputSchema: {
         department: z.string().describe("Nom du département (ex: 'Paris', 'Bouches-du-Rhône', 'Nord')"),
+        ...verbosityInputs,
       },
+      outputSchema: GetDeputiesByDepartmentOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Recherche des députés...",
         "openai/toolInvocation/invoked": "Députés trouvés",
       },
     },
-    async ({ department }) => {
-      const data = await fetchAPI<DeputyItem[]>("/api/deputies/by-department", {
+    withToolErrors(async ({ department, verbosity, maxChars }) => {
+      const data = await fetchAPI("/api/deputies/by-department", DeputiesResponseSchema, {
         department,
       });
 
-      const lines: string[] = [];
-      lines.push(`# Députés — ${department}`);
-      lines.push(`**${data.length} député(s) en exercice**`);
-      lines.push("");
-
-      for (const d of data) {
-        const party = d.party ? ` (${d.party.shortName})` : "";
-        const circ = d.constituency || "";
-        lines.push(`- **${d.fullName}**${party} — ${circ}`);
-        lines.push(`  /politiques/${d.slug}`);
-      }
-
-      if (data.length === 0) {
-        lines.push("_Aucun député trouvé pour ce département. Vérifiez l'orthographe (ex: 'Bouches-du-Rhône', pas 'Bouches du Rhône')._");
-      }
-
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text: formatDeputies(department, data, verbosity, charBudget(maxChars)) }],
         structuredContent: {
           department,
           count: data.length,
@@ -175,8 +197,8 @@ export function registerDepartmentTools(server: McpServer): void {
             constituency: d.constituency,
             url: `https://poligraph.fr/politiques/${d.slug}`,
           })),
-        },
+        } satisfies GetDeputiesByDepartmentOutput,
       };
-    },
+    }),
   );
 }
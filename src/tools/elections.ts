@@ -1,110 +1,156 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { fetchAPI, formatDate } from "../api.js";
+import { fetchAPI, formatDate, formatNumber } from "../api.js";
+import {
+  ElectionDetailResponseSchema,
+  ElectionListResponseSchema,
+  type ElectionDetailResponse,
+} from "../schemas.js";
+import {
+  ListElectionsOutputSchema,
+  type ListElectionsOutput,
+  GetElectionOutputSchema,
+  type GetElectionOutput,
+} from "../outputs.js";
+import { ElectionStatusSchema, ElectionTypeSchema, formatElectionStatus, formatElectionType } from "../domain.js";
+import { withToolErrors } from "../errors.js";
+import { colon, defineMessages, field } from "../i18n.js";
+import { formatInputs, renderFormat } from "../formats.js";
+import { fetchPages, listVerbosity, pageFields, paginationInputs, renderPage } from "../pagination.js";
+import { charBudget, detailLevel, fitText, truncationNote, verbosityInputs, type Verbosity } from "../verbosity.js";
+import { suggestElections } from "../suggestions.js";
 
-interface ElectionListItem {
-  id: string;
-  slug: string;
-  type: string;
-  title: string;
-  shortTitle: string | null;
-  status: string;
-  scope: string | null;
-  suffrage: string | null;
-  round1Date: string | null;
-  round2Date: string | null;
-  dateConfirmed: boolean;
-  totalSeats: number | null;
-  candidacyCount: number;
-}
+const messages = defineMessages(
+  {
+    typeLabel: "Type",
+    statusLabel: "Statut",
+    round1: "1er tour",
+    round2: "2nd tour",
+    unconfirmed: "non confirmé",
+    seats: "Sièges",
+    scope: "Portée",
+    suffrage: "Suffrage",
+    rounds: "Tours de scrutin",
+    round: (round: number) => `Tour ${round}`,
+    registered: "Inscrits",
+    voters: "Votants",
+    participation: "Participation",
+    blank: "Bulletins blancs",
+    null: "Bulletins nuls",
+    candidacies: "Candidatures",
+    elected: "Élu(e)s",
+    others: "Autres candidat(e)s",
+    roundPct: (round: number, pct: number) => `T${round}: ${pct}%`,
+    moreCandidates: (count: number) => `... et ${count} autres candidat(s)`,
+    dateUnconfirmed: "Date non confirmée",
+    seatCount: (count: number) => `${count} sièges`,
+    candidateCount: (count: number) => `${count} candidat(s)`,
+    noun: "élection(s)",
+  },
+  {
+    typeLabel: "Type",
+    statusLabel: "Status",
+    round1: "First round",
+    round2: "Second round",
+    unconfirmed: "unconfirmed",
+    seats: "Seats",
+    scope: "Scope",
+    suffrage: "Suffrage",
+    rounds: "Rounds",
+    round: (round: number) => `Round ${round}`,
+    registered: "Registered voters",
+    voters: "Voters",
+    participation: "Turnout",
+    blank: "Blank ballots",
+    null: "Spoilt ballots",
+    candidacies: "Candidacies",
+    elected: "Elected",
+    others: "Other candidates",
+    roundPct: (round: number, pct: number) => `R${round}: ${pct}%`,
+    moreCandidates: (count: number) => `... and ${count} more candidate(s)`,
+    dateUnconfirmed: "Date not confirmed",
+    seatCount: (count: number) => `${count} seats`,
+    candidateCount: (count: number) => `${count} candidate(s)`,
+    noun: "election(s)",
+  },
+);
 
-interface ElectionListResponse {
-  data: ElectionListItem[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
+export function formatElectionDetail(election: ElectionDetailResponse, verbosity: Verbosity = "standard"): string {
+  const t = messages();
+  const { listItems } = detailLevel(verbosity);
+  const lines: string[] = [];
+  const item = (label: string, value: string) => `- ${label}${colon()}${value}`;
 
-interface Candidacy {
-  id: string;
-  candidateName: string;
-  partyLabel: string | null;
-  constituencyName: string | null;
-  isElected: boolean | null;
-  round1Votes: number | null;
-  round1Pct: number | null;
-  round2Votes: number | null;
-  round2Pct: number | null;
-  politician: {
-    id: string;
-    slug: string;
-    fullName: string;
-    photoUrl: string | null;
-  } | null;
-  party: {
-    id: string;
-    slug: string;
-    shortName: string;
-    color: string;
-  } | null;
-}
+  lines.push(`# ${election.title}`);
+  lines.push(field(t.typeLabel, formatElectionType(election.type)));
+  lines.push(field(t.statusLabel, formatElectionStatus(election.status)));
 
-interface Round {
-  round: number;
-  date: string | null;
-  registeredVoters: number | null;
-  actualVoters: number | null;
-  participationRate: number | null;
-  blankVotes: number | null;
-  nullVotes: number | null;
-}
+  if (election.round1Date) {
+    lines.push(field(t.round1, `${formatDate(election.round1Date)}${!election.dateConfirmed ? ` (${t.unconfirmed})` : ""}`));
+  }
+  if (election.round2Date) {
+    lines.push(field(t.round2, formatDate(election.round2Date)));
+  }
+  if (election.totalSeats) {
+    lines.push(field(t.seats, election.totalSeats));
+  }
+  if (election.scope) {
+    lines.push(field(t.scope, election.scope));
+  }
+  if (election.suffrage) {
+    lines.push(field(t.suffrage, election.suffrage));
+  }
 
-interface ElectionDetailResponse {
-  id: string;
-  slug: string;
-  type: string;
-  title: string;
-  shortTitle: string | null;
-  status: string;
-  scope: string | null;
-  suffrage: string | null;
-  round1Date: string | null;
-  round2Date: string | null;
-  dateConfirmed: boolean;
-  totalSeats: number | null;
-  candidacies: Candidacy[];
-  rounds: Round[];
-}
+  // Rounds
+  if (election.rounds.length > 0) {
+    lines.push("");
+    lines.push(`## ${t.rounds}`);
+    for (const r of election.rounds) {
+      lines.push(`### ${t.round(r.round)}${r.date ? ` — ${formatDate(r.date)}` : ""}`);
+      if (r.registeredVoters) lines.push(item(t.registered, formatNumber(r.registeredVoters)));
+      if (r.actualVoters) lines.push(item(t.voters, formatNumber(r.actualVoters)));
+      if (r.participationRate) lines.push(item(t.participation, `${r.participationRate}%`));
+      if (r.blankVotes) lines.push(item(t.blank, formatNumber(r.blankVotes)));
+      if (r.nullVotes) lines.push(item(t.null, formatNumber(r.nullVotes)));
+    }
+  }
 
-function formatElectionType(type: string): string {
-  const labels: Record<string, string> = {
-    PRESIDENTIELLE: "Présidentielle",
-    LEGISLATIVES: "Législatives",
-    SENATORIALES: "Sénatoriales",
-    MUNICIPALES: "Municipales",
-    DEPARTEMENTALES: "Départementales",
-    REGIONALES: "Régionales",
-    EUROPEENNES: "Européennes",
-    REFERENDUM: "Référendum",
-  };
-  return labels[type] || type;
-}
+  // Candidacies
+  if (election.candidacies.length > 0) {
+    lines.push("");
+    lines.push(`## ${t.candidacies} (${election.candidacies.length})`);
 
-function formatElectionStatus(status: string): string {
-  const labels: Record<string, string> = {
-    UPCOMING: "À venir",
-    REGISTRATION: "Inscriptions ouvertes",
-    CANDIDACIES: "Dépôt des candidatures",
-    CAMPAIGN: "Campagne en cours",
-    ROUND_1: "1er tour",
-    BETWEEN_ROUNDS: "Entre-deux-tours",
-    ROUND_2: "2nd tour",
-    COMPLETED: "Terminée",
-  };
-  return labels[status] || status;
+    const elected = election.candidacies.filter((c) => c.isElected);
+    const others = election.candidacies.filter((c) => !c.isElected);
+
+    if (elected.length > 0) {
+      lines.push(`### ${t.elected}`);
+      for (const c of elected) {
+        const party = c.party ? ` (${c.party.shortName})` : c.partyLabel ? ` (${c.partyLabel})` : "";
+        const r1 = c.round1Pct ? ` — ${t.roundPct(1, c.round1Pct)}` : "";
+        const r2 = c.round2Pct ? `, ${t.roundPct(2, c.round2Pct)}` : "";
+        lines.push(`- **${c.candidateName}**${party}${r1}${r2}`);
+      }
+    }
+
+    if (others.length > 0) {
+      lines.push(`### ${t.others}`);
+      for (const c of others.slice(0, listItems)) {
+        const party = c.party ? ` (${c.party.shortName})` : c.partyLabel ? ` (${c.partyLabel})` : "";
+        const r1 = c.round1Pct ? ` — ${t.roundPct(1, c.round1Pct)}` : "";
+        const r2 = c.round2Pct ? `, ${t.roundPct(2, c.round2Pct)}` : "";
+        lines.push(`- ${c.candidateName}${party}${r1}${r2}`);
+      }
+      if (others.length > listItems) {
+        lines.push(`_${t.moreCandidates(others.length - listItems)}_`);
+      }
+    }
+  }
+
+  lines.push("");
+  lines.push(`https://poligraph.fr/elections/${election.slug}`);
+
+  return lines.join("\n");
 }
 
 export function registerElectionTools(server: McpServer): void {
@@ -113,74 +159,71 @@ export function registerElectionTools(server: McpServer): void {
     {
       description: "Lister les élections françaises (présidentielle, législatives, municipales, etc.) avec filtres.",
       inputSchema: {
-        type: z
-          .enum(["PRESIDENTIELLE", "LEGISLATIVES", "SENATORIALES", "MUNICIPALES", "DEPARTEMENTALES", "REGIONALES", "EUROPEENNES", "REFERENDUM"])
-          .optional()
-          .describe("Filtrer par type d'élection"),
-        status: z
-          .enum(["UPCOMING", "REGISTRATION", "CANDIDACIES", "CAMPAIGN", "ROUND_1", "BETWEEN_ROUNDS", "ROUND_2", "COMPLETED"])
-          .optional()
-          .describe("Filtrer par statut"),
+        type: ElectionTypeSchema.optional().describe("Filtrer par type d'élection"),
+        status: ElectionStatusSchema.optional().describe("Filtrer par statut"),
         year: z.number().int().optional().describe("Filtrer par année (ex: 2027)"),
-        page: z.number().int().min(1).default(1).describe("Numéro de page"),
-        limit: z.number().int().min(1).max(100).default(20).describe("Résultats par page (max 100)"),
+        ...paginationInputs,
+        ...verbosityInputs,
+        ...formatInputs,
       },
+      outputSchema: ListElectionsOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Recherche d'élections...",
         "openai/toolInvocation/invoked": "Élections trouvées",
       },
     },
-    async ({ type, status, year, page, limit }) => {
-      const data = await fetchAPI<ElectionListResponse>("/api/elections", {
-        type,
-        status,
-        year,
-        page,
-        limit,
-      });
-
-      const lines: string[] = [];
-      lines.push(`**${data.pagination.total} élection(s)** (page ${data.pagination.page}/${data.pagination.totalPages})`);
-      lines.push("");
+    withToolErrors(async ({ type, status, year, verbosity, maxChars, format, ...paging }) => {
+      const data = await fetchPages(
+        "/api/elections",
+        ElectionListResponseSchema,
+        {
+          type,
+          status,
+          year,
+        },
+        paging,
+        { tool: "list_elections" },
+      );
 
-      for (const e of data.data) {
+      const level = listVerbosity(data, verbosity);
+      const t = messages();
+      const blocks = data.items.map((e) => {
         const typeLabel = formatElectionType(e.type);
         const statusLabel = formatElectionStatus(e.status);
-        const date = e.round1Date ? formatDate(e.round1Date) : "Date non confirmée";
-        const seats = e.totalSeats ? ` — ${e.totalSeats} sièges` : "";
-        const candidacies = e.candidacyCount > 0 ? ` — ${e.candidacyCount} candidat(s)` : "";
+        const date = e.round1Date ? formatDate(e.round1Date) : t.dateUnconfirmed;
+        if (level === "summary") return `- **${e.title}** (${typeLabel}) — ${statusLabel}, ${date}`;
 
-        lines.push(`- **${e.title}** (${typeLabel})`);
-        lines.push(`  ${statusLabel} — ${date}${seats}${candidacies}`);
-        lines.push(`  /elections/${e.slug}`);
-      }
+        const seats = e.totalSeats ? ` — ${t.seatCount(e.totalSeats)}` : "";
+        const candidacies = e.candidacyCount > 0 ? ` — ${t.candidateCount(e.candidacyCount)}` : "";
+        return [
+          `- **${e.title}** (${typeLabel})`,
+          `  ${statusLabel} — ${date}${seats}${candidacies}`,
+          `  /elections/${e.slug}`,
+        ].join("\n");
+      });
 
-      if (data.pagination.page < data.pagination.totalPages) {
-        lines.push("");
-        lines.push(`_Page suivante : page=${data.pagination.page + 1}_`);
-      }
+      const structuredContent = {
+        ...pageFields(data),
+        items: data.items.map((e) => ({
+          slug: e.slug,
+          type: e.type,
+          title: e.title,
+          status: e.status,
+          round1Date: e.round1Date,
+          round2Date: e.round2Date,
+          totalSeats: e.totalSeats,
+          candidacyCount: e.candidacyCount,
+          url: `https://poligraph.fr/elections/${e.slug}`,
+        })),
+      } satisfies ListElectionsOutput;
 
+      const markdown = renderPage(data, t.noun, blocks, maxChars);
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
-        structuredContent: {
-          total: data.pagination.total,
-          page: data.pagination.page,
-          totalPages: data.pagination.totalPages,
-          items: data.data.map((e) => ({
-            slug: e.slug,
-            type: e.type,
-            title: e.title,
-            status: e.status,
-            round1Date: e.round1Date,
-            round2Date: e.round2Date,
-            totalSeats: e.totalSeats,
-            candidacyCount: e.candidacyCount,
-            url: `https://poligraph.fr/elections/${e.slug}`,
-          })),
-        },
+        content: [{ type: "text" as const, text: renderFormat(format, markdown, structuredContent, ListElectionsOutputSchema) }],
+        structuredContent,
       };
-    },
+    }),
   );
 
   server.registerTool(
@@ -189,89 +232,25 @@ export function registerElectionTools(server: McpServer): void {
       description: "Obtenir le détail d'une élection : candidatures, résultats par tour, participation.",
       inputSchema: {
         slug: z.string().describe("Identifiant de l'élection (ex: 'municipales-2026', 'présidentielle-2027')"),
+        ...verbosityInputs,
       },
+      outputSchema: GetElectionOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Chargement de l'élection...",
         "openai/toolInvocation/invoked": "Élection chargée",
       },
     },
-    async ({ slug }) => {
-      const data = await fetchAPI<ElectionDetailResponse>(`/api/elections/${encodeURIComponent(slug)}`);
-
-      const lines: string[] = [];
-
-      lines.push(`# ${data.title}`);
-      lines.push(`**Type** : ${formatElectionType(data.type)}`);
-      lines.push(`**Statut** : ${formatElectionStatus(data.status)}`);
-
-      if (data.round1Date) {
-        lines.push(`**1er tour** : ${formatDate(data.round1Date)}${!data.dateConfirmed ? " (non confirmé)" : ""}`);
-      }
-      if (data.round2Date) {
-        lines.push(`**2nd tour** : ${formatDate(data.round2Date)}`);
-      }
-      if (data.totalSeats) {
-        lines.push(`**Sièges** : ${data.totalSeats}`);
-      }
-      if (data.scope) {
-        lines.push(`**Portée** : ${data.scope}`);
-      }
-      if (data.suffrage) {
-        lines.push(`**Suffrage** : ${data.suffrage}`);
-      }
-
-      // Rounds
-      if (data.rounds.length > 0) {
-        lines.push("");
-        lines.push("## Tours de scrutin");
-        for (const r of data.rounds) {
-          lines.push(`### Tour ${r.round}${r.date ? ` — ${formatDate(r.date)}` : ""}`);
-          if (r.registeredVoters) lines.push(`- Inscrits : ${r.registeredVoters.toLocaleString("fr-FR")}`);
-          if (r.actualVoters) lines.push(`- Votants : ${r.actualVoters.toLocaleString("fr-FR")}`);
-          if (r.participationRate) lines.push(`- Participation : ${r.participationRate}%`);
-          if (r.blankVotes) lines.push(`- Bulletins blancs : ${r.blankVotes.toLocaleString("fr-FR")}`);
-          if (r.nullVotes) lines.push(`- Bulletins nuls : ${r.nullVotes.toLocaleString("fr-FR")}`);
-        }
-      }
-
-      // Candidacies
-      if (data.candidacies.length > 0) {
-        lines.push("");
-        lines.push(`## Candidatures (${data.candidacies.length})`);
-
-        const elected = data.candidacies.filter((c) => c.isElected);
-        const others = data.candidacies.filter((c) => !c.isElected);
-
-        if (elected.length > 0) {
-          lines.push("### Élu(e)s");
-          for (const c of elected) {
-            const party = c.party ? ` (${c.party.shortName})` : c.partyLabel ? ` (${c.partyLabel})` : "";
-            const r1 = c.round1Pct ? ` — T1: ${c.round1Pct}%` : "";
-            const r2 = c.round2Pct ? `, T2: ${c.round2Pct}%` : "";
-            lines.push(`- **${c.candidateName}**${party}${r1}${r2}`);
-          }
-        }
-
-        if (others.length > 0) {
-          lines.push("### Autres candidat(e)s");
-          for (const c of others.slice(0, 20)) {
-            const party = c.party ? ` (${c.party.shortName})` : c.partyLabel ? ` (${c.partyLabel})` : "";
-            const r1 = c.round1Pct ? ` — T1: ${c.round1Pct}%` : "";
-            const r2 = c.round2Pct ? `, T2: ${c.round2Pct}%` : "";
-            lines.push(`- ${c.candidateName}${party}${r1}${r2}`);
-          }
-          if (others.length > 20) {
-            lines.push(`_... et ${others.length - 20} autres candidat(s)_`);
-          }
-        }
-      }
-
-      lines.push("");
-      lines.push(`https://poligraph.fr/elections/${data.slug}`);
+    withToolErrors(async ({ slug, verbosity, maxChars }) => {
+      const data = await fetchAPI(`/api/elections/${encodeURIComponent(slug)}`, ElectionDetailResponseSchema);
+      const text = fitText(
+        formatElectionDetail(data, verbosity),
+        charBudget(maxChars),
+        truncationNote(`https://poligraph.fr/elections/${data.slug}`),
+      );
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text }],
         structuredContent: {
           slug: data.slug,
           type: data.type,
@@ -296,8 +275,8 @@ export function registerElectionTools(server: McpServer): void {
             politicianSlug: c.politician?.slug ?? null,
           })),
           url: `https://poligraph.fr/elections/${data.slug}`,
-        },
+        } satisfies GetElectionOutput,
       };
-    },
+    }, suggestElections),
   );
 }
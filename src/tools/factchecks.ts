@@ -1,136 +1,103 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { fetchAPI, formatDate } from "../api.js";
+import {
+  FactCheckListResponseSchema,
+  FactCheckStatsResponseSchema,
+  PoliticianFactChecksResponseSchema,
+  type FactCheckItem,
+  type PoliticianFactChecksResponse,
+} from "../schemas.js";
+import {
+  ListFactChecksOutputSchema,
+  type ListFactChecksOutput,
+  GetPoliticianFactChecksOutputSchema,
+  type GetPoliticianFactChecksOutput,
+  GetFactCheckStatsOutputSchema,
+  type GetFactCheckStatsOutput,
+} from "../outputs.js";
+import { formatVerdict, VerdictSchema } from "../domain.js";
+import { withToolErrors } from "../errors.js";
+import { colon, defineMessages, field } from "../i18n.js";
+import { formatInputs, renderFormat } from "../formats.js";
+import { fetchPages, listVerbosity, pageFields, paginationInputs, renderPage } from "../pagination.js";
+import {
+  charBudget,
+  detailLevel,
+  fitBlocks,
+  fitText,
+  truncateText,
+  truncationNote,
+  verbosityInputs,
+  type Verbosity,
+} from "../verbosity.js";
+import { resolvePoliticianSlug } from "../resolver.js";
+import { suggestPoliticians } from "../suggestions.js";
 
-interface FactCheckStatsResponse {
-  global: {
-    totalFactChecks: number;
-    byVerdict: Record<string, number>;
-  };
-  byParty: Array<{
-    partyId: string;
-    partyName: string;
-    partyShortName: string;
-    partyColor: string | null;
-    partySlug: string | null;
-    totalMentions: number;
-    byVerdict: Record<string, number>;
-  }>;
-  byPolitician: Array<{
-    politicianId: string;
-    fullName: string;
-    slug: string;
-    partyShortName: string | null;
-    totalMentions: number;
-    byVerdict: Record<string, number>;
-  }>;
-  bySource: Array<{
-    source: string;
-    total: number;
-    byVerdict: Record<string, number>;
-  }>;
-}
-
-interface FactCheckPolitician {
-  id: string;
-  slug: string;
-  fullName: string;
-  currentParty: {
-    shortName: string;
-    name: string;
-  } | null;
-}
-
-interface FactCheckItem {
-  id: string;
-  claimText: string;
-  claimant: string | null;
-  title: string;
-  verdict: string;
-  verdictRating: string;
-  source: string;
-  sourceUrl: string;
-  publishedAt: string;
-  claimDate: string | null;
-  politicians: FactCheckPolitician[];
-}
-
-interface FactCheckListResponse {
-  data: FactCheckItem[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
+const messages = defineMessages(
+  {
+    verdictLabel: "Verdict",
+    source: "Source",
+    publishedAt: "Publié le",
+    claimant: "Déclarant",
+    claimDate: "Date de la déclaration",
+    politicians: "Politicien(s) mentionné(s)",
+    count: (count: number) => `${count} fact-check(s)`,
+    nextPage: "Page suivante",
+    omitted: (count: number) =>
+      `_${count} autre(s) fact-check(s) omis (maxChars) : relancez avec verbosity="summary" pour tous les voir._`,
+    statsHeading: "Statistiques Fact-checks",
+    total: (count: number) => `**${count} fact-checks** au total`,
+    byVerdict: "Répartition par verdict",
+    byParty: "Par parti politique",
+    byPolitician: "Top politiciens fact-checkés",
+    bySource: "Par source",
+    mentions: (count: number) => `${count} mentions`,
+    factchecks: (count: number) => `${count} fact-checks`,
+  },
+  {
+    verdictLabel: "Verdict",
+    source: "Source",
+    publishedAt: "Published",
+    claimant: "Claimant",
+    claimDate: "Date of the claim",
+    politicians: "Politician(s) mentioned",
+    count: (count: number) => `${count} fact-check(s)`,
+    nextPage: "Next page",
+    omitted: (count: number) => `_${count} more fact-check(s) left out (maxChars): call again with verbosity="summary" to see them all._`,
+    statsHeading: "Fact-check statistics",
+    total: (count: number) => `**${count} fact-checks** in total`,
+    byVerdict: "Breakdown by verdict",
+    byParty: "By political party",
+    byPolitician: "Most fact-checked politicians",
+    bySource: "By source",
+    mentions: (count: number) => `${count} mentions`,
+    factchecks: (count: number) => `${count} fact-checks`,
+  },
+);
 
-interface PoliticianFactChecksResponse {
-  politician: {
-    id: string;
-    slug: string;
-    fullName: string;
-    firstName: string;
-    lastName: string;
-    photoUrl: string | null;
-    party: {
-      shortName: string;
-      name: string;
-      color: string;
-    } | null;
-  };
-  factchecks: Array<{
-    id: string;
-    claimText: string;
-    claimant: string | null;
-    title: string;
-    verdict: string;
-    verdictRating: string;
-    source: string;
-    sourceUrl: string;
-    publishedAt: string;
-    claimDate: string | null;
-  }>;
-  total: number;
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
-
-function formatVerdict(rating: string): string {
-  const labels: Record<string, string> = {
-    TRUE: "Vrai",
-    MOSTLY_TRUE: "Plutôt vrai",
-    HALF_TRUE: "À moitié vrai",
-    MISLEADING: "Trompeur",
-    OUT_OF_CONTEXT: "Hors contexte",
-    MOSTLY_FALSE: "Plutôt faux",
-    FALSE: "Faux",
-    UNVERIFIABLE: "Invérifiable",
-  };
-  return labels[rating] || rating;
-}
-
-function formatFactCheck(fc: FactCheckItem | PoliticianFactChecksResponse["factchecks"][0], showPoliticians = false): string {
+function formatFactCheck(
+  fc: FactCheckItem | PoliticianFactChecksResponse["factchecks"][0],
+  showPoliticians = false,
+  verbosity: Verbosity = "standard",
+): string {
+  const t = messages();
   const lines: string[] = [];
 
   lines.push(`### ${fc.title}`);
-  lines.push(`**Verdict** : ${formatVerdict(fc.verdictRating)} — "${fc.verdict}"`);
-  lines.push(`**Source** : [${fc.source}](${fc.sourceUrl})`);
-  lines.push(`**Publié le** : ${formatDate(fc.publishedAt)}`);
+  lines.push(field(t.verdictLabel, `${formatVerdict(fc.verdictRating)} — "${fc.verdict}"`));
+  lines.push(field(t.source, `[${fc.source}](${fc.sourceUrl})`));
+  lines.push(field(t.publishedAt, formatDate(fc.publishedAt)));
 
   if (fc.claimant) {
-    lines.push(`**Déclarant** : ${fc.claimant}`);
+    lines.push(field(t.claimant, fc.claimant));
   }
   if (fc.claimDate) {
-    lines.push(`**Date de la déclaration** : ${formatDate(fc.claimDate)}`);
+    lines.push(field(t.claimDate, formatDate(fc.claimDate)));
   }
 
   lines.push("");
-  lines.push(`> ${fc.claimText}`);
+  lines.push(`> ${truncateText(fc.claimText, detailLevel(verbosity).descriptionChars)}`);
 
   if (showPoliticians && "politicians" in fc) {
     const pols = (fc as FactCheckItem).politicians;
@@ -140,13 +107,17 @@ function formatFactCheck(fc: FactCheckItem | PoliticianFactChecksResponse["factc
         return `${p.fullName}${party}`;
       });
       lines.push("");
-      lines.push(`**Politicien(s) mentionné(s)** : ${names.join(", ")}`);
+      lines.push(field(t.politicians, names.join(", ")));
     }
   }
 
   return lines.join("\n");
 }
 
+function formatFactCheckLine(fc: FactCheckItem | PoliticianFactChecksResponse["factchecks"][0]): string {
+  return `- **${fc.title}** — ${formatVerdict(fc.verdictRating)} (${fc.source}, ${formatDate(fc.publishedAt)})`;
+}
+
 export function registerFactCheckTools(server: McpServer): void {
   server.registerTool(
     "list_factchecks",
@@ -156,64 +127,58 @@ export function registerFactCheckTools(server: McpServer): void {
         search: z.string().optional().describe("Recherche dans le titre ou la déclaration vérifiée"),
         politician: z.string().optional().describe("Filtrer par slug du politicien (ex: 'marine-le-pen')"),
         source: z.string().optional().describe("Filtrer par source (ex: 'AFP Factuel', 'Les Decodeurs')"),
-        verdict: z
-          .enum(["TRUE", "MOSTLY_TRUE", "HALF_TRUE", "MISLEADING", "OUT_OF_CONTEXT", "MOSTLY_FALSE", "FALSE", "UNVERIFIABLE"])
-          .optional()
-          .describe("Filtrer par verdict : TRUE, FALSE, MISLEADING, etc."),
-        page: z.number().int().min(1).default(1).describe("Numéro de page"),
-        limit: z.number().int().min(1).max(100).default(20).describe("Résultats par page (max 100)"),
+        verdict: VerdictSchema.optional().describe("Filtrer par verdict : TRUE, FALSE, MISLEADING, etc."),
+        ...paginationInputs,
+        ...verbosityInputs,
+        ...formatInputs,
       },
+      outputSchema: ListFactChecksOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Recherche de fact-checks...",
         "openai/toolInvocation/invoked": "Fact-checks trouvés",
       },
     },
-    async ({ search, politician, source, verdict, page, limit }) => {
-      const data = await fetchAPI<FactCheckListResponse>("/api/factchecks", {
-        search,
-        politician,
-        source,
-        verdict,
-        page,
-        limit,
-      });
-
-      const lines: string[] = [];
-      lines.push(`**${data.pagination.total} fact-checks** (page ${data.pagination.page}/${data.pagination.totalPages})`);
-      lines.push("");
+    withToolErrors(async ({ search, politician, source, verdict, verbosity, maxChars, format, ...paging }) => {
+      const data = await fetchPages(
+        "/api/factchecks",
+        FactCheckListResponseSchema,
+        {
+          search,
+          politician,
+          source,
+          verdict,
+        },
+        paging,
+        { tool: "list_factchecks" },
+      );
 
-      for (const fc of data.data) {
-        lines.push(formatFactCheck(fc, true));
-        lines.push("");
-        lines.push("---");
-        lines.push("");
-      }
+      const level = listVerbosity(data, verbosity);
+      const blocks = data.items.map((fc) =>
+        level === "summary" ? formatFactCheckLine(fc) : `${formatFactCheck(fc, true, level)}\n\n---\n`,
+      );
 
-      if (data.pagination.page < data.pagination.totalPages) {
-        lines.push(`_Page suivante : page=${data.pagination.page + 1}_`);
-      }
+      const structuredContent = {
+        ...pageFields(data),
+        items: data.items.map((fc) => ({
+          title: fc.title,
+          claimText: fc.claimText,
+          claimant: fc.claimant,
+          verdictRating: fc.verdictRating,
+          verdict: fc.verdict,
+          source: fc.source,
+          sourceUrl: fc.sourceUrl,
+          publishedAt: fc.publishedAt,
+          politicians: fc.politicians.map((p) => ({ slug: p.slug, fullName: p.fullName })),
+        })),
+      } satisfies ListFactChecksOutput;
 
+      const markdown = renderPage(data, "fact-checks", blocks, maxChars);
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
-        structuredContent: {
-          total: data.pagination.total,
-          page: data.pagination.page,
-          totalPages: data.pagination.totalPages,
-          items: data.data.map((fc) => ({
-            title: fc.title,
-            claimText: fc.claimText,
-            claimant: fc.claimant,
-            verdictRating: fc.verdictRating,
-            verdict: fc.verdict,
-            source: fc.source,
-            sourceUrl: fc.sourceUrl,
-            publishedAt: fc.publishedAt,
-            politicians: fc.politicians.map((p) => ({ slug: p.slug, fullName: p.fullName })),
-          })),
-        },
+        content: [{ type: "text" as const, text: renderFormat(format, markdown, structuredContent, ListFactChecksOutputSchema) }],
+        structuredContent,
       };
-    },
+    }),
   );
 
   server.registerTool(
@@ -221,43 +186,46 @@ export function registerFactCheckTools(server: McpServer): void {
     {
       description: "Obtenir les fact-checks mentionnant un politicien spécifique.",
       inputSchema: {
-        slug: z.string().describe("Identifiant du politicien (ex: 'marine-le-pen')"),
+        slug: z.string().describe("Nom ou identifiant du politicien (ex: 'Marine Le Pen', 'marine-le-pen')"),
         page: z.number().int().min(1).default(1).describe("Numéro de page"),
         limit: z.number().int().min(1).max(100).default(20).describe("Résultats par page (max 100)"),
+        ...verbosityInputs,
       },
+      outputSchema: GetPoliticianFactChecksOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Chargement des fact-checks...",
         "openai/toolInvocation/invoked": "Fact-checks chargés",
       },
     },
-    async ({ slug, page, limit }) => {
-      const data = await fetchAPI<PoliticianFactChecksResponse>(
-        `/api/politiques/${encodeURIComponent(slug)}/factchecks`,
+    withToolErrors(async ({ slug, page, limit, verbosity, maxChars }) => {
+      const resolved = await resolvePoliticianSlug(slug);
+      const data = await fetchAPI(
+        `/api/politiques/${encodeURIComponent(resolved)}/factchecks`,
+        PoliticianFactChecksResponseSchema,
         { page, limit },
       );
 
+      const t = messages();
       const lines: string[] = [];
       const party = data.politician.party ? ` (${data.politician.party.name})` : "";
       lines.push(`# Fact-checks — ${data.politician.fullName}${party}`);
-      lines.push(`**${data.total} fact-check(s)**`);
+      lines.push(`**${t.count(data.total)}**`);
       lines.push("");
 
-      for (const fc of data.factchecks) {
-        lines.push(formatFactCheck(fc));
-        lines.push("");
-        lines.push("---");
-        lines.push("");
-      }
-
+      // Summary mode prints one line per fact-check, the others a block each
+      const blocks = data.factchecks.map((fc) =>
+        verbosity === "summary" ? formatFactCheckLine(fc) : `${formatFactCheck(fc, false, verbosity)}\n\n---\n`,
+      );
+      const tail: string[] = verbosity === "summary" && blocks.length > 0 ? [""] : [];
       if (data.pagination.page < data.pagination.totalPages) {
-        lines.push(`_Page suivante : page=${data.pagination.page + 1}_`);
+        tail.push(`_${t.nextPage}${colon()}page=${data.pagination.page + 1}_`);
       }
-
-      lines.push(`https://poligraph.fr/politiques/${data.politician.slug}`);
+      tail.push(`https://poligraph.fr/politiques/${data.politician.slug}`);
+      const { text } = fitBlocks(lines, blocks, tail, charBudget(maxChars), t.omitted);
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text }],
         structuredContent: {
           politician: {
             slug: data.politician.slug,
@@ -276,9 +244,9 @@ export function registerFactCheckTools(server: McpServer): void {
             publishedAt: fc.publishedAt,
           })),
           url: `https://poligraph.fr/politiques/${data.politician.slug}`,
-        },
+        } satisfies GetPoliticianFactChecksOutput,
       };
-    },
+    }, suggestPoliticians),
   );
 
   server.registerTool(
@@ -294,65 +262,71 @@ export function registerFactCheckTools(server: McpServer): void {
           .max(50)
           .default(15)
           .describe("Nombre max de partis/politiciens retournés (max 50)"),
+        ...verbosityInputs,
       },
+      outputSchema: GetFactCheckStatsOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Calcul des statistiques de fact-checks...",
         "openai/toolInvocation/invoked": "Statistiques calculées",
       },
     },
-    async ({ limit }) => {
-      const data = await fetchAPI<FactCheckStatsResponse>("/api/factchecks/stats", { limit });
+    withToolErrors(async ({ limit, verbosity, maxChars }) => {
+      const data = await fetchAPI("/api/factchecks/stats", FactCheckStatsResponseSchema, { limit });
 
+      const t = messages();
       const lines: string[] = [];
 
       // Global
-      lines.push(`# Statistiques Fact-checks`);
-      lines.push(`**${data.global.totalFactChecks} fact-checks** au total`);
+      lines.push(`# ${t.statsHeading}`);
+      lines.push(t.total(data.global.totalFactChecks));
       lines.push("");
-      lines.push("## Répartition par verdict");
+      lines.push(`## ${t.byVerdict}`);
       for (const [verdict, count] of Object.entries(data.global.byVerdict).sort((a, b) => b[1] - a[1])) {
-        lines.push(`- ${formatVerdict(verdict)} : **${count}**`);
+        lines.push(`- ${formatVerdict(verdict)}${colon()}**${count}**`);
       }
 
+      // Summary mode keeps the breakdown by verdict and drops the rankings
+      const rankings = verbosity !== "summary";
+
       // By party
-      if (data.byParty.length > 0) {
+      if (rankings && data.byParty.length > 0) {
         lines.push("");
-        lines.push("## Par parti politique");
+        lines.push(`## ${t.byParty}`);
         for (const party of data.byParty) {
           const verdicts = Object.entries(party.byVerdict)
             .sort((a, b) => b[1] - a[1])
             .map(([v, c]) => `${formatVerdict(v)}: ${c}`)
             .join(", ");
-          lines.push(`- **${party.partyShortName}** (${party.partyName}) — ${party.totalMentions} mentions — ${verdicts}`);
+          lines.push(`- **${party.partyShortName}** (${party.partyName}) — ${t.mentions(party.totalMentions)} — ${verdicts}`);
         }
       }
 
       // By politician
-      if (data.byPolitician.length > 0) {
+      if (rankings && data.byPolitician.length > 0) {
         lines.push("");
-        lines.push("## Top politiciens fact-checkés");
+        lines.push(`## ${t.byPolitician}`);
         for (const pol of data.byPolitician) {
           const party = pol.partyShortName ? ` (${pol.partyShortName})` : "";
           const verdicts = Object.entries(pol.byVerdict)
             .sort((a, b) => b[1] - a[1])
             .map(([v, c]) => `${formatVerdict(v)}: ${c}`)
             .join(", ");
-          lines.push(`- **${pol.fullName}**${party} — ${pol.totalMentions} mentions — ${verdicts}`);
+          lines.push(`- **${pol.fullName}**${party} — ${t.mentions(pol.totalMentions)} — ${verdicts}`);
         }
       }
 
       // By source
-      if (data.bySource.length > 0) {
+      if (rankings && data.bySource.length > 0) {
         lines.push("");
-        lines.push("## Par source");
+        lines.push(`## ${t.bySource}`);
         for (const src of data.bySource) {
-          lines.push(`- **${src.source}** : ${src.total} fact-checks`);
+          lines.push(`- ${field(src.source, t.factchecks(src.total))}`);
         }
       }
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text: fitText(lines.join("\n"), charBudget(maxChars), truncationNote()) }],
         structuredContent: {
           global: data.global,
           byParty: data.byParty.map((p) => ({
@@ -370,8 +344,8 @@ export function registerFactCheckTools(server: McpServer): void {
             byVerdict: p.byVerdict,
           })),
           bySource: data.bySource,
-        },
+        } satisfies GetFactCheckStatsOutput,
       };
-    },
+    }),
   );
 }
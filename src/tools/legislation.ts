@@ -1,47 +1,34 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { fetchAPI } from "../api.js";
+import {
+  AdvancedSearchResponseSchema,
+} from "../schemas.js";
+import {
+  SearchAdvancedOutputSchema,
+  type SearchAdvancedOutput,
+} from "../outputs.js";
+import { formatMandateType, MandateTypeSchema } from "../domain.js";
+import { withToolErrors } from "../errors.js";
+import { colon, defineMessages, field } from "../i18n.js";
+import { charBudget, fitBlocks, verbosityInputs } from "../verbosity.js";
 
-interface SearchResult {
-  id: string;
-  slug: string;
-  fullName: string;
-  photoUrl: string | null;
-  currentParty: {
-    shortName: string;
-    color: string;
-  } | null;
-  currentMandate: {
-    type: string;
-    constituency: string;
-  } | null;
-  affairsCount: number;
-}
-
-interface AdvancedSearchResponse {
-  results: SearchResult[];
-  total: number;
-  page: number;
-  totalPages: number;
-  suggestions?: string[];
-}
-
-function formatMandateType(type: string): string {
-  const labels: Record<string, string> = {
-    DEPUTE: "Député(e)",
-    SENATEUR: "Sénateur/trice",
-    DEPUTE_EUROPEEN: "Député(e) européen(ne)",
-    PRESIDENT: "Président(e) de la République",
-    PREMIER_MINISTRE: "Premier(e) ministre",
-    MINISTRE: "Ministre",
-    MINISTRE_DELEGUE: "Ministre délégué(e)",
-    SECRETAIRE_ETAT: "Secrétaire d'État",
-    MAIRE: "Maire",
-    PRESIDENT_REGION: "Président(e) de région",
-    PRESIDENT_DEPARTEMENT: "Président(e) de département",
-  };
-  return labels[type] || type;
-}
+const messages = defineMessages(
+  {
+    results: "résultats",
+    affairs: (count: number) => `${count} affaire(s)`,
+    suggestions: "Suggestions",
+    nextPage: "Page suivante",
+    omitted: (count: number) => `_${count} autre(s) résultat(s) omis (maxChars) : relancez avec verbosity="summary" pour tous les voir._`,
+  },
+  {
+    results: "results",
+    affairs: (count: number) => `${count} affair(s)`,
+    suggestions: "Suggestions",
+    nextPage: "Next page",
+    omitted: (count: number) => `_${count} more result(s) left out (maxChars): call again with verbosity="summary" to see them all._`,
+  },
+);
 
 export function registerLegislationTools(server: McpServer): void {
   server.registerTool(
@@ -51,32 +38,23 @@ export function registerLegislationTools(server: McpServer): void {
       inputSchema: {
         query: z.string().optional().describe("Recherche par nom ou prénom (min 2 caractères)"),
         party: z.string().optional().describe("Filtrer par ID de parti"),
-        mandate: z
-          .enum([
-            "DEPUTE",
-            "SENATEUR",
-            "MINISTRE",
-            "PREMIER_MINISTRE",
-            "MINISTRE_DELEGUE",
-            "SECRETAIRE_ETAT",
-            "DEPUTE_EUROPEEN",
-          ])
-          .optional()
-          .describe("Filtrer par type de mandat"),
+        mandate: MandateTypeSchema.optional().describe("Filtrer par type de mandat"),
         department: z.string().optional().describe("Filtrer par département (ex: 'Paris', 'Bouches-du-Rhône')"),
         hasAffairs: z.boolean().optional().describe("Filtrer par présence d'affaires judiciaires"),
         isActive: z.boolean().optional().describe("Filtrer les politiciens ayant un mandat actuel"),
         page: z.number().int().min(1).default(1).describe("Numéro de page"),
         limit: z.number().int().min(1).max(100).default(20).describe("Résultats par page (max 100)"),
+        ...verbosityInputs,
       },
+      outputSchema: SearchAdvancedOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Recherche avancée en cours...",
         "openai/toolInvocation/invoked": "Résultats trouvés",
       },
     },
-    async ({ query, party, mandate, department, hasAffairs, isActive, page, limit }) => {
-      const data = await fetchAPI<AdvancedSearchResponse>("/api/search/advanced", {
+    withToolErrors(async ({ query, party, mandate, department, hasAffairs, isActive, page, limit, verbosity, maxChars }) => {
+      const data = await fetchAPI("/api/search/advanced", AdvancedSearchResponseSchema, {
         q: query,
         party,
         mandate,
@@ -87,32 +65,36 @@ export function registerLegislationTools(server: McpServer): void {
         limit,
       });
 
+      const t = messages();
       const lines: string[] = [];
-      lines.push(`**${data.total} résultats** (page ${data.page}/${data.totalPages})`);
+      lines.push(`**${data.total} ${t.results}** (page ${data.page}/${data.totalPages})`);
       lines.push("");
 
-      for (const r of data.results) {
+      // Summary mode leaves out the link line of each result
+      const blocks = data.results.map((r) => {
         const party = r.currentParty ? ` (${r.currentParty.shortName})` : "";
         const mandate = r.currentMandate
           ? ` — ${formatMandateType(r.currentMandate.type)}${r.currentMandate.constituency ? `, ${r.currentMandate.constituency}` : ""}`
           : "";
-        const affairs = r.affairsCount > 0 ? ` [${r.affairsCount} affaire(s)]` : "";
-        lines.push(`- **${r.fullName}**${party}${mandate}${affairs}`);
-        lines.push(`  /politiques/${r.slug}`);
-      }
+        const affairs = r.affairsCount > 0 ? ` [${t.affairs(r.affairsCount)}]` : "";
+        const line = `- **${r.fullName}**${party}${mandate}${affairs}`;
+        return verbosity === "summary" ? line : `${line}\n  /politiques/${r.slug}`;
+      });
 
+      const tail: string[] = [];
       if (data.suggestions && data.suggestions.length > 0) {
-        lines.push("");
-        lines.push("**Suggestions** : " + data.suggestions.join(", "));
+        tail.push("");
+        tail.push(field(t.suggestions, data.suggestions.join(", ")));
       }
 
       if (data.page < data.totalPages) {
-        lines.push("");
-        lines.push(`_Page suivante : page=${data.page + 1}_`);
+        tail.push("");
+        tail.push(`_${t.nextPage}${colon()}page=${data.page + 1}_`);
       }
+      const { text } = fitBlocks(lines, blocks, tail, charBudget(maxChars), t.omitted);
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text }],
         structuredContent: {
           total: data.total,
           page: data.page,
@@ -126,8 +108,8 @@ export function registerLegislationTools(server: McpServer): void {
             url: `https://poligraph.fr/politiques/${r.slug}`,
           })),
           suggestions: data.suggestions ?? [],
-        },
+        } satisfies SearchAdvancedOutput,
       };
-    },
+    }),
   );
 }
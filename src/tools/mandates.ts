@@ -1,57 +1,34 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { fetchAPI, formatDate } from "../api.js";
+import { formatDate } from "../api.js";
+import {
+  MandateListResponseSchema,
+} from "../schemas.js";
+import {
+  ListMandatesOutputSchema,
+  type ListMandatesOutput,
+} from "../outputs.js";
+import { formatMandateType, MandateTypeSchema } from "../domain.js";
+import { withToolErrors } from "../errors.js";
+import { colon, defineMessages } from "../i18n.js";
+import { formatInputs, renderFormat } from "../formats.js";
+import { fetchPages, listVerbosity, pageFields, paginationInputs, renderPage } from "../pagination.js";
+import { verbosityInputs } from "../verbosity.js";
 
-interface MandateItem {
-  id: string;
-  type: string;
-  title: string;
-  institution: string | null;
-  role: string | null;
-  constituency: string | null;
-  departmentCode: string | null;
-  startDate: string;
-  endDate: string | null;
-  isCurrent: boolean;
-  politician: {
-    id: string;
-    slug: string;
-    fullName: string;
-    photoUrl: string | null;
-  };
-}
-
-interface MandateListResponse {
-  data: MandateItem[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
-
-function formatMandateType(type: string): string {
-  const labels: Record<string, string> = {
-    DEPUTE: "Député(e)",
-    SENATEUR: "Sénateur/trice",
-    DEPUTE_EUROPEEN: "Député(e) européen(ne)",
-    PRESIDENT_REPUBLIQUE: "Président(e) de la République",
-    PREMIER_MINISTRE: "Premier(e) ministre",
-    MINISTRE: "Ministre",
-    MINISTRE_DELEGUE: "Ministre délégué(e)",
-    SECRETAIRE_ETAT: "Secrétaire d'État",
-    MAIRE: "Maire",
-    ADJOINT_MAIRE: "Adjoint(e) au maire",
-    PRESIDENT_REGION: "Président(e) de région",
-    PRESIDENT_DEPARTEMENT: "Président(e) de département",
-    CONSEILLER_REGIONAL: "Conseiller/ère régional(e)",
-    CONSEILLER_DEPARTEMENTAL: "Conseiller/ère départemental(e)",
-    CONSEILLER_MUNICIPAL: "Conseiller/ère municipal(e)",
-    PRESIDENT_PARTI: "Président(e) de parti",
-  };
-  return labels[type] || type;
-}
+const messages = defineMessages(
+  {
+    current: "En cours",
+    ended: (date: string) => `Terminé (${date})`,
+    since: (date: string) => `depuis ${date}`,
+    noun: "mandats",
+  },
+  {
+    current: "Current",
+    ended: (date: string) => `Ended (${date})`,
+    since: (date: string) => `since ${date}`,
+    noun: "terms of office",
+  },
+);
 
 export function registerMandateTools(server: McpServer): void {
   server.registerTool(
@@ -59,89 +36,68 @@ export function registerMandateTools(server: McpServer): void {
     {
       description: "Lister les mandats politiques avec filtres par type, institution, statut actif/terminé et politicien.",
       inputSchema: {
-        type: z
-          .enum([
-            "DEPUTE",
-            "SENATEUR",
-            "DEPUTE_EUROPEEN",
-            "PRESIDENT_REPUBLIQUE",
-            "PREMIER_MINISTRE",
-            "MINISTRE",
-            "SECRETAIRE_ETAT",
-            "MINISTRE_DELEGUE",
-            "PRESIDENT_REGION",
-            "PRESIDENT_DEPARTEMENT",
-            "MAIRE",
-            "ADJOINT_MAIRE",
-            "CONSEILLER_REGIONAL",
-            "CONSEILLER_DEPARTEMENTAL",
-            "CONSEILLER_MUNICIPAL",
-            "PRESIDENT_PARTI",
-          ])
-          .optional()
-          .describe("Filtrer par type de mandat"),
+        type: MandateTypeSchema.optional().describe("Filtrer par type de mandat"),
         isCurrent: z.boolean().optional().describe("true = mandats en cours, false = mandats terminés"),
         institution: z.string().optional().describe("Recherche sur l'institution (ex: 'Assemblée', 'Sénat')"),
-        page: z.number().int().min(1).default(1).describe("Numéro de page"),
-        limit: z.number().int().min(1).max(100).default(20).describe("Résultats par page (max 100)"),
+        ...paginationInputs,
+        ...verbosityInputs,
+        ...formatInputs,
       },
+      outputSchema: ListMandatesOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Recherche de mandats...",
         "openai/toolInvocation/invoked": "Mandats trouvés",
       },
     },
-    async ({ type, isCurrent, institution, page, limit }) => {
-      const data = await fetchAPI<MandateListResponse>("/api/mandats", {
-        type,
-        isCurrent: isCurrent !== undefined ? isCurrent : undefined,
-        institution,
-        page,
-        limit,
-      });
-
-      const lines: string[] = [];
-      lines.push(`**${data.pagination.total} mandats** (page ${data.pagination.page}/${data.pagination.totalPages})`);
-      lines.push("");
+    withToolErrors(async ({ type, isCurrent, institution, verbosity, maxChars, format, ...paging }) => {
+      const data = await fetchPages(
+        "/api/mandats",
+        MandateListResponseSchema,
+        {
+          type,
+          isCurrent: isCurrent !== undefined ? isCurrent : undefined,
+          institution,
+        },
+        paging,
+        { tool: "list_mandates" },
+      );
 
-      for (const m of data.data) {
+      const level = listVerbosity(data, verbosity);
+      const t = messages();
+      const blocks = data.items.map((m) => {
         const typeLabel = formatMandateType(m.type);
-        const status = m.isCurrent ? "En cours" : `Terminé (${formatDate(m.endDate)})`;
+        const status = m.isCurrent ? t.current : t.ended(formatDate(m.endDate));
         const constituency = m.constituency ? ` — ${m.constituency}` : "";
         const institution = m.institution ? ` — ${m.institution}` : "";
+        const line = `- **${m.politician.fullName}**${colon()}${typeLabel}${institution}${constituency}`;
+        if (level === "summary") return `${line} (${status})`;
+        return [line, `  ${status} — ${t.since(formatDate(m.startDate))}`, `  /politiques/${m.politician.slug}`].join("\n");
+      });
 
-        lines.push(`- **${m.politician.fullName}** : ${typeLabel}${institution}${constituency}`);
-        lines.push(`  ${status} — depuis ${formatDate(m.startDate)}`);
-        lines.push(`  /politiques/${m.politician.slug}`);
-      }
-
-      if (data.pagination.page < data.pagination.totalPages) {
-        lines.push("");
-        lines.push(`_Page suivante : page=${data.pagination.page + 1}_`);
-      }
+      const structuredContent = {
+        ...pageFields(data),
+        items: data.items.map((m) => ({
+          type: m.type,
+          title: m.title,
+          institution: m.institution,
+          constituency: m.constituency,
+          startDate: m.startDate,
+          endDate: m.endDate,
+          isCurrent: m.isCurrent,
+          politician: {
+            slug: m.politician.slug,
+            fullName: m.politician.fullName,
+            url: `https://poligraph.fr/politiques/${m.politician.slug}`,
+          },
+        })),
+      } satisfies ListMandatesOutput;
 
+      const markdown = renderPage(data, t.noun, blocks, maxChars);
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
-        structuredContent: {
-          total: data.pagination.total,
-          page: data.pagination.page,
-          totalPages: data.pagination.totalPages,
-          items: data.data.map((m) => ({
-            type: m.type,
-            title: m.title,
-            institution: m.institution,
-            constituency: m.constituency,
-            startDate: m.startDate,
-            endDate: m.endDate,
-            isCurrent: m.isCurrent,
-            politician: {
-              slug: m.politician.slug,
-              fullName: m.politician.fullName,
-              url: `https://poligraph.fr/politiques/${m.politician.slug}`,
-            },
-          })),
-        },
+        content: [{ type: "text" as const, text: renderFormat(format, markdown, structuredContent, ListMandatesOutputSchema) }],
+        structuredContent,
       };
-    },
+    }),
   );
 }
@@ -1,90 +1,137 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { fetchAPI, formatDate } from "../api.js";
+import {
+  PartyDetailResponseSchema,
+  PartyListResponseSchema,
+  type PartyDetailResponse,
+} from "../schemas.js";
+import {
+  ListPartiesOutputSchema,
+  type ListPartiesOutput,
+  GetPartyOutputSchema,
+  type GetPartyOutput,
+} from "../outputs.js";
+import { formatMandateType, formatPoliticalPosition, PoliticalPositionSchema } from "../domain.js";
+import { withToolErrors } from "../errors.js";
+import { defineMessages, field } from "../i18n.js";
+import { formatInputs, renderFormat } from "../formats.js";
+import { fetchPages, listVerbosity, pageFields, paginationInputs, renderPage } from "../pagination.js";
+import { charBudget, detailLevel, fitText, truncateText, truncationNote, verbosityInputs, type Verbosity } from "../verbosity.js";
+import { suggestParties } from "../suggestions.js";
+
+const messages = defineMessages(
+  {
+    positionLabel: "Position",
+    members: "Membres",
+    founded: (date: string) => `**Fondé** le ${date}`,
+    dissolved: (date: string) => `**Dissous** le ${date}`,
+    website: "Site web",
+    ideology: "Idéologie",
+    predecessor: "Succède à",
+    successor: "Succédé par",
+    withMandate: "Avec mandat actuel",
+    affairs: (count: number) => `${count} affaire(s)`,
+    moreWithMandate: (count: number) => `... et ${count} autres avec mandat`,
+    former: "Anciens",
+    more: (count: number) => `... et ${count} autres`,
+    noun: "partis",
+    dissolvedTag: "Dissous",
+    memberCount: (count: number) => `${count} membre(s)`,
+  },
+  {
+    positionLabel: "Position",
+    members: "Members",
+    founded: (date: string) => `**Founded** ${date}`,
+    dissolved: (date: string) => `**Dissolved** ${date}`,
+    website: "Website",
+    ideology: "Ideology",
+    predecessor: "Successor to",
+    successor: "Succeeded by",
+    withMandate: "Currently holding office",
+    affairs: (count: number) => `${count} affair(s)`,
+    moreWithMandate: (count: number) => `... and ${count} more holding office`,
+    former: "Former",
+    more: (count: number) => `... and ${count} more`,
+    noun: "parties",
+    dissolvedTag: "Dissolved",
+    memberCount: (count: number) => `${count} member(s)`,
+  },
+);
+
+export function formatPartyDetail(party: PartyDetailResponse, verbosity: Verbosity = "standard"): string {
+  const t = messages();
+  const level = detailLevel(verbosity);
+  const lines: string[] = [];
+
+  lines.push(`# ${party.name} (${party.shortName})`);
+  lines.push(field(t.positionLabel, formatPoliticalPosition(party.politicalPosition)));
+  lines.push(field(t.members, party.memberCount));
+
+  if (party.foundedDate) {
+    lines.push(t.founded(formatDate(party.foundedDate)));
+  }
+  if (party.dissolvedDate) {
+    lines.push(t.dissolved(formatDate(party.dissolvedDate)));
+  }
+  if (party.website) {
+    lines.push(field(t.website, party.website));
+  }
+  if (party.ideology) {
+    lines.push(field(t.ideology, party.ideology));
+  }
+  if (party.description) {
+    lines.push("");
+    lines.push(truncateText(party.description, level.descriptionChars));
+  }
+
+  // Filiation
+  if (party.predecessor) {
+    lines.push("");
+    lines.push(field(t.predecessor, `${party.predecessor.name} (${party.predecessor.shortName}) — /partis/${party.predecessor.slug}`));
+  }
+  if (party.successors.length > 0) {
+    for (const s of party.successors) {
+      lines.push(field(t.successor, `${s.name} (${s.shortName}) — /partis/${s.slug}`));
+    }
+  }
+
+  // Members with current mandates
+  if (party.members.length > 0) {
+    lines.push("");
+    lines.push(`## ${t.members} (${party.members.length})`);
+    const withMandate = party.members.filter((m) => m.currentMandate);
+    const withoutMandate = party.members.filter((m) => !m.currentMandate);
+
+    if (withMandate.length > 0) {
+      lines.push(`### ${t.withMandate}`);
+      for (const m of withMandate.slice(0, level.listItems)) {
+        const mandate = m.currentMandate ? ` — ${formatMandateType(m.currentMandate.type)}` : "";
+        const affairs = m.affairsCount > 0 ? ` [${t.affairs(m.affairsCount)}]` : "";
+        lines.push(`- **${m.fullName}**${mandate}${affairs}`);
+      }
+      if (withMandate.length > level.listItems) {
+        lines.push(`_${t.moreWithMandate(withMandate.length - level.listItems)}_`);
+      }
+    }
+
+    if (withoutMandate.length > 0) {
+      lines.push(`### ${t.former} (${withoutMandate.length})`);
+      // Former members get half the room of current ones
+      const formerItems = level.listItems / 2;
+      for (const m of withoutMandate.slice(0, formerItems)) {
+        lines.push(`- ${m.fullName}`);
+      }
+      if (withoutMandate.length > formerItems) {
+        lines.push(`_${t.more(withoutMandate.length - formerItems)}_`);
+      }
+    }
+  }
 
-interface PartyListItem {
-  id: string;
-  slug: string;
-  name: string;
-  shortName: string;
-  color: string;
-  politicalPosition: string | null;
-  logoUrl: string | null;
-  foundedDate: string | null;
-  dissolvedDate: string | null;
-  website: string | null;
-  memberCount: number;
-}
-
-interface PartyListResponse {
-  data: PartyListItem[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
-
-interface PartyMember {
-  id: string;
-  slug: string;
-  fullName: string;
-  photoUrl: string | null;
-  currentMandate: { type: string; title: string } | null;
-  affairsCount: number;
-}
-
-interface PartyDetailResponse {
-  id: string;
-  slug: string;
-  name: string;
-  shortName: string;
-  color: string;
-  politicalPosition: string | null;
-  logoUrl: string | null;
-  foundedDate: string | null;
-  dissolvedDate: string | null;
-  website: string | null;
-  description: string | null;
-  ideology: string | null;
-  memberCount: number;
-  members: PartyMember[];
-  externalIds: Array<{ source: string; externalId: string; url: string | null }>;
-  predecessor: { id: string; slug: string; name: string; shortName: string } | null;
-  successors: Array<{ id: string; slug: string; name: string; shortName: string }>;
-}
-
-function formatPosition(position: string | null): string {
-  if (!position) return "Non classé";
-  const labels: Record<string, string> = {
-    FAR_LEFT: "Extrême gauche",
-    LEFT: "Gauche",
-    CENTER_LEFT: "Centre-gauche",
-    CENTER: "Centre",
-    CENTER_RIGHT: "Centre-droit",
-    RIGHT: "Droite",
-    FAR_RIGHT: "Extrême droite",
-  };
-  return labels[position] || position;
-}
+  lines.push("");
+  lines.push(`https://poligraph.fr/partis/${party.slug}`);
 
-function formatMandateType(type: string): string {
-  const labels: Record<string, string> = {
-    DEPUTE: "Député(e)",
-    SENATEUR: "Sénateur/trice",
-    DEPUTE_EUROPEEN: "Député(e) européen(ne)",
-    PRESIDENT: "Président(e) de la République",
-    PREMIER_MINISTRE: "Premier(e) ministre",
-    MINISTRE: "Ministre",
-    MINISTRE_DELEGUE: "Ministre délégué(e)",
-    SECRETAIRE_ETAT: "Secrétaire d'État",
-    MAIRE: "Maire",
-    PRESIDENT_REGION: "Président(e) de région",
-    PRESIDENT_DEPARTEMENT: "Président(e) de département",
-    PRESIDENT_PARTI: "Président(e) de parti",
-  };
-  return labels[type] || type;
+  return lines.join("\n");
 }
 
 export function registerPartyTools(server: McpServer): void {
@@ -94,63 +141,60 @@ export function registerPartyTools(server: McpServer): void {
       description: "Lister les partis politiques français avec filtres par position politique et statut.",
       inputSchema: {
         search: z.string().optional().describe("Recherche par nom ou abréviation (ex: 'LFI', 'Républicains')"),
-        position: z
-          .enum(["FAR_LEFT", "LEFT", "CENTER_LEFT", "CENTER", "CENTER_RIGHT", "RIGHT", "FAR_RIGHT"])
-          .optional()
-          .describe("Filtrer par position sur l'échiquier politique"),
+        position: PoliticalPositionSchema.optional().describe("Filtrer par position sur l'échiquier politique"),
         active: z.boolean().optional().describe("true = partis actifs (non dissous avec des membres), false = partis dissous"),
-        page: z.number().int().min(1).default(1).describe("Numéro de page"),
-        limit: z.number().int().min(1).max(100).default(20).describe("Résultats par page (max 100)"),
+        ...paginationInputs,
+        ...verbosityInputs,
+        ...formatInputs,
       },
+      outputSchema: ListPartiesOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Recherche de partis politiques...",
         "openai/toolInvocation/invoked": "Partis trouvés",
       },
     },
-    async ({ search, position, active, page, limit }) => {
-      const data = await fetchAPI<PartyListResponse>("/api/partis", {
-        search,
-        position,
-        active: active !== undefined ? active : undefined,
-        page,
-        limit,
+    withToolErrors(async ({ search, position, active, verbosity, maxChars, format, ...paging }) => {
+      const data = await fetchPages(
+        "/api/partis",
+        PartyListResponseSchema,
+        {
+          search,
+          position,
+          active: active !== undefined ? active : undefined,
+        },
+        paging,
+        { tool: "list_parties" },
+      );
+
+      const level = listVerbosity(data, verbosity);
+      const t = messages();
+      const blocks = data.items.map((p) => {
+        const pos = formatPoliticalPosition(p.politicalPosition);
+        const dissolved = p.dissolvedDate ? ` [${t.dissolvedTag}]` : "";
+        const line = `- **${p.name}** (${p.shortName}) — ${pos}, ${t.memberCount(p.memberCount)}${dissolved}`;
+        return level === "summary" ? line : `${line}\n  /partis/${p.slug}`;
       });
 
-      const lines: string[] = [];
-      lines.push(`**${data.pagination.total} partis** (page ${data.pagination.page}/${data.pagination.totalPages})`);
-      lines.push("");
-
-      for (const p of data.data) {
-        const pos = formatPosition(p.politicalPosition);
-        const dissolved = p.dissolvedDate ? " [Dissous]" : "";
-        lines.push(`- **${p.name}** (${p.shortName}) — ${pos}, ${p.memberCount} membre(s)${dissolved}`);
-        lines.push(`  /partis/${p.slug}`);
-      }
-
-      if (data.pagination.page < data.pagination.totalPages) {
-        lines.push("");
-        lines.push(`_Page suivante : page=${data.pagination.page + 1}_`);
-      }
-
+      const structuredContent = {
+        ...pageFields(data),
+        items: data.items.map((p) => ({
+          slug: p.slug,
+          name: p.name,
+          shortName: p.shortName,
+          politicalPosition: p.politicalPosition,
+          memberCount: p.memberCount,
+          dissolvedDate: p.dissolvedDate,
+          url: `https://poligraph.fr/partis/${p.slug}`,
+        })),
+      } satisfies ListPartiesOutput;
+
+      const markdown = renderPage(data, t.noun, blocks, maxChars);
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
-        structuredContent: {
-          total: data.pagination.total,
-          page: data.pagination.page,
-          totalPages: data.pagination.totalPages,
-          items: data.data.map((p) => ({
-            slug: p.slug,
-            name: p.name,
-            shortName: p.shortName,
-            politicalPosition: p.politicalPosition,
-            memberCount: p.memberCount,
-            dissolvedDate: p.dissolvedDate,
-            url: `https://poligraph.fr/partis/${p.slug}`,
-          })),
-        },
+        content: [{ type: "text" as const, text: renderFormat(format, markdown, structuredContent, ListPartiesOutputSchema) }],
+        structuredContent,
       };
-    },
+    }),
   );
 
   server.registerTool(
@@ -159,85 +203,25 @@ export function registerPartyTools(server: McpServer): void {
       description: "Obtenir la fiche complète d'un parti politique : membres, position, filiation, liens externes.",
       inputSchema: {
         slug: z.string().describe("Identifiant du parti (ex: 'renaissance', 'rassemblement-national', 'la-france-insoumise')"),
+        ...verbosityInputs,
       },
+      outputSchema: GetPartyOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Chargement du parti...",
         "openai/toolInvocation/invoked": "Parti chargé",
       },
     },
-    async ({ slug }) => {
-      const data = await fetchAPI<PartyDetailResponse>(`/api/partis/${encodeURIComponent(slug)}`);
-
-      const lines: string[] = [];
-
-      lines.push(`# ${data.name} (${data.shortName})`);
-      lines.push(`**Position** : ${formatPosition(data.politicalPosition)}`);
-      lines.push(`**Membres** : ${data.memberCount}`);
-
-      if (data.foundedDate) {
-        lines.push(`**Fondé** le ${formatDate(data.foundedDate)}`);
-      }
-      if (data.dissolvedDate) {
-        lines.push(`**Dissous** le ${formatDate(data.dissolvedDate)}`);
-      }
-      if (data.website) {
-        lines.push(`**Site web** : ${data.website}`);
-      }
-      if (data.ideology) {
-        lines.push(`**Idéologie** : ${data.ideology}`);
-      }
-      if (data.description) {
-        lines.push("");
-        lines.push(data.description);
-      }
-
-      // Filiation
-      if (data.predecessor) {
-        lines.push("");
-        lines.push(`**Succède à** : ${data.predecessor.name} (${data.predecessor.shortName}) — /partis/${data.predecessor.slug}`);
-      }
-      if (data.successors.length > 0) {
-        for (const s of data.successors) {
-          lines.push(`**Succédé par** : ${s.name} (${s.shortName}) — /partis/${s.slug}`);
-        }
-      }
-
-      // Members with current mandates
-      if (data.members.length > 0) {
-        lines.push("");
-        lines.push(`## Membres (${data.members.length})`);
-        const withMandate = data.members.filter((m) => m.currentMandate);
-        const withoutMandate = data.members.filter((m) => !m.currentMandate);
-
-        if (withMandate.length > 0) {
-          lines.push("### Avec mandat actuel");
-          for (const m of withMandate.slice(0, 30)) {
-            const mandate = m.currentMandate ? ` — ${formatMandateType(m.currentMandate.type)}` : "";
-            const affairs = m.affairsCount > 0 ? ` [${m.affairsCount} affaire(s)]` : "";
-            lines.push(`- **${m.fullName}**${mandate}${affairs}`);
-          }
-          if (withMandate.length > 30) {
-            lines.push(`_... et ${withMandate.length - 30} autres avec mandat_`);
-          }
-        }
-
-        if (withoutMandate.length > 0) {
-          lines.push(`### Anciens (${withoutMandate.length})`);
-          for (const m of withoutMandate.slice(0, 10)) {
-            lines.push(`- ${m.fullName}`);
-          }
-          if (withoutMandate.length > 10) {
-            lines.push(`_... et ${withoutMandate.length - 10} autres_`);
-          }
-        }
-      }
-
-      lines.push("");
-      lines.push(`https://poligraph.fr/partis/${data.slug}`);
+    withToolErrors(async ({ slug, verbosity, maxChars }) => {
+      const data = await fetchAPI(`/api/partis/${encodeURIComponent(slug)}`, PartyDetailResponseSchema);
+      const text = fitText(
+        formatPartyDetail(data, verbosity),
+        charBudget(maxChars),
+        truncationNote(`https://poligraph.fr/partis/${data.slug}`),
+      );
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text }],
         structuredContent: {
           slug: data.slug,
           name: data.name,
@@ -253,8 +237,8 @@ export function registerPartyTools(server: McpServer): void {
           successors: data.successors.map((s) => ({ slug: s.slug, name: s.name, shortName: s.shortName })),
           membersWithMandate: data.members.filter((m) => m.currentMandate).length,
           url: `https://poligraph.fr/partis/${data.slug}`,
-        },
+        } satisfies GetPartyOutput,
       };
-    },
+    }, suggestParties),
   );
 }
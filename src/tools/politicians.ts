@@ -1,153 +1,154 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { fetchAPI, formatDate } from "../api.js";
-
-interface PoliticianListItem {
-  id: string;
-  slug: string;
-  fullName: string;
-  firstName: string;
-  lastName: string;
-  civility: string;
-  birthDate: string;
-  deathDate: string | null;
-  birthPlace: string;
-  photoUrl: string | null;
-  currentParty: {
-    id: string;
-    name: string;
-    shortName: string;
-    color: string;
-  } | null;
-}
-
-interface PoliticianListResponse {
-  data: PoliticianListItem[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
-
-interface Mandate {
-  id: string;
-  type: string;
-  title: string;
-  institution: string;
-  constituency: string | null;
-  startDate: string;
-  endDate: string | null;
-  isCurrent: boolean;
-}
-
-interface Declaration {
-  id: string;
-  type: string;
-  year: number;
-  url: string;
-}
-
-interface PoliticianDetail extends PoliticianListItem {
-  mandates: Mandate[];
-  declarations: Declaration[];
-  affairsCount: number;
-  factchecksCount?: number;
-}
-
-function formatPoliticianSummary(p: PoliticianListItem): string {
+import {
+  PoliticianDetailSchema,
+  PoliticianListResponseSchema,
+  RelationsResponseSchema,
+  type PoliticianDetail,
+  type PoliticianListItem,
+} from "../schemas.js";
+import {
+  SearchPoliticiansOutputSchema,
+  type SearchPoliticiansOutput,
+  GetPoliticianRelationsOutputSchema,
+  type GetPoliticianRelationsOutput,
+  GetPoliticianOutputSchema,
+  type GetPoliticianOutput,
+} from "../outputs.js";
+import type { ToolFilter } from "../config.js";
+import { formatMandateType, formatRelationType, MandateTypeSchema, RELATION_TYPES } from "../domain.js";
+import { withToolErrors } from "../errors.js";
+import { colon, defineMessages, field } from "../i18n.js";
+import { formatInputs, renderFormat } from "../formats.js";
+import { fetchPages, listVerbosity, pageFields, paginationInputs, renderPage } from "../pagination.js";
+import { charBudget, detailLevel, fitBlocks, fitText, truncationNote, verbosityInputs, type Verbosity } from "../verbosity.js";
+import { resolvePoliticianSlug } from "../resolver.js";
+import { suggestPoliticians } from "../suggestions.js";
+
+const messages = defineMessages(
+  {
+    deceased: "Décédé(e)",
+    party: "Parti",
+    born: (female: boolean, date: string, place: string | null) =>
+      `**${female ? "Née" : "Né"}** le ${date}${place ? ` à ${place}` : ""}`,
+    died: (date: string) => `**Décédé(e)** le ${date}`,
+    mandates: "Mandats",
+    current: "En cours",
+    past: "Anciens mandats",
+    since: (date: string) => `depuis ${date}`,
+    declarations: "Déclarations HATVP",
+    affairs: "Affaires judiciaires",
+    useTool: (tool: string, slug: string) => `Utilisez l'outil ${tool} avec le slug "${slug}" pour les détails.`,
+    results: "résultats",
+    relations: "Relations",
+    connections: (count: number) => `${count} connexions`,
+    more: (count: number) => `... et ${count} autres`,
+    omittedRelations: (count: number) =>
+      `_${count} autre(s) type(s) de relation omis (maxChars) : relancez avec verbosity="summary" pour tous les voir._`,
+  },
+  {
+    deceased: "Deceased",
+    party: "Party",
+    born: (_female: boolean, date: string, place: string | null) => `**Born** ${date}${place ? ` in ${place}` : ""}`,
+    died: (date: string) => `**Died** ${date}`,
+    mandates: "Terms of office",
+    current: "Current",
+    past: "Past terms",
+    since: (date: string) => `since ${date}`,
+    declarations: "HATVP declarations",
+    affairs: "Judicial affairs",
+    useTool: (tool: string, slug: string) => `Use the ${tool} tool with the slug "${slug}" for details.`,
+    results: "results",
+    relations: "Relations",
+    connections: (count: number) => `${count} connections`,
+    more: (count: number) => `... and ${count} more`,
+    omittedRelations: (count: number) =>
+      `_${count} more relation type(s) left out (maxChars): call again with verbosity="summary" to see them all._`,
+  },
+);
+
+function formatPoliticianSummary(p: PoliticianListItem, verbosity: Verbosity = "standard"): string {
   const party = p.currentParty ? ` (${p.currentParty.shortName})` : "";
-  const deceased = p.deathDate ? ` [Décédé(e)]` : "";
-  return `- **${p.fullName}**${party}${deceased} — /politiques/${p.slug}`;
+  const deceased = p.deathDate ? ` [${messages().deceased}]` : "";
+  const line = `- **${p.fullName}**${party}${deceased}`;
+  return verbosity === "summary" ? line : `${line} — /politiques/${p.slug}`;
 }
 
-function formatMandateType(type: string): string {
-  const labels: Record<string, string> = {
-    DEPUTE: "Député(e)",
-    SENATEUR: "Sénateur/trice",
-    DEPUTE_EUROPEEN: "Député(e) européen(ne)",
-    PRESIDENT: "Président(e) de la République",
-    PREMIER_MINISTRE: "Premier(e) ministre",
-    MINISTRE: "Ministre",
-    MINISTRE_DELEGUE: "Ministre délégué(e)",
-    SECRETAIRE_ETAT: "Secrétaire d'État",
-    MAIRE: "Maire",
-    PRESIDENT_REGION: "Président(e) de région",
-    PRESIDENT_DEPARTEMENT: "Président(e) de département",
-    CONSEILLER_REGIONAL: "Conseiller/ère régional(e)",
-    CONSEILLER_DEPARTEMENTAL: "Conseiller/ère départemental(e)",
-    CONSEILLER_MUNICIPAL: "Conseiller/ère municipal(e)",
-    PRESIDENT_PARTI: "Président(e) de parti",
-  };
-  return labels[type] || type;
-}
-
-function formatPoliticianDetail(p: PoliticianDetail): string {
+/**
+ * Detail of a politician; sections pointing to a tool left out of `tools` are
+ * omitted. Past terms and declarations list `listItems` entries each.
+ */
+export function formatPoliticianDetail(
+  p: PoliticianDetail,
+  tools: ToolFilter = () => true,
+  verbosity: Verbosity = "standard",
+): string {
+  const t = messages();
+  const { listItems } = detailLevel(verbosity);
   const lines: string[] = [];
 
   lines.push(`# ${p.fullName}`);
   if (p.currentParty) {
     lines.push(
-      `**Parti** : ${p.currentParty.name} (${p.currentParty.shortName})`,
+      field(t.party, `${p.currentParty.name} (${p.currentParty.shortName})`),
     );
   }
-  const bornLabel = p.civility === "Mme" ? "Née" : "Né";
-  lines.push(
-    `**${bornLabel}** le ${formatDate(p.birthDate)} à ${p.birthPlace}`,
-  );
+  lines.push(t.born(p.civility === "Mme", formatDate(p.birthDate), p.birthPlace));
   if (p.deathDate) {
-    lines.push(`**Décédé(e)** le ${formatDate(p.deathDate)}`);
+    lines.push(t.died(formatDate(p.deathDate)));
   }
 
   if (p.mandates.length > 0) {
     lines.push("");
-    lines.push("## Mandats");
+    lines.push(`## ${t.mandates}`);
     const current = p.mandates.filter((m) => m.isCurrent);
     const past = p.mandates.filter((m) => !m.isCurrent);
 
     if (current.length > 0) {
-      lines.push("### En cours");
+      lines.push(`### ${t.current}`);
       for (const m of current) {
         const constituency = m.constituency ? ` — ${m.constituency}` : "";
         lines.push(
-          `- ${formatMandateType(m.type)} : ${m.title}${constituency} (depuis ${formatDate(m.startDate)})`,
+          `- ${formatMandateType(m.type)}${colon()}${m.title}${constituency} (${t.since(formatDate(m.startDate))})`,
         );
       }
     }
-    if (past.length > 0) {
-      lines.push("### Anciens mandats");
-      for (const m of past) {
+    if (past.length > 0 && listItems > 0) {
+      lines.push(`### ${t.past}`);
+      for (const m of past.slice(0, listItems)) {
         const constituency = m.constituency ? ` — ${m.constituency}` : "";
         lines.push(
-          `- ${formatMandateType(m.type)} : ${m.title}${constituency} (${formatDate(m.startDate)} → ${formatDate(m.endDate)})`,
+          `- ${formatMandateType(m.type)}${colon()}${m.title}${constituency} (${formatDate(m.startDate)} → ${formatDate(m.endDate)})`,
         );
       }
+      if (past.length > listItems) {
+        lines.push(`_${t.more(past.length - listItems)}_`);
+      }
     }
   }
 
-  if (p.declarations.length > 0) {
+  if (p.declarations.length > 0 && listItems > 0) {
     lines.push("");
-    lines.push("## Déclarations HATVP");
-    for (const d of p.declarations) {
-      lines.push(`- ${d.type} (${d.year}) : ${d.url}`);
+    lines.push(`## ${t.declarations}`);
+    for (const d of p.declarations.slice(0, listItems)) {
+      lines.push(`- ${d.type} (${d.year})${colon()}${d.url}`);
+    }
+    if (p.declarations.length > listItems) {
+      lines.push(`_${t.more(p.declarations.length - listItems)}_`);
     }
   }
 
-  if (p.affairsCount > 0) {
+  if (p.affairsCount > 0 && tools("get_politician_affairs")) {
     lines.push("");
-    lines.push(`## Affaires judiciaires : ${p.affairsCount}`);
-    lines.push(
-      `Utilisez l'outil get_politician_affairs avec le slug "${p.slug}" pour les détails.`,
-    );
+    lines.push(`## ${t.affairs}${colon()}${p.affairsCount}`);
+    lines.push(t.useTool("get_politician_affairs", p.slug));
   }
 
-  if (p.factchecksCount && p.factchecksCount > 0) {
+  if (p.factchecksCount && p.factchecksCount > 0 && tools("get_politician_factchecks")) {
     lines.push("");
-    lines.push(`## Fact-checks : ${p.factchecksCount}`);
-    lines.push(
-      `Utilisez l'outil get_politician_factchecks avec le slug "${p.slug}" pour les détails.`,
-    );
+    lines.push(`## Fact-checks${colon()}${p.factchecksCount}`);
+    lines.push(t.useTool("get_politician_factchecks", p.slug));
   }
 
   lines.push("");
@@ -156,44 +157,7 @@ function formatPoliticianDetail(p: PoliticianDetail): string {
   return lines.join("\n");
 }
 
-interface RelationNode {
-  id: string;
-  slug: string;
-  fullName: string;
-  photoUrl: string | null;
-  party: { shortName: string; color: string | null } | null;
-  mandateType: string;
-}
-
-interface RelationCluster {
-  type: string;
-  label: string;
-  nodes: RelationNode[];
-  links: Array<{
-    source: string;
-    target: string;
-    type: string;
-    label?: string;
-  }>;
-}
-
-interface RelationsResponse {
-  center: RelationNode;
-  clusters: RelationCluster[];
-  stats: { totalConnections: number; byType: Record<string, number> };
-}
-
-function formatRelationType(type: string): string {
-  const labels: Record<string, string> = {
-    SAME_GOVERNMENT: "Même gouvernement",
-    SHARED_COMPANY: "Entreprises en commun",
-    SAME_DEPARTMENT: "Même département",
-    PARTY_HISTORY: "Anciens collègues de parti",
-  };
-  return labels[type] || type;
-}
-
-export function registerPoliticianTools(server: McpServer): void {
+export function registerPoliticianTools(server: McpServer, tools: ToolFilter = () => true): void {
   server.registerTool(
     "search_politicians",
     {
@@ -205,37 +169,16 @@ export function registerPoliticianTools(server: McpServer): void {
           .optional()
           .describe("Recherche par nom (ex: 'Macron', 'Marine')"),
         party: z.string().optional().describe("Filtrer par ID de parti"),
-        mandateType: z
-          .enum([
-            "DEPUTE",
-            "SENATEUR",
-            "DEPUTE_EUROPEEN",
-            "PRESIDENT",
-            "PREMIER_MINISTRE",
-            "MINISTRE",
-            "SECRETAIRE_ETAT",
-            "MAIRE",
-            "PRESIDENT_REGION",
-            "PRESIDENT_DEPARTEMENT",
-            "CONSEILLER_REGIONAL",
-            "CONSEILLER_DEPARTEMENTAL",
-            "CONSEILLER_MUNICIPAL",
-          ])
-          .optional()
-          .describe("Filtrer par type de mandat"),
+        mandateType: MandateTypeSchema.optional().describe("Filtrer par type de mandat"),
         hasAffairs: z
           .boolean()
           .optional()
           .describe("Filtrer les politiciens ayant des affaires judiciaires"),
-        page: z.number().int().min(1).default(1).describe("Numéro de page"),
-        limit: z
-          .number()
-          .int()
-          .min(1)
-          .max(100)
-          .default(20)
-          .describe("Résultats par page (max 100)"),
+        ...paginationInputs,
+        ...verbosityInputs,
+        ...formatInputs,
       },
+      outputSchema: SearchPoliticiansOutputSchema,
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -246,53 +189,46 @@ export function registerPoliticianTools(server: McpServer): void {
         "openai/toolInvocation/invoked": "Politiciens trouvés",
       },
     },
-    async ({ query, party, mandateType, hasAffairs, page, limit }) => {
-      const data = await fetchAPI<PoliticianListResponse>("/api/politiques", {
-        search: query,
-        partyId: party,
-        mandateType,
-        hasAffairs: hasAffairs !== undefined ? hasAffairs : undefined,
-        page,
-        limit,
-      });
-
-      const lines: string[] = [];
-      lines.push(
-        `**${data.pagination.total} résultats** (page ${data.pagination.page}/${data.pagination.totalPages})`,
+    withToolErrors(async ({ query, party, mandateType, hasAffairs, verbosity, maxChars, format, ...paging }) => {
+      const data = await fetchPages(
+        "/api/politiques",
+        PoliticianListResponseSchema,
+        {
+          search: query,
+          partyId: party,
+          mandateType,
+          hasAffairs: hasAffairs !== undefined ? hasAffairs : undefined,
+        },
+        paging,
+        { tool: "search_politicians" },
       );
-      lines.push("");
 
-      for (const p of data.data) {
-        lines.push(formatPoliticianSummary(p));
-      }
+      const level = listVerbosity(data, verbosity);
+      const blocks = data.items.map((p) => formatPoliticianSummary(p, level));
 
-      if (data.pagination.page < data.pagination.totalPages) {
-        lines.push("");
-        lines.push(`_Page suivante : page=${data.pagination.page + 1}_`);
-      }
+      const structuredContent = {
+        ...pageFields(data),
+        items: data.items.map((p) => ({
+          slug: p.slug,
+          fullName: p.fullName,
+          party: p.currentParty
+            ? {
+                name: p.currentParty.name,
+                shortName: p.currentParty.shortName,
+              }
+            : null,
+          birthDate: p.birthDate,
+          deathDate: p.deathDate,
+          url: `https://poligraph.fr/politiques/${p.slug}`,
+        })),
+      } satisfies SearchPoliticiansOutput;
 
+      const markdown = renderPage(data, messages().results, blocks, maxChars);
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
-        structuredContent: {
-          total: data.pagination.total,
-          page: data.pagination.page,
-          totalPages: data.pagination.totalPages,
-          items: data.data.map((p) => ({
-            slug: p.slug,
-            fullName: p.fullName,
-            party: p.currentParty
-              ? {
-                  name: p.currentParty.name,
-                  shortName: p.currentParty.shortName,
-                }
-              : null,
-            birthDate: p.birthDate,
-            deathDate: p.deathDate,
-            url: `https://poligraph.fr/politiques/${p.slug}`,
-          })),
-        },
+        content: [{ type: "text" as const, text: renderFormat(format, markdown, structuredContent, SearchPoliticiansOutputSchema) }],
+        structuredContent,
       };
-    },
+    }),
   );
 
   server.registerTool(
@@ -303,13 +239,11 @@ export function registerPoliticianTools(server: McpServer): void {
       inputSchema: {
         slug: z
           .string()
-          .describe("Identifiant du politicien (ex: 'emmanuel-macron')"),
+          .describe("Nom ou identifiant du politicien (ex: 'Macron', 'emmanuel-macron')"),
         types: z
           .string()
           .optional()
-          .describe(
-            "Types de relations séparés par virgule. Types : SAME_GOVERNMENT, SHARED_COMPANY, SAME_DEPARTMENT, PARTY_HISTORY",
-          ),
+          .describe(`Types de relations séparés par virgule. Types : ${RELATION_TYPES.join(", ")}`),
         limit: z
           .number()
           .int()
@@ -317,7 +251,9 @@ export function registerPoliticianTools(server: McpServer): void {
           .max(50)
           .default(10)
           .describe("Nombre max de connexions par type (max 50)"),
+        ...verbosityInputs,
       },
+      outputSchema: GetPoliticianRelationsOutputSchema,
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -328,18 +264,21 @@ export function registerPoliticianTools(server: McpServer): void {
         "openai/toolInvocation/invoked": "Relations chargées",
       },
     },
-    async ({ slug, types, limit }) => {
-      const data = await fetchAPI<RelationsResponse>(
-        `/api/politiques/${encodeURIComponent(slug)}/relations`,
+    withToolErrors(async ({ slug, types, limit, verbosity, maxChars }) => {
+      const resolved = await resolvePoliticianSlug(slug);
+      const data = await fetchAPI(
+        `/api/politiques/${encodeURIComponent(resolved)}/relations`,
+        RelationsResponseSchema,
         { types, limit },
       );
 
+      const t = messages();
       const lines: string[] = [];
       const party = data.center.party
         ? ` (${data.center.party.shortName})`
         : "";
-      lines.push(`# Relations — ${data.center.fullName}${party}`);
-      lines.push(`**${data.stats.totalConnections} connexions**`);
+      lines.push(`# ${t.relations} — ${data.center.fullName}${party}`);
+      lines.push(`**${t.connections(data.stats.totalConnections)}**`);
       lines.push("");
 
       const relationsByType: Record<
@@ -347,22 +286,29 @@ export function registerPoliticianTools(server: McpServer): void {
         Array<{ slug: string; fullName: string; party: string | null }>
       > = {};
 
+      // Summary mode prints one line per relation type, without the people
+      const { listItems } = detailLevel(verbosity);
+      const blocks: string[] = [];
       for (const cluster of data.clusters) {
         const count = cluster.nodes.length;
-        lines.push(
-          `## ${cluster.label} — ${formatRelationType(cluster.type)} (${count})`,
-        );
-        for (const n of cluster.nodes.slice(0, 15)) {
-          const nParty = n.party ? ` (${n.party.shortName})` : "";
-          const mandate = n.mandateType
-            ? ` — ${formatMandateType(n.mandateType)}`
-            : "";
-          lines.push(`- **${n.fullName}**${nParty}${mandate}`);
+        const heading = `${cluster.label} — ${formatRelationType(cluster.type)} (${count})`;
+        if (verbosity === "summary") {
+          blocks.push(`- **${heading}**`);
+        } else {
+          const block = [`## ${heading}`];
+          for (const n of cluster.nodes.slice(0, listItems)) {
+            const nParty = n.party ? ` (${n.party.shortName})` : "";
+            const mandate = n.mandateType
+              ? ` — ${formatMandateType(n.mandateType)}`
+              : "";
+            block.push(`- **${n.fullName}**${nParty}${mandate}`);
+          }
+          if (cluster.nodes.length > listItems) {
+            block.push(`_${t.more(cluster.nodes.length - listItems)}_`);
+          }
+          block.push("");
+          blocks.push(block.join("\n"));
         }
-        if (cluster.nodes.length > 15) {
-          lines.push(`_... et ${cluster.nodes.length - 15} autres_`);
-        }
-        lines.push("");
 
         relationsByType[cluster.type] = cluster.nodes.map((n) => ({
           slug: n.slug,
@@ -371,21 +317,21 @@ export function registerPoliticianTools(server: McpServer): void {
         }));
       }
 
-      lines.push(
-        `https://poligraph.fr/politiques/${data.center.slug}/relations`,
-      );
+      const tail = verbosity === "summary" && blocks.length > 0 ? [""] : [];
+      tail.push(`https://poligraph.fr/politiques/${data.center.slug}/relations`);
+      const { text } = fitBlocks(lines, blocks, tail, charBudget(maxChars), t.omittedRelations);
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text }],
         structuredContent: {
           center: { slug: data.center.slug, fullName: data.center.fullName },
           totalConnections: data.stats.totalConnections,
           byType: data.stats.byType,
           relations: relationsByType,
           url: `https://poligraph.fr/politiques/${data.center.slug}/relations`,
-        },
+        } satisfies GetPoliticianRelationsOutput,
       };
-    },
+    }, suggestPoliticians),
   );
 
   server.registerTool(
@@ -397,9 +343,11 @@ export function registerPoliticianTools(server: McpServer): void {
         slug: z
           .string()
           .describe(
-            "Identifiant du politicien (ex: 'emmanuel-macron', 'marine-le-pen')",
+            "Nom ou identifiant du politicien (ex: 'Macron', 'marine-le-pen')",
           ),
+        ...verbosityInputs,
       },
+      outputSchema: GetPoliticianOutputSchema,
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -410,14 +358,19 @@ export function registerPoliticianTools(server: McpServer): void {
         "openai/toolInvocation/invoked": "Politicien chargé",
       },
     },
-    async ({ slug }) => {
-      const data = await fetchAPI<PoliticianDetail>(
-        `/api/politiques/${encodeURIComponent(slug)}`,
+    withToolErrors(async ({ slug, verbosity, maxChars }) => {
+      const resolved = await resolvePoliticianSlug(slug);
+      const data = await fetchAPI(
+        `/api/politiques/${encodeURIComponent(resolved)}`,
+        PoliticianDetailSchema,
+      );
+      const text = fitText(
+        formatPoliticianDetail(data, tools, verbosity),
+        charBudget(maxChars),
+        truncationNote(`https://poligraph.fr/politiques/${data.slug}`),
       );
       return {
-        content: [
-          { type: "text" as const, text: formatPoliticianDetail(data) },
-        ],
+        content: [{ type: "text" as const, text }],
         structuredContent: {
           slug: data.slug,
           fullName: data.fullName,
@@ -449,8 +402,8 @@ export function registerPoliticianTools(server: McpServer): void {
           affairsCount: data.affairsCount,
           factchecksCount: data.factchecksCount ?? 0,
           url: `https://poligraph.fr/politiques/${data.slug}`,
-        },
+        } satisfies GetPoliticianOutput,
       };
-    },
+    }, suggestPoliticians),
   );
 }
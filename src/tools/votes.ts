@@ -1,134 +1,80 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
 import { fetchAPI, formatDate } from "../api.js";
+import {
+  PoliticianVotesResponseSchema,
+  VoteListResponseSchema,
+  VoteStatsResponseSchema,
+} from "../schemas.js";
+import {
+  ListVotesOutputSchema,
+  type ListVotesOutput,
+  GetPoliticianVotesOutputSchema,
+  type GetPoliticianVotesOutput,
+  GetVoteStatsOutputSchema,
+  type GetVoteStatsOutput,
+} from "../outputs.js";
+import { formatVotePosition, formatVoteResult, VoteResultSchema } from "../domain.js";
+import { withToolErrors } from "../errors.js";
+import { colon, defineMessages, field } from "../i18n.js";
+import { formatInputs, renderFormat } from "../formats.js";
+import { fetchPages, listVerbosity, pageFields, paginationInputs, renderPage } from "../pagination.js";
+import { charBudget, detailLevel, fitBlocks, fitText, truncationNote, verbosityInputs } from "../verbosity.js";
+import { resolvePoliticianSlug } from "../resolver.js";
+import { suggestPoliticians } from "../suggestions.js";
 
-interface ScrutinListItem {
-  id: string;
-  externalId: string;
-  title: string;
-  votingDate: string;
-  legislature: number;
-  votesFor: number;
-  votesAgainst: number;
-  votesAbstain: number;
-  result: string;
-  sourceUrl: string;
-  totalVotes: number;
-}
-
-interface VoteListResponse {
-  data: ScrutinListItem[];
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
-
-interface PartyStats {
-  partyId: string;
-  partyName: string;
-  partyShortName: string;
-  partyColor: string;
-  partySlug: string;
-  totalVotes: number;
-  pour: number;
-  contre: number;
-  abstention: number;
-  nonVotant: number;
-  absent: number;
-  cohesionRate: number;
-  participationRate: number;
-}
-
-interface DivisiveScrutin {
-  id: string;
-  slug: string;
-  title: string;
-  votingDate: string;
-  chamber: string;
-  votesFor: number;
-  votesAgainst: number;
-  votesAbstain: number;
-  divisionScore: number;
-}
-
-interface VoteStatsResponse {
-  parties: PartyStats[];
-  divisiveScrutins: DivisiveScrutin[];
-  global: {
-    totalScrutins: number;
-    totalVotes: number;
-    totalVotesFor: number;
-    totalVotesAgainst: number;
-    totalVotesAbstain: number;
-    participationRate: number;
-    adoptes: number;
-    rejetes: number;
-  };
-}
-
-interface PoliticianVotesResponse {
-  politician: {
-    id: string;
-    slug: string;
-    fullName: string;
-    firstName: string;
-    lastName: string;
-    photoUrl: string | null;
-    party: {
-      shortName: string;
-      name: string;
-      color: string;
-    } | null;
-  };
-  stats: {
-    total: number;
-    pour: number;
-    contre: number;
-    abstention: number;
-    nonVotant: number;
-    absent: number;
-    participationRate: number;
-  };
-  votes: Array<{
-    id: string;
-    position: string;
-    scrutin: {
-      id: string;
-      externalId: string;
-      title: string;
-      votingDate: string;
-      legislature: number;
-      votesFor: number;
-      votesAgainst: number;
-      votesAbstain: number;
-      result: string;
-      sourceUrl: string;
-    };
-  }>;
-  pagination: {
-    page: number;
-    limit: number;
-    total: number;
-    totalPages: number;
-  };
-}
-
-function formatResult(result: string): string {
-  return result === "ADOPTED" ? "Adopté" : "Rejeté";
-}
+const messages = defineMessages(
+  {
+    chamber: { AN: "Assemblée nationale", SENAT: "Sénat", all: "Toutes chambres" } as Record<string, string>,
+    noun: "scrutins",
+    total: "Total",
+    votes: (count: number) => `${count} votes`,
+    participation: "Taux de participation",
+    statistics: "Statistiques",
+    latest: "Derniers votes",
+    vote: "Vote",
+    resultLabel: "Résultat",
+    nextPage: "Page suivante",
+    omitted: (count: number) => `_${count} autre(s) vote(s) omis (maxChars) : relancez avec verbosity="summary" pour tous les voir._`,
+    statsHeading: "Statistiques de vote",
+    overview: "Vue globale",
+    totalScrutins: "Total scrutins",
+    totalVotes: "Total votes",
+    adopted: "Adoptés",
+    rejected: "Rejetés",
+    cohesionHeading: "Cohésion par parti",
+    cohesion: (rate: number, votes: number) => `${rate}% de cohésion (${votes} votes)`,
+    divisiveHeading: "Scrutins les plus divisifs",
+    divisionScore: "Score de division",
+  },
+  {
+    chamber: { AN: "National Assembly", SENAT: "Senate", all: "All chambers" },
+    noun: "votes",
+    total: "Total",
+    votes: (count: number) => `${count} votes`,
+    participation: "Turnout",
+    statistics: "Statistics",
+    latest: "Latest votes",
+    vote: "Vote",
+    resultLabel: "Result",
+    nextPage: "Next page",
+    omitted: (count: number) => `_${count} more vote(s) left out (maxChars): call again with verbosity="summary" to see them all._`,
+    statsHeading: "Voting statistics",
+    overview: "Overview",
+    totalScrutins: "Total votes held",
+    totalVotes: "Total ballots cast",
+    adopted: "Adopted",
+    rejected: "Rejected",
+    cohesionHeading: "Cohesion by party",
+    cohesion: (rate: number, votes: number) => `${rate}% cohesion (${votes} votes)`,
+    divisiveHeading: "Most divisive votes",
+    divisionScore: "Division score",
+  },
+);
 
-function formatPosition(position: string): string {
-  const labels: Record<string, string> = {
-    POUR: "Pour",
-    CONTRE: "Contre",
-    ABSTENTION: "Abstention",
-    NON_VOTANT: "Non votant",
-    ABSENT: "Absent",
-  };
-  return labels[position] || position;
+/** "Pour: 12, Contre: 3, Abstention: 1" with the labels of the current language. */
+function formatCounts(votesFor: number, votesAgainst: number, votesAbstain: number): string {
+  return `${formatVotePosition("POUR")}: ${votesFor}, ${formatVotePosition("CONTRE")}: ${votesAgainst}, ${formatVotePosition("ABSTENTION")}: ${votesAbstain}`;
 }
 
 export function registerVoteTools(server: McpServer): void {
@@ -138,60 +84,59 @@ export function registerVoteTools(server: McpServer): void {
       description: "Lister les scrutins parlementaires (Assemblée nationale et Sénat) avec filtres.",
       inputSchema: {
         search: z.string().optional().describe("Recherche dans le titre du scrutin"),
-        result: z.enum(["ADOPTED", "REJECTED"]).optional().describe("Filtrer par résultat : ADOPTED ou REJECTED"),
+        result: VoteResultSchema.optional().describe("Filtrer par résultat : ADOPTED ou REJECTED"),
         legislature: z.number().int().optional().describe("Filtrer par législature (ex: 16, 17)"),
-        page: z.number().int().min(1).default(1).describe("Numéro de page"),
-        limit: z.number().int().min(1).max(100).default(20).describe("Résultats par page (max 100)"),
+        ...paginationInputs,
+        ...verbosityInputs,
+        ...formatInputs,
       },
+      outputSchema: ListVotesOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Recherche de scrutins...",
         "openai/toolInvocation/invoked": "Scrutins trouvés",
       },
     },
-    async ({ search, result, legislature, page, limit }) => {
-      const data = await fetchAPI<VoteListResponse>("/api/votes", {
-        search,
-        result,
-        legislature,
-        page,
-        limit,
-      });
+    withToolErrors(async ({ search, result, legislature, verbosity, maxChars, format, ...paging }) => {
+      const data = await fetchPages(
+        "/api/votes",
+        VoteListResponseSchema,
+        {
+          search,
+          result,
+          legislature,
+        },
+        paging,
+        { tool: "list_votes" },
+      );
 
-      const lines: string[] = [];
-      lines.push(`**${data.pagination.total} scrutins** (page ${data.pagination.page}/${data.pagination.totalPages})`);
-      lines.push("");
+      const level = listVerbosity(data, verbosity);
+      const blocks = data.items.map((s) => {
+        const line = `- **${s.title}** (${formatDate(s.votingDate)})`;
+        if (level === "summary") return `${line} — ${formatVoteResult(s.result)}`;
+        return `${line}\n  ${formatVoteResult(s.result)} — ${formatCounts(s.votesFor, s.votesAgainst, s.votesAbstain)}`;
+      });
 
-      for (const s of data.data) {
-        const resultLabel = formatResult(s.result);
-        lines.push(`- **${s.title}** (${formatDate(s.votingDate)})`);
-        lines.push(`  ${resultLabel} — Pour: ${s.votesFor}, Contre: ${s.votesAgainst}, Abstention: ${s.votesAbstain}`);
-      }
-
-      if (data.pagination.page < data.pagination.totalPages) {
-        lines.push("");
-        lines.push(`_Page suivante : page=${data.pagination.page + 1}_`);
-      }
+      const structuredContent = {
+        ...pageFields(data),
+        items: data.items.map((s) => ({
+          title: s.title,
+          votingDate: s.votingDate,
+          legislature: s.legislature,
+          result: s.result,
+          votesFor: s.votesFor,
+          votesAgainst: s.votesAgainst,
+          votesAbstain: s.votesAbstain,
+          sourceUrl: s.sourceUrl,
+        })),
+      } satisfies ListVotesOutput;
 
+      const markdown = renderPage(data, messages().noun, blocks, maxChars);
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
-        structuredContent: {
-          total: data.pagination.total,
-          page: data.pagination.page,
-          totalPages: data.pagination.totalPages,
-          items: data.data.map((s) => ({
-            title: s.title,
-            votingDate: s.votingDate,
-            legislature: s.legislature,
-            result: s.result,
-            votesFor: s.votesFor,
-            votesAgainst: s.votesAgainst,
-            votesAbstain: s.votesAbstain,
-            sourceUrl: s.sourceUrl,
-          })),
-        },
+        content: [{ type: "text" as const, text: renderFormat(format, markdown, structuredContent, ListVotesOutputSchema) }],
+        structuredContent,
       };
-    },
+    }),
   );
 
   server.registerTool(
@@ -199,51 +144,60 @@ export function registerVoteTools(server: McpServer): void {
     {
       description: "Obtenir les votes d'un politicien spécifique avec ses statistiques de participation.",
       inputSchema: {
-        slug: z.string().describe("Identifiant du politicien (ex: 'jean-luc-melenchon')"),
+        slug: z.string().describe("Nom ou identifiant du politicien (ex: 'Mélenchon', 'jean-luc-melenchon')"),
         page: z.number().int().min(1).default(1).describe("Numéro de page"),
         limit: z.number().int().min(1).max(100).default(20).describe("Résultats par page (max 100)"),
+        ...verbosityInputs,
       },
+      outputSchema: GetPoliticianVotesOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Chargement des votes...",
         "openai/toolInvocation/invoked": "Votes chargés",
       },
     },
-    async ({ slug, page, limit }) => {
-      const data = await fetchAPI<PoliticianVotesResponse>(
-        `/api/politiques/${encodeURIComponent(slug)}/votes`,
+    withToolErrors(async ({ slug, page, limit, verbosity, maxChars }) => {
+      const resolved = await resolvePoliticianSlug(slug);
+      const data = await fetchAPI(
+        `/api/politiques/${encodeURIComponent(resolved)}/votes`,
+        PoliticianVotesResponseSchema,
         { page, limit },
       );
 
+      const t = messages();
       const lines: string[] = [];
       const party = data.politician.party ? ` (${data.politician.party.name})` : "";
       lines.push(`# Votes — ${data.politician.fullName}${party}`);
       lines.push("");
 
       const s = data.stats;
-      lines.push("## Statistiques");
-      lines.push(`- **Total** : ${s.total} votes`);
-      lines.push(`- **Pour** : ${s.pour} (${s.total ? Math.round((s.pour / s.total) * 100) : 0}%)`);
-      lines.push(`- **Contre** : ${s.contre} (${s.total ? Math.round((s.contre / s.total) * 100) : 0}%)`);
-      lines.push(`- **Abstention** : ${s.abstention}`);
-      lines.push(`- **Absent** : ${s.absent}`);
-      lines.push(`- **Taux de participation** : ${s.participationRate}%`);
+      lines.push(`## ${t.statistics}`);
+      lines.push(`- ${field(t.total, t.votes(s.total))}`);
+      lines.push(`- ${field(formatVotePosition("POUR"), `${s.pour} (${s.total ? Math.round((s.pour / s.total) * 100) : 0}%)`)}`);
+      lines.push(`- ${field(formatVotePosition("CONTRE"), `${s.contre} (${s.total ? Math.round((s.contre / s.total) * 100) : 0}%)`)}`);
+      lines.push(`- ${field(formatVotePosition("ABSTENTION"), s.abstention)}`);
+      lines.push(`- ${field(formatVotePosition("ABSENT"), s.absent)}`);
+      lines.push(`- ${field(t.participation, `${s.participationRate}%`)}`);
       lines.push("");
 
-      lines.push(`## Derniers votes (page ${data.pagination.page}/${data.pagination.totalPages})`);
-      for (const v of data.votes) {
-        const resultLabel = formatResult(v.scrutin.result);
-        lines.push(`- **${v.scrutin.title}** (${formatDate(v.scrutin.votingDate)})`);
-        lines.push(`  Vote : ${formatPosition(v.position)} — Résultat : ${resultLabel}`);
-      }
+      lines.push(`## ${t.latest} (page ${data.pagination.page}/${data.pagination.totalPages})`);
+      // Summary mode folds the position onto the title line
+      const blocks = data.votes.map((v) => {
+        const title = `- **${v.scrutin.title}** (${formatDate(v.scrutin.votingDate)})`;
+        if (verbosity === "summary") return `${title} — ${formatVotePosition(v.position)}`;
+        const resultLabel = formatVoteResult(v.scrutin.result);
+        return `${title}\n  ${t.vote}${colon()}${formatVotePosition(v.position)} — ${t.resultLabel}${colon()}${resultLabel}`;
+      });
 
+      const tail: string[] = [];
       if (data.pagination.page < data.pagination.totalPages) {
-        lines.push("");
-        lines.push(`_Page suivante : page=${data.pagination.page + 1}_`);
+        tail.push("");
+        tail.push(`_${t.nextPage}${colon()}page=${data.pagination.page + 1}_`);
       }
+      const { text } = fitBlocks(lines, blocks, tail, charBudget(maxChars), t.omitted);
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text }],
         structuredContent: {
           politician: { slug: data.politician.slug, fullName: data.politician.fullName },
           stats: data.stats,
@@ -260,9 +214,9 @@ export function registerVoteTools(server: McpServer): void {
           })),
           page: data.pagination.page,
           totalPages: data.pagination.totalPages,
-        },
+        } satisfies GetPoliticianVotesOutput,
       };
-    },
+    }, suggestPoliticians),
   );
 
   server.registerTool(
@@ -271,50 +225,56 @@ export function registerVoteTools(server: McpServer): void {
       description: "Obtenir les statistiques de vote par parti : cohésion, scrutins divisifs, distribution globale.",
       inputSchema: {
         chamber: z.enum(["AN", "SENAT"]).optional().describe("Filtrer par chambre : AN (Assemblée) ou SÉNAT"),
+        ...verbosityInputs,
       },
+      outputSchema: GetVoteStatsOutputSchema,
       annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false },
       _meta: {
         "openai/toolInvocation/invoking": "Calcul des statistiques de vote...",
         "openai/toolInvocation/invoked": "Statistiques calculées",
       },
     },
-    async ({ chamber }) => {
-      const data = await fetchAPI<VoteStatsResponse>("/api/votes/stats", {
+    withToolErrors(async ({ chamber, verbosity, maxChars }) => {
+      const data = await fetchAPI("/api/votes/stats", VoteStatsResponseSchema, {
         chamber,
       });
 
+      const t = messages();
       const lines: string[] = [];
-      const chamberLabel = chamber === "AN" ? "Assemblée nationale" : chamber === "SENAT" ? "Sénat" : "Toutes chambres";
-      lines.push(`# Statistiques de vote — ${chamberLabel}`);
+      lines.push(`# ${t.statsHeading} — ${t.chamber[chamber ?? "all"]}`);
       lines.push("");
 
-      lines.push("## Vue globale");
-      lines.push(`- **Total scrutins** : ${data.global.totalScrutins}`);
-      lines.push(`- **Total votes** : ${data.global.totalVotes}`);
-      lines.push(`- Pour : ${data.global.totalVotesFor}`);
-      lines.push(`- Contre : ${data.global.totalVotesAgainst}`);
-      lines.push(`- Abstention : ${data.global.totalVotesAbstain}`);
-      lines.push(`- **Adoptés** : ${data.global.adoptes} — **Rejetés** : ${data.global.rejetes}`);
-      lines.push(`- **Taux de participation** : ${data.global.participationRate}%`);
+      lines.push(`## ${t.overview}`);
+      lines.push(`- ${field(t.totalScrutins, data.global.totalScrutins)}`);
+      lines.push(`- ${field(t.totalVotes, data.global.totalVotes)}`);
+      lines.push(`- ${formatVotePosition("POUR")}${colon()}${data.global.totalVotesFor}`);
+      lines.push(`- ${formatVotePosition("CONTRE")}${colon()}${data.global.totalVotesAgainst}`);
+      lines.push(`- ${formatVotePosition("ABSTENTION")}${colon()}${data.global.totalVotesAbstain}`);
+      lines.push(`- ${field(t.adopted, data.global.adoptes)} — ${field(t.rejected, data.global.rejetes)}`);
+      lines.push(`- ${field(t.participation, `${data.global.participationRate}%`)}`);
       lines.push("");
 
-      lines.push("## Cohésion par parti");
+      // Rankings list `listItems` entries each: none in summary mode
+      const { listItems } = detailLevel(verbosity);
       const sorted = [...data.parties].sort((a, b) => b.cohesionRate - a.cohesionRate);
-      for (const p of sorted) {
-        lines.push(`- **${p.partyShortName}** (${p.partyName}) : ${p.cohesionRate}% de cohésion (${p.totalVotes} votes)`);
+      if (listItems > 0 && sorted.length > 0) {
+        lines.push(`## ${t.cohesionHeading}`);
+        for (const p of sorted.slice(0, listItems)) {
+          lines.push(`- **${p.partyShortName}** (${p.partyName})${colon()}${t.cohesion(p.cohesionRate, p.totalVotes)}`);
+        }
+        lines.push("");
       }
-      lines.push("");
 
-      if (data.divisiveScrutins.length > 0) {
-        lines.push("## Scrutins les plus divisifs");
-        for (const s of data.divisiveScrutins.slice(0, 10)) {
+      if (listItems > 0 && data.divisiveScrutins.length > 0) {
+        lines.push(`## ${t.divisiveHeading}`);
+        for (const s of data.divisiveScrutins.slice(0, listItems)) {
           lines.push(`- **${s.title}** (${formatDate(s.votingDate)})`);
-          lines.push(`  Pour: ${s.votesFor}, Contre: ${s.votesAgainst}, Abstention: ${s.votesAbstain} — Score de division : ${s.divisionScore}%`);
+          lines.push(`  ${formatCounts(s.votesFor, s.votesAgainst, s.votesAbstain)} — ${t.divisionScore}${colon()}${s.divisionScore}%`);
         }
       }
 
       return {
-        content: [{ type: "text" as const, text: lines.join("\n") }],
+        content: [{ type: "text" as const, text: fitText(lines.join("\n").trimEnd(), charBudget(maxChars), truncationNote()) }],
         structuredContent: {
           global: data.global,
           parties: data.parties.map((p) => ({
@@ -332,8 +292,8 @@ export function registerVoteTools(server: McpServer): void {
             votesAbstain: s.votesAbstain,
             divisionScore: s.divisionScore,
           })),
-        },
+        } satisfies GetVoteStatsOutput,
       };
-    },
+    }),
   );
 }
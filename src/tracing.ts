@@ -0,0 +1,199 @@
+/**
+ * Optional OpenTelemetry tracing.
+ *
+ * Three levels of spans, nested through the active context:
+ * - one SERVER span per MCP request (`instrumentTransport`), child of the
+ *   W3C trace context of the incoming HTTP request (`withIncomingContext`),
+ * - one span per tool handler invocation (`traceToolHandlers`),
+ * - one CLIENT span per `fetchAPI` call, with URL, status and size (api.ts).
+ *
+ * Tracing is enabled by `initTracing` when `POLIGRAPH_TRACING=on` or an
+ * OTLP endpoint is configured (`OTEL_EXPORTER_OTLP_ENDPOINT` or
+ * `OTEL_EXPORTER_OTLP_TRACES_ENDPOINT`); the OTLP exporter reads its other
+ * settings (headers, timeout) from the standard `OTEL_*` variables. Until
+ * then the API is a no-op and spans cost nothing.
+ */
+
+import {
+  SpanKind,
+  SpanStatusCode,
+  context,
+  propagation,
+  trace,
+  type Attributes,
+  type Span,
+} from "@opentelemetry/api";
+import { AsyncLocalStorageContextManager } from "@opentelemetry/context-async-hooks";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  type SpanExporter,
+} from "@opentelemetry/sdk-trace-base";
+import type { IncomingHttpHeaders } from "node:http";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  isJSONRPCErrorResponse,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type CallToolResult,
+  type RequestId,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ERROR_META_KEY } from "./errors.js";
+
+const tracer = trace.getTracer("poligraph-mcp", "2.0.0");
+
+let provider: BasicTracerProvider | undefined;
+
+export interface TracingOptions {
+  /** Export spans synchronously to this exporter instead of OTLP (tests). */
+  exporter?: SpanExporter;
+  env?: NodeJS.ProcessEnv;
+}
+
+/** Register the global tracer provider if tracing is enabled. Returns whether it is. */
+export async function initTracing(options: TracingOptions = {}): Promise<boolean> {
+  const env = options.env ?? process.env;
+  const enabled =
+    options.exporter !== undefined ||
+    env.POLIGRAPH_TRACING === "on" ||
+    (env.POLIGRAPH_TRACING !== "off" &&
+      Boolean(env.OTEL_EXPORTER_OTLP_ENDPOINT || env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT));
+  if (!enabled || provider) return Boolean(provider);
+
+  let processor;
+  if (options.exporter) {
+    processor = new SimpleSpanProcessor(options.exporter);
+  } else {
+    // Loaded on demand: the OTLP exporter pulls in its own dependencies
+    const { OTLPTraceExporter } = await import("@opentelemetry/exporter-trace-otlp-http");
+    processor = new BatchSpanProcessor(new OTLPTraceExporter());
+  }
+
+  provider = new BasicTracerProvider({
+    resource: resourceFromAttributes({ "service.name": env.OTEL_SERVICE_NAME || "poligraph-mcp" }),
+    spanProcessors: [processor],
+  });
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  trace.setGlobalTracerProvider(provider);
+  return true;
+}
+
+/** Export pending spans (serverless handlers call this before returning). */
+export async function flushTracing(): Promise<void> {
+  await provider?.forceFlush();
+}
+
+/**
+ * Run `fn` in a new active span. Exceptions mark the span as failed and are
+ * rethrown; the span ends when `fn` settles.
+ */
+export function withSpan<T>(
+  name: string,
+  kind: SpanKind,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+): Promise<T> {
+  return tracer.startActiveSpan(name, { kind, attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (e) {
+      span.recordException(e as Error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: (e as Error).message });
+      throw e;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/** Run `fn` as a continuation of the W3C trace context (`traceparent`) found in `headers`. */
+export function withIncomingContext<T>(headers: IncomingHttpHeaders, fn: () => T): T {
+  return context.with(propagation.extract(context.active(), headers), fn);
+}
+
+/** Add the current trace context to outgoing request headers. */
+export function injectTraceHeaders(headers: Record<string, string>): Record<string, string> {
+  propagation.inject(context.active(), headers);
+  return headers;
+}
+
+function toolErrorCode(result: CallToolResult): string | undefined {
+  if (result.isError !== true) return undefined;
+  const meta = result._meta?.[ERROR_META_KEY] as { code?: string } | undefined;
+  return meta?.code ?? "TOOL_ERROR";
+}
+
+/**
+ * Wrap every tool registered on `server` from now on in an `execute_tool`
+ * span. Call before registering tools.
+ */
+export function traceToolHandlers(server: McpServer): void {
+  const register = server.registerTool.bind(server) as (name: string, config: unknown, cb: unknown) => unknown;
+
+  server.registerTool = ((name: string, config: unknown, cb: (...args: unknown[]) => Promise<CallToolResult>) =>
+    register(name, config, (...args: unknown[]) =>
+      withSpan(`execute_tool ${name}`, SpanKind.INTERNAL, { "gen_ai.tool.name": name }, async (span) => {
+        const result = await cb(...args);
+        const code = toolErrorCode(result);
+        if (code) {
+          span.setAttribute("poligraph.error.code", code);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: code });
+        }
+        return result;
+      }),
+    )) as McpServer["registerTool"];
+}
+
+/**
+ * Open a SERVER span for each JSON-RPC request received on `transport`,
+ * ended when its response is sent. Call after `server.connect(transport)`.
+ */
+export function instrumentTransport(transport: Transport): void {
+  if (!provider) return;
+
+  const spans = new Map<RequestId, Span>();
+  const onmessage = transport.onmessage;
+  const send = transport.send.bind(transport);
+
+  transport.onmessage = (message, extra) => {
+    if (!isJSONRPCRequest(message)) {
+      onmessage?.(message, extra);
+      return;
+    }
+    const params = message.params as { name?: unknown; uri?: unknown } | undefined;
+    const target = [params?.name, params?.uri].find((v): v is string => typeof v === "string") ?? "";
+    const attributes: Attributes = {
+      "mcp.method.name": message.method,
+      "jsonrpc.request.id": String(message.id),
+    };
+    if (target) attributes["mcp.target"] = target;
+    if (transport.sessionId) attributes["mcp.session.id"] = transport.sessionId;
+
+    const span = tracer.startSpan(`${message.method}${target ? ` ${target}` : ""}`, {
+      kind: SpanKind.SERVER,
+      attributes,
+    });
+    spans.set(message.id, span);
+    context.with(trace.setSpan(context.active(), span), () => onmessage?.(message, extra));
+  };
+
+  transport.send = async (message, options) => {
+    if (isJSONRPCResultResponse(message) || isJSONRPCErrorResponse(message)) {
+      const span = message.id !== undefined ? spans.get(message.id) : undefined;
+      if (span) {
+        spans.delete(message.id!);
+        if (isJSONRPCErrorResponse(message)) {
+          span.setAttribute("rpc.jsonrpc.error_code", message.error.code);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: message.error.message });
+        }
+        span.end();
+      }
+    }
+    return send(message, options);
+  };
+}
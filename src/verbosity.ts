@@ -0,0 +1,146 @@
+/**
+ * Output-size controls shared by the tools: `verbosity` and `maxChars`.
+ *
+ * `verbosity` picks how much each formatter prints: `summary` is one line
+ * per item, `standard` shortens long descriptions and collapses source
+ * lists, `full` prints everything. `maxChars` caps the markdown text: lists
+ * drop their last items and end with a "N omitted" note (with a cursor for
+ * list tools, see pagination.ts), detail views are cut at a line boundary.
+ * Only the text is reduced; `structuredContent` always holds every item.
+ */
+
+import { z } from "zod";
+import { defineMessages } from "./i18n.js";
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isNaN(value) ? fallback : value;
+}
+
+export type Verbosity = "summary" | "standard" | "full";
+
+/** Text budget applied when the caller sets no `maxChars` (0 = unlimited). */
+export const DEFAULT_MAX_CHARS = envInt("POLIGRAPH_MAX_CHARS", 40_000);
+
+/** Smallest accepted `maxChars`: enough for a heading, one item and the note. */
+const MIN_MAX_CHARS = 500;
+
+export const verbosityInputs = {
+  verbosity: z
+    .enum(["summary", "standard", "full"])
+    .default("standard")
+    .describe("Niveau de détail : summary (une ligne par élément), standard (descriptions abrégées), full (tout)"),
+  maxChars: z
+    .number()
+    .int()
+    .min(MIN_MAX_CHARS)
+    .optional()
+    .describe(`Taille maximale de la réponse texte, en caractères${DEFAULT_MAX_CHARS > 0 ? ` (défaut ${DEFAULT_MAX_CHARS})` : ""}`),
+};
+
+export interface DetailLevel {
+  /** Characters of free text (descriptions) kept. */
+  descriptionChars: number;
+  /** Sources listed per item. */
+  sources: number;
+  /** Entries listed per sub-list (members, candidates…), or Infinity. */
+  listItems: number;
+}
+
+const DETAIL_LEVELS: Record<Verbosity, DetailLevel> = {
+  summary: { descriptionChars: 200, sources: 0, listItems: 0 },
+  standard: { descriptionChars: 600, sources: 3, listItems: 20 },
+  full: { descriptionChars: Infinity, sources: Infinity, listItems: Infinity },
+};
+
+export function detailLevel(verbosity: Verbosity): DetailLevel {
+  return DETAIL_LEVELS[verbosity];
+}
+
+/** Resolve the text budget of a call (Infinity when unlimited). */
+export function charBudget(maxChars: number | undefined): number {
+  const budget = maxChars ?? DEFAULT_MAX_CHARS;
+  return budget > 0 ? budget : Infinity;
+}
+
+/** Shorten `text` to at most `max` characters, at a word boundary, with an ellipsis. */
+export function truncateText(text: string, max: number): string {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, Math.max(0, max - 1));
+  const space = cut.lastIndexOf(" ");
+  return `${(space > max / 2 ? cut.slice(0, space) : cut).trimEnd()}…`;
+}
+
+export interface FittedText {
+  text: string;
+  /** Blocks included in `text`. */
+  shown: number;
+}
+
+/**
+ * Join `head`, as many `blocks` as fit in `maxChars` and `tail` (lines are
+ * joined with newlines, blocks are already multi-line strings). When blocks
+ * are dropped, `omitted(count, shown)` is appended after the last one shown.
+ * The first block is always kept, cut at a line boundary and followed by a
+ * note if need be.
+ */
+export function fitBlocks(
+  head: string[],
+  blocks: string[],
+  tail: string[],
+  maxChars: number,
+  omitted: (count: number, shown: number) => string,
+): FittedText {
+  const join = (body: string[]) => [...head, ...body, ...tail].join("\n");
+  const full = join(blocks);
+  if (full.length <= maxChars) return { text: full, shown: blocks.length };
+
+  // Each body line costs its length plus one newline
+  let used = [...head, ...tail].join("\n").length;
+  const shown: string[] = [];
+  for (const block of blocks) {
+    // Room for a blank line and the omitted note, unless this is the last block
+    const rest = blocks.length - shown.length - 1;
+    const note = rest > 0 ? 1 + omitted(rest, shown.length + 1).length + 1 : 0;
+    if (used + block.length + 1 + note > maxChars) break;
+    used += block.length + 1;
+    shown.push(block);
+  }
+  if (shown.length === 0 && blocks.length > 0) {
+    const note = blocks.length > 1 ? ["", omitted(blocks.length - 1, 1)] : [];
+    const room = maxChars - join(["", ...note]).length;
+    shown.push(fitText(blocks[0], Math.max(room, 80), messages().cutBlock));
+  }
+  const note = shown.length < blocks.length ? ["", omitted(blocks.length - shown.length, shown.length)] : [];
+  return { text: join([...shown, ...note]), shown: shown.length };
+}
+
+/** Cut a detail view at the last line that fits in `maxChars`, followed by `note`. */
+export function fitText(text: string, maxChars: number, note: string): string {
+  if (text.length <= maxChars) return text;
+  const room = Math.max(0, maxChars - note.length - 2);
+  const cut = text.lastIndexOf("\n", room);
+  return `${cut > 0 ? text.slice(0, cut).trimEnd() : truncateText(text, room)}\n\n${note}`;
+}
+
+const messages = defineMessages(
+  {
+    truncated: (url: string) => `_Fiche tronquée (maxChars) : relancez avec verbosity="summary" ou consultez ${url}_`,
+    truncatedStats: `_Statistiques tronquées (maxChars) : relancez avec verbosity="summary"._`,
+    cutBlock: `_Élément tronqué (maxChars) : relancez avec verbosity="summary" ou un maxChars plus grand._`,
+  },
+  {
+    truncated: (url: string) => `_Record cut short (maxChars): call again with verbosity="summary" or see ${url}_`,
+    truncatedStats: `_Statistics cut short (maxChars): call again with verbosity="summary"._`,
+    cutBlock: `_Item cut short (maxChars): call again with verbosity="summary" or a larger maxChars._`,
+  },
+);
+
+/**
+ * Note ending a view cut by `fitText`, pointing to the full record at `url`
+ * (statistics have no page of their own and pass none).
+ */
+export function truncationNote(url?: string): string {
+  const t = messages();
+  return url ? t.truncated(url) : t.truncatedStats;
+}